@@ -18,6 +18,8 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import ScrollToHash from "@/components/ScrollToHash";
 import FloatingThemeToggle from "@/components/FloatingThemeToggle";
 import Preview from "./pages/Preview";
+import VerificationView from "./pages/VerificationView";
+import History from "./pages/History";
 
 const queryClient = new QueryClient();
 
@@ -32,6 +34,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/verify" element={<Verify />} />
+            <Route path="/verify/:id" element={<VerificationView />} />
+            <Route path="/history" element={<History />} />
             <Route path="/preview" element={<Preview />} />
             <Route path="/sign-in" element={<SignIn />} />
             <Route
@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { batchCsv, institutionOf, type BatchItem, type BatchQueue } from "@/lib/batch";
+import { isProblem } from "@shared/issues";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, Download, Pause, Play, RotateCcw, Trash2 } from "lucide-react";
+
+type Props = {
+  queue: BatchQueue;
+  items: BatchItem[];
+  paused: boolean;
+};
+
+type SortKey = "file" | "status" | "institution" | "issues";
+
+// Worst verdicts first, then files still waiting on a verdict
+const STATUS_ORDER = ["revoked", "invalid", "suspect", "valid", "failed", "cancelled", "running", "queued"];
+
+const STATUS_STYLES: Record<string, string> = {
+  valid: "bg-emerald-600/10 text-emerald-700 dark:text-emerald-400",
+  suspect: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  invalid: "bg-red-600/10 text-red-700 dark:text-red-400",
+  revoked: "bg-red-600/10 text-red-700 dark:text-red-400",
+  failed: "bg-red-600/10 text-red-700 dark:text-red-400",
+};
+
+const statusOf = (item: BatchItem) => item.result?.status ?? item.status;
+const problemCount = (item: BatchItem) => item.result?.issues.filter(isProblem).length ?? 0;
+
+const SORTERS: Record<SortKey, (a: BatchItem, b: BatchItem) => number> = {
+  file: (a, b) => a.file.name.localeCompare(b.file.name),
+  status: (a, b) => STATUS_ORDER.indexOf(statusOf(a)) - STATUS_ORDER.indexOf(statusOf(b)),
+  institution: (a, b) => institutionOf(a.result).localeCompare(institutionOf(b.result)),
+  issues: (a, b) => problemCount(a) - problemCount(b),
+};
+
+export default function BatchResults({ queue, items, paused }: Props) {
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "status", desc: false });
+  const [concurrency, setConcurrency] = useState("2");
+
+  const sorted = useMemo(() => {
+    const rows = [...items].sort(SORTERS[sort.key]);
+    return sort.desc ? rows.reverse() : rows;
+  }, [items, sort]);
+
+  const finished = items.filter((i) => i.status !== "queued" && i.status !== "running").length;
+  const retryable = items.some((i) => i.status === "failed" || i.status === "cancelled");
+
+  const header = (key: SortKey, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1"
+        onClick={() => setSort((s) => ({ key, desc: s.key === key ? !s.desc : false }))}
+      >
+        {label}
+        {sort.key === key && (sort.desc ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([batchCsv(sorted)], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `verification-batch-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-sm font-medium mr-auto">
+          Batch verification · {finished}/{items.length}
+        </h4>
+        <Select
+          value={concurrency}
+          onValueChange={(v) => {
+            setConcurrency(v);
+            queue.setConcurrency(Number(v));
+          }}
+        >
+          <SelectTrigger className="h-8 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {["1", "2", "3", "4"].map((n) => (
+              <SelectItem key={n} value={n}>
+                {n} at a time
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {paused ? (
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => queue.resume()}>
+            <Play className="h-3.5 w-3.5" /> Resume
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => queue.pause()}>
+            <Pause className="h-3.5 w-3.5" /> Pause
+          </Button>
+        )}
+        <Button size="sm" variant="outline" className="gap-1" disabled={!retryable} onClick={() => queue.retry()}>
+          <RotateCcw className="h-3.5 w-3.5" /> Retry failed
+        </Button>
+        <Button size="sm" variant="outline" className="gap-1" disabled={finished === 0} onClick={exportCsv}>
+          <Download className="h-3.5 w-3.5" /> CSV
+        </Button>
+        <Button size="sm" variant="ghost" className="gap-1" onClick={() => queue.clear()}>
+          <Trash2 className="h-3.5 w-3.5" /> Clear
+        </Button>
+      </div>
+      <Progress value={items.length ? (finished / items.length) * 100 : 0} className="h-1.5" />
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {header("file", "File")}
+            {header("status", "Status")}
+            {header("institution", "Institution")}
+            {header("issues", "Issues")}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map((item) => {
+            const status = statusOf(item);
+            return (
+              <TableRow key={item.id}>
+                <TableCell className="max-w-[220px] truncate font-medium" title={item.file.name}>
+                  {item.file.name}
+                </TableCell>
+                <TableCell>
+                  <span
+                    className={cn(
+                      "inline-flex rounded-full px-2 py-0.5 text-xs capitalize",
+                      STATUS_STYLES[status] ?? "bg-muted text-muted-foreground",
+                    )}
+                  >
+                    {status}
+                    {item.status === "running" && item.attempts > 1 && ` (attempt ${item.attempts})`}
+                  </span>
+                </TableCell>
+                <TableCell className="text-xs">{institutionOf(item.result) || "—"}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {item.error ? (
+                    <span className="text-red-600">{item.error}</span>
+                  ) : (
+                    item.result?.issues
+                      .filter(isProblem)
+                      .map((i) => i.message)
+                      .join("; ") || (item.result ? "None" : "")
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
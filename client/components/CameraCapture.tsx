@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { startCameraSession, type CameraSession, type FrameSource } from "@/lib/camera";
+import { decodeFrame, type DecodedCode } from "@/lib/qrDecoder";
+import { Camera, QrCode, X } from "lucide-react";
+
+type Props = {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+};
+
+const STEADY_FRAMES = 5;
+
+// Frames of the playing <video>, drawn onto a canvas
+function videoFrames(video: HTMLVideoElement): FrameSource {
+  const canvas = document.createElement("canvas");
+  return {
+    grab(maxSide) {
+      if (video.readyState < 2) return null;
+      const scale = Math.min(1, maxSide / Math.max(video.videoWidth, video.videoHeight));
+      const width = Math.round(video.videoWidth * scale);
+      const height = Math.round(video.videoHeight * scale);
+      if (width === 0 || height === 0) return null;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return null;
+      ctx.drawImage(video, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      return { data, width, height };
+    },
+    still() {
+      const still = document.createElement("canvas");
+      still.width = video.videoWidth;
+      still.height = video.videoHeight;
+      still.getContext("2d")?.drawImage(video, 0, 0);
+      return new Promise((resolve) => still.toBlob(resolve, "image/jpeg", 0.95));
+    },
+  };
+}
+
+export default function CameraCapture({ onCapture, onCancel }: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const sessionRef = useRef<CameraSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const [steady, setSteady] = useState(0);
+  const [codes, setCodes] = useState<DecodedCode[]>([]);
+  const [auto, setAuto] = useState(true);
+  const autoRef = useRef(auto);
+  autoRef.current = auto;
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't use the camera here. Camera access needs HTTPS or localhost.");
+      return;
+    }
+    const session = startCameraSession({
+      getUserMedia: (constraints) => navigator.mediaDevices.getUserMedia(constraints),
+      attach: async (stream) => {
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+        return videoFrames(video);
+      },
+      decode: decodeFrame,
+      autoCapture: () => autoRef.current,
+      onReady: () => setReady(true),
+      onSteady: setSteady,
+      onCodes: setCodes,
+      onCapture: (file) => onCaptureRef.current(file),
+      onError: setError,
+      steadyFrames: STEADY_FRAMES,
+    });
+    sessionRef.current = session;
+    return () => session.stop();
+  }, []);
+
+  const capture = () => sessionRef.current?.capture();
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="relative overflow-hidden rounded-xl border bg-black">
+        <video ref={videoRef} className="block w-full h-auto" muted playsInline />
+        {!ready && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white/80">Starting camera…</div>
+        )}
+        {codes.length > 0 && (
+          <div className="absolute left-2 top-2 inline-flex max-w-[90%] items-center gap-1 rounded-full bg-emerald-600/90 px-2 py-1 text-xs text-white">
+            <QrCode className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">
+              {codes.length === 1 ? codes[0].data : `${codes.length} codes detected`}
+            </span>
+          </div>
+        )}
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <div className="space-y-1">
+          <Progress value={(steady / STEADY_FRAMES) * 100} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">
+            {auto
+              ? "Fill the frame with the certificate and hold still; a photo is taken automatically."
+              : "Fill the frame with the certificate and press Capture."}
+          </p>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={capture} disabled={!ready} className="gap-2">
+          <Camera className="h-4 w-4" /> Capture
+        </Button>
+        <Button variant="ghost" onClick={onCancel} className="gap-2">
+          <X className="h-4 w-4" /> Cancel
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch id="camera-auto" checked={auto} onCheckedChange={setAuto} />
+          <Label htmlFor="camera-auto" className="text-xs">
+            Auto-capture
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { compareFieldsWithRecord, type FieldComparison, type FieldName } from "@/lib/ocrFields";
+import type { RegistryRecord } from "@/lib/verify";
+import { FieldStatusIcon } from "@/components/FieldMatchTable";
+import { Columns2 } from "lucide-react";
+
+type Props = {
+  record: RegistryRecord;
+  // Absent when OCR didn't run or found nothing
+  fields?: FieldComparison[];
+  // The image OCR ran on
+  image?: Blob;
+  // For PDFs, instead of image: the pages step doesn't keep its renders, so
+  // the page with the located fields is rendered again
+  pdf?: File;
+  ocrText?: string;
+  ocrSource?: "backend" | "offline";
+};
+
+const STATUS_LABELS: Record<FieldComparison["status"], string> = {
+  match: "Matches",
+  fuzzy: "Close match",
+  mismatch: "Differs",
+  missing: "Not found on document",
+  unchecked: "Not in registry",
+};
+
+const BOX_CLASSES: Record<FieldComparison["status"], string> = {
+  match: "border-emerald-500 bg-emerald-500/10",
+  fuzzy: "border-amber-500 bg-amber-500/10",
+  mismatch: "border-red-500 bg-red-500/15",
+  missing: "border-muted-foreground",
+  unchecked: "border-sky-500 bg-sky-500/10",
+};
+
+// The certificate next to its registry record, field by field
+export default function FieldComparisonPanel({ record, fields, image, pdf, ocrText, ocrSource }: Props) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [active, setActive] = useState<FieldName | null>(null);
+  const [pageImage, setPageImage] = useState<Blob | null>(null);
+  const [renderFailed, setRenderFailed] = useState(false);
+
+  // Undefined for images; for PDFs the first page a field was located on
+  const page = pdf ? (fields?.find((f) => f.region?.page)?.region?.page ?? 1) : undefined;
+
+  useEffect(() => {
+    setPageImage(null);
+    setRenderFailed(false);
+    if (!pdf) return;
+    const controller = new AbortController();
+    // Same default scale as the pages step, so word positions line up
+    import("@/lib/pdf")
+      .then(({ renderPdfPages }) => renderPdfPages(pdf, { maxPages: page, signal: controller.signal }))
+      .then(({ pages }) => setPageImage(pages.find((p) => p.page === page)?.image ?? null))
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        console.warn("⚠️ Couldn't render PDF page for comparison:", e);
+        setRenderFailed(true);
+      });
+    return () => controller.abort();
+  }, [pdf, page]);
+
+  const shown = pdf ? pageImage : image;
+
+  useEffect(() => {
+    setSize(null);
+    if (!shown) return;
+    const url = URL.createObjectURL(shown);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [shown]);
+
+  // Without OCR every registry field is simply unconfirmed
+  const rows = (fields ?? compareFieldsWithRecord({}, record)).filter(
+    (f) => f.extracted !== undefined || f.expected !== undefined,
+  );
+  const boxed = rows.filter((f) => f.region && f.region.page === page);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        <Columns2 className="h-4 w-4 text-muted-foreground" /> Document vs registry
+      </h4>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="relative self-start overflow-hidden rounded-lg border bg-muted">
+          {shown && src ? (
+            <>
+              <img
+                src={src}
+                alt={page ? `Certificate, page ${page}` : "Certificate"}
+                className="block h-auto w-full"
+                onLoad={(e) =>
+                  setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+                }
+              />
+              {size &&
+                boxed.map(({ field, label, status, region }) => (
+                  <span
+                    key={field}
+                    title={`${label}: ${STATUS_LABELS[status]}`}
+                    className={cn(
+                      "absolute rounded-sm border-2 transition-opacity",
+                      BOX_CLASSES[status],
+                      active && active !== field && "opacity-25",
+                    )}
+                    style={{
+                      left: `${(region!.x / size.width) * 100}%`,
+                      top: `${(region!.y / size.height) * 100}%`,
+                      width: `${(region!.width / size.width) * 100}%`,
+                      height: `${(region!.height / size.height) * 100}%`,
+                    }}
+                    onMouseEnter={() => setActive(field)}
+                    onMouseLeave={() => setActive(null)}
+                  />
+                ))}
+            </>
+          ) : (
+            <p className="p-4 text-xs text-muted-foreground">
+              {pdf && !renderFailed
+                ? "Rendering page…"
+                : "No image to show; compare the fields with the document itself."}
+            </p>
+          )}
+        </div>
+        <dl className="space-y-1.5 text-xs">
+          {rows.map((f) => (
+            <div
+              key={f.field}
+              className={cn(
+                "rounded-md border p-2 transition-colors",
+                f.status === "match" && "border-emerald-500/40",
+                f.status === "fuzzy" && "border-amber-500/40 bg-amber-500/5",
+                f.status === "mismatch" && "border-red-500/40 bg-red-500/5",
+                active === f.field && "ring-2 ring-ring",
+              )}
+              onMouseEnter={() => setActive(f.field)}
+              onMouseLeave={() => setActive(null)}
+            >
+              <dt className="flex items-center gap-1.5 font-medium">
+                <FieldStatusIcon status={f.status} />
+                {f.label}
+                <span className="ml-auto font-normal text-muted-foreground">{STATUS_LABELS[f.status]}</span>
+              </dt>
+              <dd className="mt-1 grid grid-cols-[5rem_1fr] gap-x-2">
+                <span className="text-muted-foreground">Registry</span>
+                <span>{f.expected ?? "—"}</span>
+                <span className="text-muted-foreground">On document</span>
+                <span className={cn(f.status === "mismatch" && "text-red-700 dark:text-red-400")}>
+                  {f.extracted ?? <span className="text-muted-foreground">not found</span>}
+                  {f.region?.page && <span className="text-muted-foreground"> (page {f.region.page})</span>}
+                </span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+      {fields && shown && boxed.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          {ocrSource === "offline"
+            ? "None of the fields could be located on the image."
+            : "The OCR service doesn't report word positions, so fields aren't outlined."}
+        </p>
+      )}
+      {ocrText && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Raw OCR text{ocrSource === "offline" && " (read in browser)"}</summary>
+          <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2">
+            {ocrText}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { FieldComparison } from "@/lib/ocrFields";
+import { CircleCheck, CircleMinus, CircleX, HelpCircle } from "lucide-react";
+
+type Props = {
+  fields: FieldComparison[];
+  ocrText?: string;
+  ocrSource?: "backend" | "offline";
+};
+
+export function FieldStatusIcon({ status }: { status: FieldComparison["status"] }) {
+  switch (status) {
+    case "match":
+      return <CircleCheck className="h-4 w-4 text-emerald-600" />;
+    case "fuzzy":
+      return <CircleCheck className="h-4 w-4 text-amber-600" />;
+    case "mismatch":
+      return <CircleX className="h-4 w-4 text-red-600" />;
+    case "missing":
+      return <HelpCircle className="h-4 w-4 text-amber-600" />;
+    default:
+      return <CircleMinus className="h-4 w-4 text-muted-foreground/60" />;
+  }
+}
+
+export default function FieldMatchTable({ fields, ocrText, ocrSource }: Props) {
+  const rows = fields.filter((f) => f.extracted !== undefined || f.expected !== undefined);
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Document fields</h4>
+      <div className="rounded-lg border">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Field</TableHead>
+              <TableHead className="h-8">On document (OCR{ocrSource === "offline" && ", in browser"})</TableHead>
+              <TableHead className="h-8">Registry</TableHead>
+              <TableHead className="h-8 w-8" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((f) => (
+              <TableRow
+                key={f.field}
+                className={cn(
+                  f.status === "mismatch" && "bg-red-500/5",
+                  f.status === "fuzzy" && "bg-amber-500/5",
+                )}
+                title={f.status}
+              >
+                <TableCell className="py-1.5 font-medium">{f.label}</TableCell>
+                <TableCell className="py-1.5">
+                  {f.extracted ?? <span className="text-muted-foreground">not found</span>}
+                </TableCell>
+                <TableCell className="py-1.5">
+                  {f.expected ?? <span className="text-muted-foreground">—</span>}
+                </TableCell>
+                <TableCell className="py-1.5">
+                  <FieldStatusIcon status={f.status} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {ocrText && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Raw OCR text</summary>
+          <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2">
+            {ocrText}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { ISSUE_SEVERITIES, type Issue, type IssueSeverity } from "@shared/issues";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CheckCircle2, Info, XCircle, type LucideIcon } from "lucide-react";
+
+type Props = {
+  issues: Issue[];
+  className?: string;
+};
+
+const GROUPS: Record<IssueSeverity, { label: string; icon: LucideIcon; tone: string }> = {
+  error: { label: "Problems", icon: XCircle, tone: "text-red-600 dark:text-red-400" },
+  warning: { label: "Warnings", icon: AlertTriangle, tone: "text-amber-600 dark:text-amber-400" },
+  info: { label: "Notes", icon: Info, tone: "text-sky-600 dark:text-sky-400" },
+  pass: { label: "Passed checks", icon: CheckCircle2, tone: "text-emerald-600 dark:text-emerald-400" },
+};
+
+// Issues grouped by severity, most severe first
+export default function IssueList({ issues, className }: Props) {
+  const groups = ISSUE_SEVERITIES.map((severity) => ({
+    severity,
+    issues: issues.filter((i) => i.severity === severity),
+  })).filter((g) => g.issues.length > 0);
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {groups.map(({ severity, issues }) => {
+        const { label, icon: Icon, tone } = GROUPS[severity];
+        return (
+          <div key={severity} className="space-y-1">
+            <p className={cn("text-xs font-medium uppercase tracking-wide", tone)}>
+              {label} ({issues.length})
+            </p>
+            <ul className="grid gap-1">
+              {issues.map((issue, idx) => (
+                <li key={idx} className="flex items-start gap-2" title={issue.code}>
+                  <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", tone)} />
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import type { DocumentMetadata } from "@/lib/documentMetadata";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, Info } from "lucide-react";
+
+type Props = {
+  metadata: DocumentMetadata;
+};
+
+const GROUPS: { key: "exif" | "xmp" | "icc" | "text" | "info"; label: string }[] = [
+  { key: "info", label: "PDF document information" },
+  { key: "exif", label: "EXIF" },
+  { key: "xmp", label: "XMP" },
+  { key: "text", label: "PNG text" },
+  { key: "icc", label: "ICC profile" },
+];
+
+export default function MetadataPanel({ metadata }: Props) {
+  const groups = GROUPS.filter((g) => metadata[g.key] && Object.keys(metadata[g.key]).length > 0);
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Document metadata</h4>
+      {metadata.findings.length > 0 && (
+        <ul className="grid gap-1 text-xs">
+          {metadata.findings.map((f) => (
+            <li
+              key={f.code}
+              className={cn(
+                "flex items-start gap-2",
+                f.severity === "warning" && "text-amber-700 dark:text-amber-400",
+              )}
+            >
+              {f.severity === "warning" ? (
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              ) : (
+                <Info className="h-3.5 w-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+              )}
+              {f.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+        {metadata.software && (
+          <>
+            <dt className="text-muted-foreground">Software</dt>
+            <dd className="break-all">{metadata.software}</dd>
+          </>
+        )}
+        {metadata.camera && (
+          <>
+            <dt className="text-muted-foreground">Camera</dt>
+            <dd>{metadata.camera}</dd>
+          </>
+        )}
+        {metadata.createdAt && (
+          <>
+            <dt className="text-muted-foreground">Created</dt>
+            <dd>{new Date(metadata.createdAt).toLocaleString()}</dd>
+          </>
+        )}
+        {metadata.modifiedAt && (
+          <>
+            <dt className="text-muted-foreground">Modified</dt>
+            <dd>{new Date(metadata.modifiedAt).toLocaleString()}</dd>
+          </>
+        )}
+        {metadata.revisions !== undefined && (
+          <>
+            <dt className="text-muted-foreground">Revisions</dt>
+            <dd>{metadata.revisions}</dd>
+          </>
+        )}
+      </dl>
+      {groups.length > 0 && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground">Raw metadata</summary>
+          <div className="mt-1 max-h-64 space-y-2 overflow-auto rounded-md bg-muted p-2">
+            {groups.map(({ key, label }) => (
+              <div key={key}>
+                <div className="font-medium">{label}</div>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 font-mono">
+                  {Object.entries(metadata[key]).map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="text-muted-foreground">{name}</dt>
+                      <dd className="break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useRef, useState } from "react";
+import type { Point, Quad } from "@/lib/perspective";
+
+type Props = {
+  src: string;
+  alt: string;
+  // Natural size of the image; the quad is in these pixels
+  width: number;
+  height: number;
+  quad: Quad;
+  onChange: (quad: Quad) => void;
+  // Called once a drag ends, to recompute anything expensive
+  onCommit?: (quad: Quad) => void;
+};
+
+export default function QuadEditor({ src, alt, width, height, quad, onChange, onCommit }: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const handle = Math.max(width, height) / 60;
+
+  const toImage = (e: React.PointerEvent): Point | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    const clamp = (v: number, max: number) => Math.min(max, Math.max(0, v));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * width, width),
+      y: clamp(((e.clientY - rect.top) / rect.height) * height, height),
+    };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const p = toImage(e);
+    if (!p) return;
+    const next = quad.map((c, i) => (i === dragging ? p : c)) as Quad;
+    onChange(next);
+  };
+
+  const onPointerUp = () => {
+    if (dragging === null) return;
+    setDragging(null);
+    onCommit?.(quad);
+  };
+
+  return (
+    <div className="relative">
+      <img src={src} alt={alt} className="block w-full h-auto select-none" draggable={false} />
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 h-full w-full touch-none"
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        <polygon
+          points={quad.map((c) => `${c.x},${c.y}`).join(" ")}
+          fill="hsl(var(--primary) / 0.12)"
+          stroke="hsl(var(--primary))"
+          strokeWidth={handle / 4}
+        />
+        {quad.map((c, i) => (
+          <circle
+            key={i}
+            cx={c.x}
+            cy={c.y}
+            r={handle}
+            fill="white"
+            stroke="hsl(var(--primary))"
+            strokeWidth={handle / 4}
+            className="cursor-move"
+            onPointerDown={(e) => {
+              e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+              setDragging(i);
+            }}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
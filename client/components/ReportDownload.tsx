@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { reportFileName, type SealedReport } from "@/lib/report";
+import { renderReportPdf } from "@/lib/reportPdf";
+import { FileDown, FileJson, FileText } from "lucide-react";
+
+type Props = {
+  // Called on click: live results are sealed then, stored ones returned as is
+  getReport: () => Promise<SealedReport>;
+};
+
+function save(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ReportDownload({ getReport }: Props) {
+  const download = async (format: "pdf" | "json") => {
+    const sealed = await getReport();
+    const blob =
+      format === "pdf"
+        ? renderReportPdf(sealed)
+        : new Blob([JSON.stringify(sealed, null, 2)], { type: "application/json" });
+    save(blob, reportFileName(sealed.report, format));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-1">
+          <FileDown className="h-3.5 w-3.5" /> Download report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => void download("pdf")}>
+          <FileText className="h-4 w-4 mr-2" /> Printable PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => void download("json")}>
+          <FileJson className="h-4 w-4 mr-2" /> JSON with digest
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
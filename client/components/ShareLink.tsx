@@ -0,0 +1,31 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { Permalink } from "@/lib/permalinks";
+import { Check, Link2 } from "lucide-react";
+
+type Props = {
+  permalink: Permalink;
+};
+
+export default function ShareLink({ permalink }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(permalink.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="gap-1"
+      title={permalink.shared ? permalink.url : "Saved in this browser only; sign in (or retry once the server is reachable) to share it"}
+      onClick={() => void copy()}
+    >
+      {copied ? <Check className="h-3.5 w-3.5" /> : <Link2 className="h-3.5 w-3.5" />}
+      {copied ? "Copied" : permalink.shared ? "Copy link" : "Copy local link"}
+    </Button>
+  );
+}
@@ -0,0 +1,32 @@
+import type { VerificationResult } from "@/lib/verify";
+import { AlertCircle, Ban, CheckCircle2, ShieldAlert } from "lucide-react";
+
+type Props = {
+  status: VerificationResult["status"];
+};
+
+export default function StatusChip({ status }: Props) {
+  if (status === "valid")
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-emerald-600/10 text-emerald-700 dark:text-emerald-400 px-2 py-1 text-xs">
+        <CheckCircle2 className="h-3.5 w-3.5" /> Valid
+      </span>
+    );
+  if (status === "suspect")
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-amber-500/10 text-amber-700 dark:text-amber-400 px-2 py-1 text-xs">
+        <ShieldAlert className="h-3.5 w-3.5" /> Suspect
+      </span>
+    );
+  if (status === "revoked")
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full bg-red-600/10 text-red-700 dark:text-red-400 px-2 py-1 text-xs">
+        <Ban className="h-3.5 w-3.5" /> Revoked
+      </span>
+    );
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full bg-red-600/10 text-red-700 dark:text-red-400 px-2 py-1 text-xs">
+      <AlertCircle className="h-3.5 w-3.5" /> Invalid
+    </span>
+  );
+}
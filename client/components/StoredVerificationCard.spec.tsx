@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import type { StoredReport } from "@/lib/permalinks";
+import StoredVerificationCard from "./StoredVerificationCard";
+
+const stored = {
+  id: "link-1",
+  storedAt: "2026-10-18T09:00:05.000Z",
+  report: {
+    version: 2,
+    generatedAt: "2026-10-18T09:00:00.000Z",
+    generator: "test",
+    file: { name: "degree.pdf", size: 10, mime: "application/pdf", sha256: "ab".repeat(32) },
+    status: "valid",
+    issues: [],
+    checks: {},
+    trace: [],
+  },
+  digest: { algorithm: "SHA-256", canonicalization: "RFC 8785", value: "cd".repeat(32) },
+  seal: { algorithm: "HMAC-SHA256", value: "ef".repeat(32) },
+  storedBy: "registrar@example.edu",
+} as StoredReport;
+
+const render = (s: StoredReport, sealValid: boolean | null) =>
+  renderToStaticMarkup(<StoredVerificationCard stored={s} sealValid={sealValid} />);
+
+describe("StoredVerificationCard", () => {
+  it("credits a sealed report to its submitter without vouching for the verdict", () => {
+    const html = render(stored, true);
+    expect(html).toContain("in the browser of registrar@example.edu");
+    expect(html).toContain("not the verdict itself");
+    expect(html).toContain("sealed by this server");
+    expect(html).not.toContain("may have been edited");
+  });
+
+  it("warns when the seal doesn't match", () => {
+    const html = render(stored, false);
+    expect(html).toContain("doesn&#x27;t match the server&#x27;s seal");
+    expect(html).not.toContain("sealed by this server");
+  });
+
+  it("says a browser-only copy can't be checked", () => {
+    const { seal, storedBy, ...local } = stored;
+    const html = render(local, null);
+    expect(html).toContain("has no server seal");
+    expect(html).not.toContain("in the browser of");
+  });
+});
@@ -0,0 +1,101 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import StatusChip from "@/components/StatusChip";
+import ReportDownload from "@/components/ReportDownload";
+import IssueList from "@/components/IssueList";
+import TrustScorePanel from "@/components/TrustScorePanel";
+import type { StoredReport } from "@/lib/permalinks";
+import { toIssue } from "@shared/issues";
+import { Hash, ShieldCheck, ShieldX } from "lucide-react";
+
+type Props = {
+  stored: StoredReport;
+  // Outcome of the server's seal check; null when it couldn't be checked
+  sealValid: boolean | null;
+};
+
+// A stored verification report, as shown behind its permalink
+export default function StoredVerificationCard({ stored, sealValid }: Props) {
+  const { report } = stored;
+  const record = report.matchedRecord;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1">
+          <CardTitle className="break-all">{report.file.name}</CardTitle>
+          <CardDescription>
+            Verified {new Date(report.generatedAt).toLocaleString()}
+            {stored.storedBy && ` in the browser of ${stored.storedBy}`} · read-only
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <StatusChip status={report.status} />
+          <ReportDownload getReport={async () => ({ report, digest: stored.digest, seal: stored.seal })} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {sealValid === false && (
+          <p className="flex items-center gap-2 rounded-md bg-red-600/10 p-3 text-red-700 dark:text-red-400">
+            <ShieldX className="h-4 w-4 shrink-0" /> This report doesn't match the server's seal; it may
+            have been edited.
+          </p>
+        )}
+        {stored.seal ? (
+          <p className="text-muted-foreground">
+            The checks below ran in the submitter's browser. This server confirms who stored the report
+            and that it hasn't changed since, not the verdict itself.
+          </p>
+        ) : (
+          <p className="rounded-md bg-muted p-3 text-muted-foreground">
+            This copy is only stored in this browser and has no server seal, so it can't be checked
+            for edits.
+          </p>
+        )}
+        <div className="flex items-center gap-2">
+          <Hash className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span className="text-muted-foreground">SHA-256</span>
+          <span className="font-mono text-xs break-all">{report.file.sha256}</span>
+        </div>
+
+        {report.trust && <TrustScorePanel trust={report.trust} />}
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Matched record</h2>
+          {record ? (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Certificate number</dt>
+              <dd className="font-mono">{record.certificateNumber}</dd>
+              <dt className="text-muted-foreground">Name</dt>
+              <dd>{record.name}</dd>
+              <dt className="text-muted-foreground">Institution</dt>
+              <dd>{record.institution}</dd>
+              <dt className="text-muted-foreground">Course</dt>
+              <dd>{record.course}</dd>
+              <dt className="text-muted-foreground">Year</dt>
+              <dd>{record.year}</dd>
+            </dl>
+          ) : (
+            <p className="text-muted-foreground">No registry record matched this certificate.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="font-medium">Issues</h2>
+          {report.issues.length === 0 ? (
+            <p className="flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+              <ShieldCheck className="h-4 w-4" /> No issues found
+            </p>
+          ) : (
+            // Reports saved before issues were structured hold plain strings
+            <IssueList issues={report.issues.map((issue) => toIssue(issue))} />
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground break-all">
+          Report digest ({stored.digest.algorithm}): <span className="font-mono">{stored.digest.value}</span>
+          {sealValid && " · sealed by this server"}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { ForensicsResult } from "@/lib/forensics";
+import { ScanSearch } from "lucide-react";
+
+type Props = {
+  forensics: ForensicsResult;
+  // The analysed image; PDF pages aren't kept, so they show the map alone
+  image?: Blob;
+  page?: number;
+};
+
+const METHOD_LABELS = { ela: "error level", noise: "noise" };
+
+export default function TamperHeatmap({ forensics, image, page }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState(true);
+
+  useEffect(() => {
+    if (!image) return;
+    const url = URL.createObjectURL(image);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  // Drawn at image resolution and scaled with CSS, so boxes line up
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const { width, height, heatmap, regions } = forensics;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.clearRect(0, 0, width, height);
+    heatmap.cells.forEach((v, cell) => {
+      if (v <= 0) return;
+      ctx.fillStyle = `rgba(239, 68, 68, ${(0.15 + 0.5 * v).toFixed(2)})`;
+      ctx.fillRect(
+        (cell % heatmap.columns) * heatmap.cellSize,
+        Math.floor(cell / heatmap.columns) * heatmap.cellSize,
+        heatmap.cellSize,
+        heatmap.cellSize,
+      );
+    });
+    ctx.strokeStyle = "rgb(220, 38, 38)";
+    ctx.lineWidth = Math.max(2, Math.round(Math.max(width, height) / 300));
+    for (const r of regions) ctx.strokeRect(r.x, r.y, r.width, r.height);
+  }, [forensics]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 text-sm font-medium">
+          <ScanSearch className="h-4 w-4 text-muted-foreground" /> Tamper heatmap
+          {page && <span className="text-xs text-muted-foreground">(page {page})</span>}
+        </h4>
+        <div className="flex items-center gap-2">
+          <Switch id="tamper-overlay" checked={overlay} onCheckedChange={setOverlay} />
+          <Label htmlFor="tamper-overlay" className="text-xs">
+            Overlay
+          </Label>
+        </div>
+      </div>
+      <div
+        className="relative overflow-hidden rounded-lg border bg-muted"
+        style={{ aspectRatio: `${forensics.width} / ${forensics.height}` }}
+      >
+        {src && <img src={src} alt="Analysed document" className="absolute inset-0 h-full w-full" />}
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 h-full w-full transition-opacity"
+          style={{ opacity: overlay ? 1 : 0 }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {forensics.methods.length === 0
+          ? "Not enough image detail for error level or noise analysis."
+          : forensics.regions.length === 0
+            ? `No inconsistent regions (${forensics.methods.map((m) => METHOD_LABELS[m]).join(", ")} analysis).`
+            : forensics.regions
+                .map(
+                  (r) =>
+                    `${r.width}×${r.height} px at ${r.x},${r.y}: ${(r.score * 100).toFixed(0)}% (${r.methods.map((m) => METHOD_LABELS[m]).join(", ")})`,
+                )
+                .join("; ")}
+      </p>
+    </div>
+  );
+}
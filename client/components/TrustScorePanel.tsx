@@ -0,0 +1,71 @@
+import { FATAL_RULE_LABELS, TRUST_SIGNAL_LABELS } from "@shared/trustPolicy";
+import type { TrustScore } from "@/lib/trustScore";
+import { cn } from "@/lib/utils";
+import { Gauge } from "lucide-react";
+
+type Props = {
+  trust: TrustScore;
+};
+
+const points = (n: number) => `${n > 0 ? "+" : ""}${n}`;
+
+// The score, where the verdict cut-offs sit, and what each signal added
+export default function TrustScorePanel({ trust }: Props) {
+  const { score, signals, override, thresholds, missing = [], policyVersion } = trust;
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Gauge className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Trust score</span>
+        <span className="ml-auto font-mono text-sm">{score}/100</span>
+      </div>
+      <div className="relative h-2 rounded-full bg-gradient-to-r from-red-500/30 via-amber-500/30 to-emerald-500/30">
+        {[thresholds.suspect, thresholds.valid].map((t) => (
+          <span key={t} className="absolute top-0 h-2 w-px bg-foreground/40" style={{ left: `${t}%` }} />
+        ))}
+        <span
+          className="absolute -top-0.5 h-3 w-3 -translate-x-1/2 rounded-full border-2 border-background bg-foreground"
+          style={{ left: `${score}%` }}
+        />
+      </div>
+      <p className="text-muted-foreground">
+        Valid from {thresholds.valid}, suspect from {thresholds.suspect}
+        {policyVersion !== undefined && ` (policy v${policyVersion})`}.
+      </p>
+      {override && (
+        <p className="rounded-md bg-red-600/10 p-2 text-red-700 dark:text-red-400">
+          Decided by rule “{override.rule === "revoked" ? "Revoked" : FATAL_RULE_LABELS[override.rule]}”:{" "}
+          {override.detail}
+        </p>
+      )}
+      {missing.length > 0 && (
+        <p className="rounded-md bg-amber-500/10 p-2 text-amber-700 dark:text-amber-400">
+          Can't be valid without: {missing.map((s) => TRUST_SIGNAL_LABELS[s]).join(", ")}
+        </p>
+      )}
+      {signals.length > 0 && (
+        <ul className="grid gap-1">
+          {signals.map((s) => (
+            <li key={s.signal} className="grid grid-cols-[1fr_auto] gap-x-3">
+              <span>
+                <span className="font-medium">{s.label}</span>
+                <span className="text-muted-foreground"> · {s.detail}</span>
+              </span>
+              <span
+                className={cn(
+                  "font-mono text-right",
+                  s.points > 0 && "text-emerald-700 dark:text-emerald-400",
+                  s.points < 0 && "text-red-700 dark:text-red-400",
+                  s.points === 0 && "text-muted-foreground",
+                )}
+                title={`${s.value.toFixed(2)} × ${s.weight}`}
+              >
+                {points(s.points)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
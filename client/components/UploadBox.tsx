@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,14 +10,22 @@ import {
 import { cn } from "@/lib/utils";
 import {
   AlertCircle,
-  CheckCircle2,
+  BadgeCheck,
+  Ban,
+  Camera,
+  Crop,
+  FileJson,
+  FileText,
   FileUp,
+  Fingerprint,
   Hash,
   Image as ImageIcon,
   QrCode,
   Replace,
   ShieldAlert,
   ShieldCheck,
+  ShieldX,
+  Signature,
   Upload,
   Wifi,
   WifiOff,
@@ -25,29 +33,94 @@ import {
   Brain,
   Zap,
 } from "lucide-react";
-import { analyzeFile, type VerificationResult } from "@/lib/verify";
+import {
+  analyzeFile,
+  isAbortError,
+  isPdf,
+  type StepProgress,
+  type VerificationResult,
+} from "@/lib/verify";
 import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import MLStatus from "@/components/MLStatus";
+import VerificationProgress from "@/components/VerificationProgress";
+import FieldMatchTable from "@/components/FieldMatchTable";
+import FieldComparisonPanel from "@/components/FieldComparisonPanel";
+import TamperHeatmap from "@/components/TamperHeatmap";
+import MetadataPanel from "@/components/MetadataPanel";
+import CameraCapture from "@/components/CameraCapture";
+import BatchResults from "@/components/BatchResults";
+import ReportDownload from "@/components/ReportDownload";
+import StatusChip from "@/components/StatusChip";
+import IssueList from "@/components/IssueList";
+import TrustScorePanel from "@/components/TrustScorePanel";
+import ShareLink from "@/components/ShareLink";
+import { useBatchQueue } from "@/hooks/use-batch-queue";
+import { isFullFrame } from "@/lib/perspective";
+import { isZip, readZip } from "@/lib/zip";
+import { saveVerification, verificationId, type Permalink } from "@/lib/permalinks";
+import { GUEST_USER, recordVerification } from "@/lib/historyStore";
+import { sealReport } from "@/lib/report";
+import {
+  planPreprocessing,
+  preprocessImage,
+  readPreprocessedParams,
+  type Preprocessed,
+} from "@/lib/preprocess";
 
 export default function UploadBox() {
   const [dragging, setDragging] = useState(false);
+  const [camera, setCamera] = useState(false);
+  const batch = useBatchQueue();
+  const [batchError, setBatchError] = useState<string | null>(null);
   const navigate = useNavigate();
-  const { pathname, search } = useLocation();
-  const { backendConnected } = useAuth();
+  const { pathname, search, state } = useLocation();
+  const { backendConnected, user } = useAuth();
   const [file, setFile] = useState<File | null>(null);
+  // What the image checks saw: the perspective-corrected copy if there is one
+  const [analysedImage, setAnalysedImage] = useState<Blob | null>(null);
   const [result, setResult] = useState<VerificationResult | null>(null);
+  const [permalink, setPermalink] = useState<Permalink | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<StepProgress[]>([]);
+  const [cancelled, setCancelled] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
-  const onDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
+  // Abort any in-flight verification when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancel = () => abortRef.current?.abort();
+
+  // Not memoised: handleFiles has to see the current user
+  const onDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setDragging(false);
-    const f = e.dataTransfer.files?.[0];
-    if (f) await handleFile(f);
-  }, []);
+    await handleFiles(Array.from(e.dataTransfer.files ?? []));
+  };
 
-  const handleFile = async (f: File, opts?: { skipRedirect?: boolean }) => {
+  // More than one file, or any ZIP, goes to the batch queue
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && !isZip(files[0])) return handleFile(files[0]);
+    setBatchError(null);
+    const expanded: File[] = [];
+    for (const f of files) {
+      if (!isZip(f)) {
+        expanded.push(f);
+        continue;
+      }
+      try {
+        expanded.push(...(await readZip(f)));
+      } catch (err) {
+        console.warn("⚠️ Couldn't read ZIP:", err);
+        setBatchError(`${f.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    batch.queue.add(expanded);
+  };
+
+  const handleFile = async (f: File, opts?: { skipRedirect?: boolean; preprocessed?: Preprocessed }) => {
     // Redirect JPEG uploads to preview page first (unless disabled)
     if (!opts?.skipRedirect && f.type && /image\/jpeg|image\/jpg/i.test(f.type)) {
       const src = URL.createObjectURL(f);
@@ -55,16 +128,58 @@ export default function UploadBox() {
       navigate(`/preview?${params.toString()}`);
       return;
     }
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setFile(f);
+    setAnalysedImage(f.type.startsWith("image/") ? opts?.preprocessed?.file ?? f : null);
+    setResult(null);
+    setPermalink(null);
+    setCancelled(false);
+    setProgress([]);
     setLoading(true);
     try {
-      const r = await analyzeFile(f);
+      const r = await analyzeFile(f, {
+        signal: controller.signal,
+        preprocessed: opts?.preprocessed,
+        onProgress: (p) =>
+          setProgress((prev) => {
+            const idx = prev.findIndex((s) => s.id === p.id);
+            if (idx === -1) return [...prev, p];
+            const next = [...prev];
+            next[idx] = p;
+            return next;
+          }),
+      });
       setResult(r);
+      // Stored in the background; the result is already on screen
+      const id = verificationId(r);
+      saveVerification(r, id)
+        .then((link) => {
+          if (abortRef.current === controller) setPermalink(link);
+        })
+        .catch((e) => console.warn("⚠️ Couldn't save verification:", e));
+      recordVerification({ userId: user?.id ?? GUEST_USER, id, file: f, result: r }).catch((e) =>
+        console.warn("⚠️ Couldn't save verification history:", e),
+      );
     } catch (err) {
+      if (isAbortError(err)) {
+        // A newer verification replaced this one; leave its state alone
+        if (abortRef.current === controller) setCancelled(true);
+        return;
+      }
       console.error(err);
       setResult({
         status: "invalid",
-        issues: ["Unexpected error analyzing file"],
+        issues: [
+          {
+            code: "analysis.error",
+            severity: "error",
+            source: "analysis",
+            message: "Unexpected error analyzing file",
+            params: { error: err instanceof Error ? err.message : String(err) },
+          },
+        ],
         metadata: {
           fileName: f.name,
           size: f.size,
@@ -73,10 +188,35 @@ export default function UploadBox() {
         },
       });
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) setLoading(false);
+    }
+  };
+
+  // Camera stills skip the Preview page; the page outline is corrected automatically
+  const onCameraCapture = async (f: File) => {
+    setCamera(false);
+    let preprocessed: Preprocessed | undefined;
+    try {
+      const plan = await planPreprocessing(f);
+      if (!isFullFrame(plan.quad, plan.width, plan.height)) {
+        preprocessed = await preprocessImage(f, plan.quad, { skewDegrees: plan.skewDegrees });
+      }
+    } catch (err) {
+      console.warn("⚠️ Perspective correction failed, verifying the raw capture:", err);
     }
+    await handleFile(f, { skipRedirect: true, preprocessed });
   };
 
+  // Re-verify a file from the history page
+  useEffect(() => {
+    const reverify = (state as { reverify?: File } | null)?.reverify;
+    if (reverify instanceof File) {
+      navigate(pathname + search, { replace: true, state: null });
+      void handleFile(reverify, { skipRedirect: true });
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state]);
+
   // Auto-load from query (?src=...) to analyze when returning from preview
   useEffect(() => {
     const params = new URLSearchParams(search);
@@ -86,37 +226,25 @@ export default function UploadBox() {
     if (src && type && /image\/jpeg|image\/jpg/i.test(type)) {
       // Only analyze on verify route to avoid loops
       if (pathname === "/verify") {
-        fetch(src)
-          .then((r) => r.blob())
-          .then((blob) => new File([blob], name, { type }))
-          .then((file) => handleFile(file, { skipRedirect: true }))
+        const load = (url: string, fileName: string, fileType: string) =>
+          fetch(url)
+            .then((r) => r.blob())
+            .then((blob) => new File([blob], fileName, { type: fileType }));
+        const processed = params.get("processed");
+        Promise.all([
+          load(src, name, type),
+          processed ? load(processed, name.replace(/\.[^.]+$/, "") + "-corrected.jpg", "image/jpeg") : null,
+        ])
+          .then(([file, corrected]) => {
+            const preprocessed = corrected ? readPreprocessedParams(corrected, params) : undefined;
+            return handleFile(file, { skipRedirect: true, preprocessed });
+          })
           .catch(() => {});
       }
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [pathname, search]);
 
-  const statusChip = useMemo(() => {
-    if (!result) return null;
-    if (result.status === "valid")
-      return (
-        <span className="inline-flex items-center gap-1 rounded-full bg-emerald-600/10 text-emerald-700 dark:text-emerald-400 px-2 py-1 text-xs">
-          <CheckCircle2 className="h-3.5 w-3.5" /> Valid
-        </span>
-      );
-    if (result.status === "suspect")
-      return (
-        <span className="inline-flex items-center gap-1 rounded-full bg-amber-500/10 text-amber-700 dark:text-amber-400 px-2 py-1 text-xs">
-          <ShieldAlert className="h-3.5 w-3.5" /> Suspect
-        </span>
-      );
-    return (
-      <span className="inline-flex items-center gap-1 rounded-full bg-red-600/10 text-red-700 dark:text-red-400 px-2 py-1 text-xs">
-        <AlertCircle className="h-3.5 w-3.5" /> Invalid
-      </span>
-    );
-  }, [result]);
-
   return (
     <Card className="overflow-hidden">
       <CardHeader className="flex flex-row items-center justify-between">
@@ -137,16 +265,22 @@ export default function UploadBox() {
             </div>
           </CardTitle>
           <CardDescription>
-            Upload a JPEG or PNG image. We compute hashes, check QR codes, 
+            Upload a PDF, JPEG, PNG or a Verifiable Credential (.json / .jwt). We compute
+            hashes, check QR codes on every page, verify issuer signatures,
             cross-check with registries, and use AI to detect fake certificates.
             {!backendConnected && (
               <span className="block text-amber-600 dark:text-amber-400 text-xs mt-1">
-                Using local verification only - AI detection and backend unavailable
+                Using local verification - text is read in your browser; AI detection and
+                backend unavailable
               </span>
             )}
           </CardDescription>
         </div>
-        <div>{statusChip}</div>
+        <div className="flex items-center gap-2">
+          {result && <StatusChip status={result.status} />}
+          {result && !loading && <ReportDownload getReport={() => sealReport(result)} />}
+          {permalink && !loading && <ShareLink permalink={permalink} />}
+        </div>
       </CardHeader>
       <CardContent>
         <div
@@ -166,14 +300,18 @@ export default function UploadBox() {
           <input
             ref={inputRef}
             type="file"
-            accept="image/jpeg,image/jpg,image/png"
+            accept="application/pdf,.pdf,image/jpeg,image/jpg,image/png,application/json,.json,.jsonld,.jwt,application/zip,.zip"
+            multiple
             className="hidden"
             onChange={(e) => {
-              const f = e.target.files?.[0];
-              if (f) void handleFile(f);
+              void handleFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
             }}
           />
 
+          {camera ? (
+            <CameraCapture onCapture={(f) => void onCameraCapture(f)} onCancel={() => setCamera(false)} />
+          ) : (
           <div className="flex flex-col items-center gap-3">
             <div className="h-12 w-12 rounded-full bg-gradient-to-br from-primary to-fuchsia-500 text-primary-foreground flex items-center justify-center shadow-md">
               <FileUp className="h-6 w-6" />
@@ -181,15 +319,29 @@ export default function UploadBox() {
             <p className="text-sm text-muted-foreground">
               Drag and drop your certificate here, or
             </p>
-            <Button onClick={() => inputRef.current?.click()} className="gap-2">
-              <Upload className="h-4 w-4" /> Choose file
-            </Button>
+            <div className="flex flex-wrap justify-center gap-2">
+              <Button onClick={() => inputRef.current?.click()} className="gap-2">
+                <Upload className="h-4 w-4" /> Choose file
+              </Button>
+              <Button variant="outline" onClick={() => setCamera(true)} className="gap-2">
+                <Camera className="h-4 w-4" /> Use camera
+              </Button>
+            </div>
             <p className="text-xs text-muted-foreground">
-              We only support JPEG and PNG for now.
+              PDF, JPEG, PNG and Verifiable Credentials are supported. PDFs are checked
+              page by page. Drop several files or a ZIP to verify them as a batch.
             </p>
           </div>
+          )}
         </div>
 
+        {batchError && <p className="mt-4 text-sm text-red-600">{batchError}</p>}
+        {batch.items.length > 0 && (
+          <div className="mt-6">
+            <BatchResults queue={batch.queue} items={batch.items} paused={batch.paused} />
+          </div>
+        )}
+
         {file && (
           <div className="mt-6 grid gap-4 md:grid-cols-2">
             <div className="space-y-3">
@@ -201,6 +353,70 @@ export default function UploadBox() {
                     {result?.metadata.hashHex || ""}
                   </span>
                 </li>
+                {result?.metadata.preprocessing && (
+                  <li className="flex items-center gap-2">
+                    <Crop className="h-4 w-4 text-muted-foreground" /> Corrected:{" "}
+                    <span className="text-xs text-muted-foreground">
+                      {result.metadata.preprocessing.manual ? "corners set by hand" : "page outline detected"}
+                      {result.metadata.preprocessing.skewDegrees !== 0 &&
+                        `, ${result.metadata.preprocessing.skewDegrees.toFixed(2)}° skew removed`}
+                    </span>
+                    <span className="font-mono text-xs break-all" title="Hash of the corrected copy">
+                      {result.metadata.preprocessing.hashHex.slice(0, 16)}…
+                    </span>
+                  </li>
+                )}
+                {result?.metadata.perceptualHashes && (
+                  <li className="flex items-center gap-2">
+                    <Fingerprint className="h-4 w-4 text-muted-foreground" /> Visual:{" "}
+                    <span className="font-mono text-xs" title="pHash / dHash">
+                      {result.metadata.perceptualHashes.pHash} ·{" "}
+                      {result.metadata.perceptualHashes.dHash}
+                    </span>
+                  </li>
+                )}
+                {result?.metadata.pdfSignatures?.map((sig, idx) => (
+                  <li key={idx} className="flex items-start gap-2">
+                    <Signature
+                      className={cn(
+                        "h-4 w-4 mt-0.5 shrink-0",
+                        sig.digestValid && sig.signatureValid && sig.chainValid
+                          ? "text-emerald-600"
+                          : sig.digestValid && sig.signatureValid
+                            ? "text-amber-600"
+                            : "text-red-600",
+                      )}
+                    />
+                    <div className="space-y-0.5">
+                      <div>
+                        Signed by{" "}
+                        <span className="font-medium">
+                          {sig.signerName || "unknown signer"}
+                        </span>
+                        {sig.signerOrganization && ` (${sig.signerOrganization})`}
+                      </div>
+                      {(sig.timestampTime || sig.signingTime) && (
+                        <div className="text-xs text-muted-foreground">
+                          {sig.timestampTime
+                            ? `${new Date(sig.timestampTime).toLocaleString()} (trusted timestamp)`
+                            : `${new Date(sig.signingTime!).toLocaleString()} (claimed by signer)`}
+                        </div>
+                      )}
+                      <div className="text-xs">
+                        {!sig.digestValid || !sig.signatureValid
+                          ? "Signature does not match document"
+                          : sig.modifiedAfterSigning
+                            ? "Signature valid, but document changed after signing"
+                            : "Signature intact"}
+                      </div>
+                      {sig.chainErrors.map((err, i) => (
+                        <div key={i} className="text-xs text-amber-600 dark:text-amber-400">
+                          {err}
+                        </div>
+                      ))}
+                    </div>
+                  </li>
+                ))}
                 <li className="flex items-center gap-2">
                   <Replace className="h-4 w-4 text-muted-foreground" /> Size:{" "}
                   {Math.round(file.size / 1024)} KB
@@ -209,28 +425,100 @@ export default function UploadBox() {
                   <ImageIcon className="h-4 w-4 text-muted-foreground" /> Type:{" "}
                   {file.type || "Unknown"}
                 </li>
-                {result?.metadata.qrData && (
+                {result?.metadata.pageCount !== undefined && (
                   <li className="flex items-center gap-2">
-                    <QrCode className="h-4 w-4 text-muted-foreground" /> QR:{" "}
+                    <FileText className="h-4 w-4 text-muted-foreground" /> Pages:{" "}
+                    {result.metadata.pageCount}
+                  </li>
+                )}
+                {result?.metadata.qrCodes?.map((code, i) => (
+                  <li key={i} className="flex items-center gap-2">
+                    <QrCode
+                      className={cn(
+                        "h-4 w-4",
+                        code.data === result.metadata.qrData
+                          ? "text-foreground"
+                          : "text-muted-foreground",
+                      )}
+                    />
+                    {code.format === "qr_code" ? "QR" : code.format.replace(/_/g, "-").toUpperCase()}
+                    {code.page && ` (page ${code.page})`}:{" "}
                     <span
                       className="truncate max-w-[260px]"
-                      title={result.metadata.qrData}
+                      title={`${code.data}\nat ${code.location.x},${code.location.y} (${code.location.width}×${code.location.height} px)`}
                     >
-                      {result.metadata.qrData}
+                      {code.data}
+                    </span>
+                  </li>
+                ))}
+                {result?.metadata.certificateNumber && (
+                  <li className="flex items-center gap-2">
+                    <Hash
+                      className={cn(
+                        "h-4 w-4",
+                        result.metadata.certificateNumber.checksumValid
+                          ? "text-muted-foreground"
+                          : "text-red-600",
+                      )}
+                    />
+                    Certificate no.:{" "}
+                    <span className="font-mono text-xs">
+                      {result.metadata.certificateNumber.value}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      ({result.metadata.certificateNumber.institution}
+                      {result.metadata.certificateNumber.checksum !== "none" &&
+                        (result.metadata.certificateNumber.checksumValid
+                          ? ", check digit OK"
+                          : ", bad check digit")}
+                      )
                     </span>
                   </li>
                 )}
-                {result?.metadata.ocrText && (
+                {result?.metadata.signedQr && (
                   <li className="flex items-center gap-2">
-                    <FileUp className="h-4 w-4 text-muted-foreground" /> OCR:{" "}
-                    <span
-                      className="truncate max-w-[260px]"
-                      title={result.metadata.ocrText}
-                    >
-                      {result.metadata.ocrText.substring(0, 50)}...
+                    {result.metadata.signedQr.valid ? (
+                      <BadgeCheck className="h-4 w-4 text-emerald-600" />
+                    ) : (
+                      <ShieldX className="h-4 w-4 text-red-600" />
+                    )}
+                    Signed QR:{" "}
+                    <span className="text-xs">
+                      {result.metadata.signedQr.valid
+                        ? `issuer ${result.metadata.signedQr.issuer} (key ${result.metadata.signedQr.kid})`
+                        : result.metadata.signedQr.errorMessage}
                     </span>
                   </li>
                 )}
+                {result?.metadata.credential && (
+                  <li className="flex items-start gap-2">
+                    {result.metadata.credential.valid ? (
+                      <FileJson className="h-4 w-4 mt-0.5 shrink-0 text-emerald-600" />
+                    ) : (
+                      <ShieldX className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                    )}
+                    <div className="space-y-0.5">
+                      <div>
+                        Credential ({result.metadata.credential.format === "jwt" ? "JWT" : "JSON-LD"}
+                        {result.metadata.credential.source === "qr" && ", from QR"}):{" "}
+                        <span className="text-xs">
+                          {result.metadata.credential.valid
+                            ? `issued by ${result.metadata.credential.issuerName || result.metadata.credential.issuer}`
+                            : result.metadata.credential.errorMessage}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {result.metadata.credential.types
+                          .filter((t) => t !== "VerifiableCredential")
+                          .join(", ") || "VerifiableCredential"}
+                        {result.metadata.credential.proofType &&
+                          ` · ${result.metadata.credential.proofType}`}
+                        {result.metadata.credential.expiresAt &&
+                          ` · expires ${new Date(result.metadata.credential.expiresAt).toLocaleDateString()}`}
+                      </div>
+                    </div>
+                  </li>
+                )}
                 {result?.metadata.uploadId && (
                   <li className="flex items-center gap-2">
                     <Server className="h-4 w-4 text-muted-foreground" /> ID:{" "}
@@ -241,7 +529,8 @@ export default function UploadBox() {
                 )}
                 {result?.metadata.mlDetection && (
                   <li className="flex items-center gap-2">
-                    <Brain className="h-4 w-4 text-muted-foreground" /> AI:{" "}
+                    <Brain className="h-4 w-4 text-muted-foreground" /> AI
+                    {result.metadata.mlPage && ` (page ${result.metadata.mlPage})`}:{" "}
                     <span className={`text-xs font-medium ${
                       result.metadata.mlDetection.is_fake 
                         ? 'text-red-600 dark:text-red-400' 
@@ -253,6 +542,26 @@ export default function UploadBox() {
                   </li>
                 )}
               </ul>
+              {/* A credential file is the record itself; there's no document to compare */}
+              {result?.matchedRecord && result.metadata.credential?.source !== "file" ? (
+                <FieldComparisonPanel
+                  record={result.matchedRecord}
+                  fields={result.metadata.fieldComparison}
+                  image={analysedImage ?? undefined}
+                  pdf={file && isPdf(file) ? file : undefined}
+                  ocrText={result.metadata.ocrText}
+                  ocrSource={result.metadata.ocrSource}
+                />
+              ) : result?.metadata.fieldComparison && (
+                <FieldMatchTable
+                  fields={result.metadata.fieldComparison}
+                  ocrText={result.metadata.ocrText}
+                  ocrSource={result.metadata.ocrSource}
+                />
+              )}
+              {result?.metadata.documentMetadata && (
+                <MetadataPanel metadata={result.metadata.documentMetadata} />
+              )}
             </div>
 
             <div className="space-y-3">
@@ -265,7 +574,8 @@ export default function UploadBox() {
                       "border-emerald-500/40 bg-emerald-500/5",
                     result.status === "suspect" &&
                       "border-amber-500/40 bg-amber-500/5",
-                    result.status === "invalid" &&
+                    (result.status === "invalid" ||
+                      result.status === "revoked") &&
                       "border-red-500/40 bg-red-500/5",
                   )}
                 >
@@ -279,13 +589,25 @@ export default function UploadBox() {
                     {result.status === "invalid" && (
                       <AlertCircle className="h-4 w-4 text-red-600 animate-float" />
                     )}
+                    {result.status === "revoked" && (
+                      <Ban className="h-4 w-4 text-red-600 animate-float" />
+                    )}
                     <span className="font-medium capitalize">
                       {result.status}
                     </span>
                   </div>
+                  {result.revocation && (
+                    <p className="mb-2 text-red-700 dark:text-red-400">
+                      Revoked on{" "}
+                      {new Date(result.revocation.revokedAt).toLocaleDateString()}
+                      : {result.revocation.reason}
+                    </p>
+                  )}
                   {result.matchedRecord ? (
                     <p>
-                      Matched registry record for{" "}
+                      {result.metadata.credential?.source === "file"
+                        ? "Credential issued to"
+                        : "Matched registry record for"}{" "}
                       <span className="font-medium">
                         {result.matchedRecord.name}
                       </span>{" "}
@@ -298,13 +620,12 @@ export default function UploadBox() {
                       basic metadata.
                     </p>
                   )}
-                  {result.issues.length > 0 && (
-                    <ul className="mt-2 list-disc pl-4">
-                      {result.issues.map((i, idx) => (
-                        <li key={idx}>{i}</li>
-                      ))}
-                    </ul>
+                  {result.trust && (
+                    <div className="mt-3 p-3 rounded-md border bg-background/60">
+                      <TrustScorePanel trust={result.trust} />
+                    </div>
                   )}
+                  <IssueList issues={result.issues} className="mt-3" />
                   
                   {/* ML Detection Details */}
                   {result.metadata.mlDetection && result.metadata.mlDetection.success && (
@@ -345,29 +666,20 @@ export default function UploadBox() {
                   )}
                 </div>
               )}
+              {!loading && result?.metadata.forensics && (
+                <TamperHeatmap
+                  forensics={result.metadata.forensics}
+                  image={result.metadata.forensicsPage ? undefined : file}
+                  page={result.metadata.forensicsPage}
+                />
+              )}
               {loading && (
-                <div className="inline-flex items-center gap-2 text-sm text-muted-foreground">
-                  <svg
-                    className="h-4 w-4 animate-spin"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    />
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
-                    />
-                  </svg>
-                  Analyzing…
-                </div>
+                <VerificationProgress steps={progress} onCancel={cancel} />
+              )}
+              {!loading && cancelled && (
+                <p className="text-sm text-muted-foreground">
+                  Verification cancelled. Choose the file again to restart.
+                </p>
               )}
             </div>
           </div>
@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { StepProgress } from "@/lib/verify";
+import { Circle, CircleCheck, CircleMinus, CircleX, LoaderCircle } from "lucide-react";
+
+type Props = {
+  steps: StepProgress[];
+  onCancel?: () => void;
+};
+
+function StepIcon({ status }: { status: StepProgress["status"] }) {
+  switch (status) {
+    case "running":
+      return <LoaderCircle className="h-4 w-4 animate-spin text-violet-600" />;
+    case "success":
+      return <CircleCheck className="h-4 w-4 text-emerald-600" />;
+    case "failed":
+    case "timeout":
+      return <CircleX className="h-4 w-4 text-red-600" />;
+    case "skipped":
+      return <CircleMinus className="h-4 w-4 text-muted-foreground/60" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground/40" />;
+  }
+}
+
+export default function VerificationProgress({ steps, onCancel }: Props) {
+  return (
+    <div className="rounded-lg border p-4 text-sm space-y-3">
+      <ul className="space-y-1.5">
+        {steps.map((step) => (
+          <li
+            key={step.id}
+            className={cn(
+              "flex items-center gap-2",
+              step.status === "pending" && "text-muted-foreground",
+              step.status === "skipped" && "text-muted-foreground/60",
+            )}
+            title={step.error || step.reason}
+          >
+            <StepIcon status={step.status} />
+            <span className="flex-1">{step.label}</span>
+            {step.status === "timeout" && (
+              <span className="text-xs text-red-600">timed out</span>
+            )}
+            {step.status === "skipped" && <span className="text-xs">skipped</span>}
+            {step.durationMs !== undefined && step.status !== "skipped" && (
+              <span className="font-mono text-xs text-muted-foreground">
+                {(step.durationMs / 1000).toFixed(1)}s
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {onCancel && (
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FlaskConical, History, RefreshCw, Save, SlidersHorizontal } from "lucide-react";
+import {
+  DOCUMENT_TYPES,
+  FATAL_RULES,
+  FATAL_RULE_LABELS,
+  TRUST_SIGNALS,
+  TRUST_SIGNAL_LABELS,
+  trustPolicySchema,
+  type TrustPolicy,
+} from "@shared/trustPolicy";
+import StatusChip from "@/components/StatusChip";
+import { useAuth } from "@/contexts/AuthContext";
+import { GUEST_USER, listHistory } from "@/lib/historyStore";
+import {
+  dryRunPolicy,
+  loadTrustPolicy,
+  loadTrustPolicyVersions,
+  saveTrustPolicy,
+  type DryRun,
+} from "@/lib/trustPolicy";
+
+const DOCUMENT_TYPE_LABELS = { pdf: "PDF", image: "Image", credential: "Credential file" };
+
+function NumberField({
+  id,
+  label,
+  value,
+  step = 1,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(e.target.valueAsNumber || 0)}
+      />
+    </div>
+  );
+}
+
+export default function PolicyPanel() {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<TrustPolicy | null>(null);
+  const [versions, setVersions] = useState<TrustPolicy[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [status, setStatus] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+
+  const reload = async () => {
+    setPolicy(await loadTrustPolicy({ force: true }));
+    setDirty(false);
+    setStatus("");
+    setDryRun(null);
+    try {
+      setVersions(await loadTrustPolicyVersions());
+    } catch (error) {
+      console.warn("⚠️ Couldn't load policy versions:", error);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const update = (fn: (draft: TrustPolicy) => void) => {
+    setPolicy((prev) => {
+      if (!prev) return prev;
+      const draft: TrustPolicy = structuredClone(prev);
+      fn(draft);
+      return draft;
+    });
+    setDirty(true);
+    setDryRun(null);
+  };
+
+  const validate = (draft: TrustPolicy) => {
+    const parsed = trustPolicySchema.safeParse(draft);
+    if (parsed.success) return true;
+    setStatus(`Invalid policy: ${parsed.error.issues.map((i) => `${i.path.join(".")} ${i.message}`).join("; ")}`);
+    return false;
+  };
+
+  const save = async () => {
+    if (!policy || !validate(policy)) return;
+    setSaving(true);
+    try {
+      const saved = await saveTrustPolicy(policy);
+      setPolicy(saved);
+      setVersions((prev) => [saved, ...prev]);
+      setDirty(false);
+      setStatus(`Saved as version ${saved.version}.`);
+    } catch (error) {
+      setStatus(`Failed to save policy: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runDryRun = async () => {
+    if (!policy || !validate(policy)) return;
+    try {
+      const [own, guest] = await Promise.all([
+        user ? listHistory(user.id) : Promise.resolve([]),
+        listHistory(GUEST_USER),
+      ]);
+      setDryRun(dryRunPolicy([...own, ...guest], policy));
+      setStatus("");
+    } catch (error) {
+      setStatus(`Dry run failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Copies an older version into the editor; saving makes it the newest
+  const restore = (version: TrustPolicy) => {
+    if (!policy) return;
+    update((draft) => {
+      Object.assign(draft, structuredClone(version), {
+        version: draft.version,
+        updatedAt: draft.updatedAt,
+        note: `Restore version ${version.version}`,
+      });
+    });
+  };
+
+  if (!policy) {
+    return <p className="text-sm text-muted-foreground">Loading verification policy…</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" /> Verification Policy
+            </CardTitle>
+            <CardDescription>
+              How evidence adds up to a verdict. Version {policy.version}, updated{" "}
+              {new Date(policy.updatedAt).toLocaleString()}
+              {policy.updatedBy && ` by ${policy.updatedBy}`}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={reload}>
+              <RefreshCw className="h-4 w-4" /> Reload
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={runDryRun}
+              title="Re-scores the verifications stored in this browser; other users' history isn't included"
+            >
+              <FlaskConical className="h-4 w-4" /> Dry run on this browser
+            </Button>
+            <Button size="sm" className="gap-2" onClick={save} disabled={!dirty || saving}>
+              <Save className="h-4 w-4" /> {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status && <p className="text-sm text-muted-foreground">{status}</p>}
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Score and thresholds</h3>
+            <div className="grid sm:grid-cols-5 gap-3">
+              <NumberField
+                id="policy-base"
+                label="Base score"
+                value={policy.baseScore}
+                onChange={(v) => update((d) => void (d.baseScore = v))}
+              />
+              <NumberField
+                id="policy-valid"
+                label="Valid from"
+                value={policy.thresholds.valid}
+                onChange={(v) => update((d) => void (d.thresholds.valid = v))}
+              />
+              <NumberField
+                id="policy-suspect"
+                label="Suspect from"
+                value={policy.thresholds.suspect}
+                onChange={(v) => update((d) => void (d.thresholds.suspect = v))}
+              />
+              <NumberField
+                id="policy-ml"
+                label="ML fake cut-off (0-1)"
+                step={0.05}
+                value={policy.mlFakeConfidence}
+                onChange={(v) => update((d) => void (d.mlFakeConfidence = v))}
+              />
+              <NumberField
+                id="policy-forensics"
+                label="Forensics suspicion (0-1)"
+                step={0.05}
+                value={policy.forensicsSuspicion}
+                onChange={(v) => update((d) => void (d.forensicsSuspicion = v))}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Signal weights</h3>
+            <p className="text-xs text-muted-foreground">
+              Points a signal adds at full strength, or removes when the evidence counts against the document.
+            </p>
+            <div className="grid sm:grid-cols-3 gap-3">
+              {TRUST_SIGNALS.map((signal) => (
+                <NumberField
+                  key={signal}
+                  id={`weight-${signal}`}
+                  label={TRUST_SIGNAL_LABELS[signal]}
+                  value={policy.weights[signal]}
+                  onChange={(v) => update((d) => void (d.weights[signal] = v))}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Fatal failures</h3>
+            <p className="text-xs text-muted-foreground">Any of these makes a document invalid whatever its score.</p>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {FATAL_RULES.map((rule) => (
+                <label key={rule} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={policy.fatal.includes(rule)}
+                    onCheckedChange={(checked) =>
+                      update((d) => {
+                        d.fatal = checked ? [...d.fatal, rule] : d.fatal.filter((r) => r !== rule);
+                      })
+                    }
+                  />
+                  {FATAL_RULE_LABELS[rule]}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium">Required checks</h3>
+            <p className="text-xs text-muted-foreground">
+              A document can be at most suspect when a required check produced no evidence.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Check</TableHead>
+                  {DOCUMENT_TYPES.map((type) => (
+                    <TableHead key={type} className="text-center">
+                      {DOCUMENT_TYPE_LABELS[type]}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {TRUST_SIGNALS.map((signal) => (
+                  <TableRow key={signal}>
+                    <TableCell className="text-sm">{TRUST_SIGNAL_LABELS[signal]}</TableCell>
+                    {DOCUMENT_TYPES.map((type) => (
+                      <TableCell key={type} className="text-center">
+                        <Checkbox
+                          aria-label={`Require ${TRUST_SIGNAL_LABELS[signal]} for ${DOCUMENT_TYPE_LABELS[type]}`}
+                          checked={policy.requiredChecks[type].includes(signal)}
+                          onCheckedChange={(checked) =>
+                            update((d) => {
+                              const list = d.requiredChecks[type];
+                              d.requiredChecks[type] = checked
+                                ? [...list, signal]
+                                : list.filter((s) => s !== signal);
+                            })
+                          }
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+
+          <div>
+            <Label htmlFor="policy-note">Change note</Label>
+            <Input
+              id="policy-note"
+              value={policy.note ?? ""}
+              placeholder="Why is this change being made?"
+              onChange={(e) => update((d) => void (d.note = e.target.value || undefined))}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {dryRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FlaskConical className="h-4 w-4" /> Dry run on this browser's history
+            </CardTitle>
+            <CardDescription>
+              Replayed {dryRun.replayed} verification(s) stored in this browser under the draft
+              {dryRun.skipped > 0 && `; ${dryRun.skipped} synced from other devices have no result to replay`}.{" "}
+              {dryRun.changes.filter((c) => c.before !== c.after).length} verdict(s) would change.
+              Verifications made by other users or in other browsers aren't included.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {dryRun.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scores or verdicts would change.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Verified</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dryRun.changes.map((c) => (
+                    <TableRow key={c.id}>
+                      <TableCell className="text-xs break-all">{c.fileName}</TableCell>
+                      <TableCell className="text-xs">{new Date(c.verifiedAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-xs">
+                        <span className="inline-flex items-center gap-2">
+                          <StatusChip status={c.before} />
+                          {c.beforeScore !== undefined && <span className="font-mono">{c.beforeScore}</span>}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <span className="inline-flex items-center gap-2">
+                          <StatusChip status={c.after} />
+                          <span className="font-mono">{c.afterScore}</span>
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" /> Version history
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="grid gap-2">
+            {versions.map((v) => (
+              <li key={v.version} className="flex items-center gap-3 rounded-md border p-2 text-sm">
+                <Badge variant={v.version === policy.version ? "default" : "secondary"}>v{v.version}</Badge>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{v.note || "No note"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(v.updatedAt).toLocaleString()}
+                    {v.updatedBy && ` · ${v.updatedBy}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => restore(v)}>
+                  Load into editor
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
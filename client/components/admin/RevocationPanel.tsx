@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Ban, ListOrdered } from "lucide-react";
+import type { TrustedInstitution } from "@shared/trustList";
+import type { BulkRevocationResponse, StatusAssignmentResponse } from "@shared/statusList";
+import { loadTrustList } from "@/lib/trustList";
+import { assignStatusIndexes, revokeCertificates } from "@/lib/revocation";
+
+const REASONS = [
+  "Issued in error",
+  "Degree withdrawn",
+  "Superseded by corrected certificate",
+  "Obtained fraudulently",
+];
+
+// Certificate numbers separated by newlines, commas or semicolons
+function parseCertificateNumbers(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(/[\n,;]+/)
+        .map((s) => s.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  );
+}
+
+export default function RevocationPanel() {
+  const [institutions, setInstitutions] = useState<TrustedInstitution[]>([]);
+  const [issuer, setIssuer] = useState("");
+  const [numbers, setNumbers] = useState("");
+  const [reason, setReason] = useState(REASONS[0]);
+  const [revokedAt, setRevokedAt] = useState(new Date().toISOString().split("T")[0]);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState("");
+  const [outcome, setOutcome] = useState<BulkRevocationResponse | null>(null);
+  const [assigned, setAssigned] = useState<StatusAssignmentResponse | null>(null);
+
+  useEffect(() => {
+    loadTrustList().then((list) => {
+      setInstitutions(list.institutions);
+      setIssuer((prev) => prev || list.institutions[0]?.id || "");
+    });
+  }, []);
+
+  const certificateNumbers = parseCertificateNumbers(numbers);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (!f) return;
+    const text = await f.text();
+    setNumbers((prev) => [prev, text].filter(Boolean).join("\n"));
+  };
+
+  const assign = async () => {
+    if (!issuer || certificateNumbers.length === 0) return;
+    setLoading(true);
+    setStatus("");
+    setOutcome(null);
+    try {
+      const response = await assignStatusIndexes(issuer, certificateNumbers);
+      setAssigned(response);
+      setStatus(`Assigned status indexes to ${Object.keys(response.entries).length} certificate(s).`);
+    } catch (error) {
+      setStatus(`Assignment failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!issuer || certificateNumbers.length === 0) return;
+    if (!window.confirm(`Revoke ${certificateNumbers.length} certificate(s)? This cannot be undone.`)) {
+      return;
+    }
+    setLoading(true);
+    setStatus("");
+    setAssigned(null);
+    try {
+      const response = await revokeCertificates(issuer, {
+        certificateNumbers,
+        reason,
+        revokedAt: new Date(revokedAt).toISOString(),
+      });
+      setOutcome(response);
+      setNumbers("");
+      setStatus(`Revoked ${response.revoked.length} certificate(s).`);
+    } catch (error) {
+      setStatus(`Revocation failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="h-5 w-5" /> Bulk Revocation
+        </CardTitle>
+        <CardDescription>
+          Assign status indexes when issuing certificates, and embed each index in
+          the certificate's signed QR. Revoking sets that index in the issuer's
+          status list, which every later verification checks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-4" onSubmit={submit}>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <Label>Issuing Institution</Label>
+              <Select value={issuer} onValueChange={setIssuer}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select institution" />
+                </SelectTrigger>
+                <SelectContent>
+                  {institutions.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="revoked_at">Effective Date</Label>
+              <Input
+                id="revoked_at"
+                type="date"
+                value={revokedAt}
+                onChange={(e) => setRevokedAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="revoke_numbers">Certificate Numbers</Label>
+            <Textarea
+              id="revoke_numbers"
+              rows={6}
+              className="font-mono text-xs"
+              placeholder={"JH-NU-2019-000123\nJH-RU-2021-004567"}
+              value={numbers}
+              onChange={(e) => setNumbers(e.target.value)}
+            />
+            <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+              <input type="file" accept=".csv,.txt" onChange={onFile} className="text-xs" />
+              <span>{certificateNumbers.length} certificate(s)</span>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              disabled={loading || !issuer || certificateNumbers.length === 0}
+              onClick={assign}
+            >
+              <ListOrdered className="h-4 w-4" />
+              Assign indexes
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              className="gap-2"
+              disabled={loading || !issuer || certificateNumbers.length === 0}
+            >
+              <Ban className="h-4 w-4" />
+              {loading ? "Revoking..." : "Revoke"}
+            </Button>
+          </div>
+          {status && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{status}</AlertDescription>
+            </Alert>
+          )}
+          {outcome && outcome.alreadyRevoked.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Already revoked: {outcome.alreadyRevoked.join(", ")}
+            </p>
+          )}
+          {outcome && outcome.unassigned.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              No status index assigned, so not revoked: {outcome.unassigned.join(", ")}
+            </p>
+          )}
+          {assigned && (
+            <pre className="max-h-40 overflow-auto rounded-md bg-muted p-2 text-xs">
+              {Object.entries(assigned.entries)
+                .map(([number, index]) => `${number}\t${index}`)
+                .join("\n")}
+            </pre>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
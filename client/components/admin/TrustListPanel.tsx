@@ -0,0 +1,395 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, KeyRound, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import {
+  CHECKSUM_RULES,
+  checksumValid,
+  isValidPattern,
+  type CertificateNumberFormat,
+  type ChecksumRule,
+} from "@shared/certificateNumber";
+import type {
+  TrustedKey,
+  TrustedKeyStatus,
+  TrustList,
+} from "@shared/trustList";
+import { loadTrustList, saveTrustList } from "@/lib/trustList";
+
+const CHECKSUM_LABELS: Record<ChecksumRule, string> = {
+  none: "No check digit",
+  luhn: "Luhn (mod 10)",
+  mod97: "ISO 7064 mod 97-10",
+};
+
+const STATUS_VARIANT: Record<TrustedKeyStatus, "default" | "secondary" | "destructive"> = {
+  active: "default",
+  retired: "secondary",
+  revoked: "destructive",
+};
+
+export default function TrustListPanel() {
+  const [list, setList] = useState<TrustList | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [status, setStatus] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [newInstitution, setNewInstitution] = useState({ id: "", name: "" });
+
+  const reload = async () => {
+    setList(await loadTrustList({ force: true }));
+    setDirty(false);
+    setStatus("");
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const update = (fn: (draft: TrustList) => void) => {
+    setList((prev) => {
+      if (!prev) return prev;
+      const draft: TrustList = structuredClone(prev);
+      fn(draft);
+      return draft;
+    });
+    setDirty(true);
+  };
+
+  const save = async () => {
+    if (!list) return;
+    setSaving(true);
+    try {
+      setList(await saveTrustList(list));
+      setDirty(false);
+      setStatus("Trust list saved.");
+    } catch (error) {
+      setStatus(`Failed to save trust list: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addInstitution = () => {
+    if (!newInstitution.id || !newInstitution.name) return;
+    update((draft) => {
+      draft.institutions.push({ ...newInstitution, keys: [] });
+    });
+    setNewInstitution({ id: "", name: "" });
+  };
+
+  if (!list) {
+    return <p className="text-sm text-muted-foreground">Loading trust list…</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" /> Issuer Trust List
+            </CardTitle>
+            <CardDescription>
+              Institutions whose signatures we accept, and the keys they sign with.
+              Version {list.version}, updated {new Date(list.updatedAt).toLocaleString()}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={reload}>
+              <RefreshCw className="h-4 w-4" /> Reload
+            </Button>
+            <Button size="sm" className="gap-2" onClick={save} disabled={!dirty || saving}>
+              <Save className="h-4 w-4" /> {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-[1fr_2fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor="inst-id">Institution ID</Label>
+              <Input
+                id="inst-id"
+                value={newInstitution.id}
+                placeholder="e.g. ranchi"
+                onChange={(e) => setNewInstitution({ ...newInstitution, id: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="inst-name">Name</Label>
+              <Input
+                id="inst-name"
+                value={newInstitution.name}
+                onChange={(e) => setNewInstitution({ ...newInstitution, name: e.target.value })}
+              />
+            </div>
+            <Button variant="outline" className="gap-2" onClick={addInstitution}>
+              <Plus className="h-4 w-4" /> Add institution
+            </Button>
+          </div>
+          {status && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{status}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {list.institutions.map((institution, instIdx) => (
+        <Card key={institution.id}>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="text-lg">{institution.name}</CardTitle>
+              <CardDescription className="font-mono text-xs">{institution.id}</CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => update((draft) => void draft.institutions.splice(instIdx, 1))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {institution.keys.length === 0 && (
+              <p className="text-sm text-muted-foreground">No keys registered.</p>
+            )}
+            {institution.keys.map((key, keyIdx) => (
+              <div key={key.kid} className="flex flex-wrap items-center gap-3 rounded-md border p-3 text-sm">
+                <span className="font-mono">{key.kid}</span>
+                <Badge variant={STATUS_VARIANT[key.status]}>{key.status}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {key.alg || key.jwk.kty} · from {key.notBefore.slice(0, 10)}
+                  {key.notAfter && ` to ${key.notAfter.slice(0, 10)}`}
+                  {key.revokedAt && ` · revoked ${key.revokedAt.slice(0, 10)}`}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  {key.status === "active" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        update((draft) => {
+                          const k = draft.institutions[instIdx].keys[keyIdx];
+                          k.status = "retired";
+                          k.notAfter ??= new Date().toISOString();
+                        })
+                      }
+                    >
+                      Retire
+                    </Button>
+                  )}
+                  {key.status !== "revoked" && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => {
+                        const reason = window.prompt("Revocation reason", "Key compromise");
+                        if (reason === null) return;
+                        update((draft) => {
+                          const k = draft.institutions[instIdx].keys[keyIdx];
+                          k.status = "revoked";
+                          k.revokedAt = new Date().toISOString();
+                          k.revocationReason = reason || undefined;
+                        });
+                      }}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <AddKeyForm
+              onAdd={(key) =>
+                update((draft) => void draft.institutions[instIdx].keys.push(key))
+              }
+            />
+            <NumberFormatsEditor
+              formats={institution.certificateNumberFormats || []}
+              onChange={(formats) =>
+                update((draft) => {
+                  draft.institutions[instIdx].certificateNumberFormats = formats;
+                })
+              }
+            />
+            <div>
+              <Label htmlFor={`x5c-${institution.id}`}>PDF signing trust anchors (PEM)</Label>
+              <Textarea
+                id={`x5c-${institution.id}`}
+                className="font-mono text-xs"
+                rows={3}
+                value={(institution.x5c || []).join("\n")}
+                placeholder="-----BEGIN CERTIFICATE-----"
+                onChange={(e) =>
+                  update((draft) => {
+                    draft.institutions[instIdx].x5c =
+                      e.target.value.match(
+                        /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+                      ) || (e.target.value.trim() ? [e.target.value] : []);
+                  })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function AddKeyForm({ onAdd }: { onAdd: (key: TrustedKey) => void }) {
+  const [kid, setKid] = useState("");
+  const [jwk, setJwk] = useState("");
+  const [notBefore, setNotBefore] = useState(new Date().toISOString().split("T")[0]);
+  const [error, setError] = useState("");
+
+  const add = () => {
+    try {
+      const parsed = JSON.parse(jwk) as JsonWebKey;
+      if (!parsed.kty) throw new Error("JWK must have a kty");
+      if ("d" in parsed) throw new Error("Paste the public key only");
+      onAdd({
+        kid: kid || (parsed as { kid?: string }).kid || "",
+        alg: parsed.crv === "Ed25519" ? "EdDSA" : parsed.alg,
+        jwk: parsed,
+        notBefore: new Date(notBefore).toISOString(),
+        status: "active",
+      });
+      setKid("");
+      setJwk("");
+      setError("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="grid gap-2 rounded-md border border-dashed p-3">
+      <div className="grid md:grid-cols-2 gap-2">
+        <Input placeholder="Key ID (kid)" value={kid} onChange={(e) => setKid(e.target.value)} />
+        <Input type="date" value={notBefore} onChange={(e) => setNotBefore(e.target.value)} />
+      </div>
+      <Textarea
+        className="font-mono text-xs"
+        rows={3}
+        placeholder='{"kty":"OKP","crv":"Ed25519","x":"..."}'
+        value={jwk}
+        onChange={(e) => setJwk(e.target.value)}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div>
+        <Button size="sm" variant="outline" className="gap-2" onClick={add} disabled={!jwk}>
+          <Plus className="h-4 w-4" /> Add public key
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function NumberFormatsEditor({
+  formats,
+  onChange,
+}: {
+  formats: CertificateNumberFormat[];
+  onChange: (formats: CertificateNumberFormat[]) => void;
+}) {
+  const [sample, setSample] = useState("");
+
+  const set = (idx: number, patch: Partial<CertificateNumberFormat>) =>
+    onChange(formats.map((f, i) => (i === idx ? { ...f, ...patch } : f)));
+
+  const test = (format: CertificateNumberFormat) => {
+    if (!sample || !isValidPattern(format.pattern)) return null;
+    const m = sample.match(new RegExp(format.pattern, "i"));
+    if (!m) return "no match";
+    return checksumValid(m[0].toUpperCase(), format.checksum) ? "match" : "bad check digit";
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Certificate number formats</Label>
+      {formats.map((format, idx) => (
+        <div key={idx} className="grid md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+          <Input
+            className={cn("font-mono text-xs", !isValidPattern(format.pattern) && "border-red-500")}
+            placeholder="Regex, e.g. JH-RU-\d{4}-\d{6}"
+            value={format.pattern}
+            onChange={(e) => set(idx, { pattern: e.target.value })}
+          />
+          <Select
+            value={format.checksum}
+            onValueChange={(checksum) => set(idx, { checksum: checksum as ChecksumRule })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHECKSUM_RULES.map((rule) => (
+                <SelectItem key={rule} value={rule}>
+                  {CHECKSUM_LABELS[rule]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Example"
+            value={format.example || ""}
+            onChange={(e) => set(idx, { example: e.target.value || undefined })}
+          />
+          <div className="flex items-center gap-2">
+            {test(format) && (
+              <Badge variant={test(format) === "match" ? "default" : "secondary"}>
+                {test(format)}
+              </Badge>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(formats.filter((_, i) => i !== idx))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-2"
+          onClick={() => onChange([...formats, { pattern: "", checksum: "none" }])}
+        >
+          <Plus className="h-4 w-4" /> Add format
+        </Button>
+        {formats.length > 0 && (
+          <Input
+            className="max-w-xs"
+            placeholder="Test a certificate number"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
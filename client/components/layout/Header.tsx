@@ -20,6 +20,7 @@ export default function Header() {
   const nav = [
     { to: "/", label: "Home" },
     { to: "/verify", label: "Verify" },
+    { to: "/history", label: "History" },
   ];
 
   return (
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from "react";
+import { createBatchQueue, type BatchItem, type BatchQueue } from "@/lib/batch";
+import { analyzeFile } from "@/lib/verify";
+import { GUEST_USER, recordVerification } from "@/lib/historyStore";
+import { saveVerification, verificationId } from "@/lib/permalinks";
+import { useAuth } from "@/contexts/AuthContext";
+
+// A batch verification queue bound to component state
+export function useBatchQueue(concurrency = 2) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [paused, setPaused] = useState(false);
+  const ref = useRef<BatchQueue | null>(null);
+  const { user } = useAuth();
+  const userRef = useRef(user);
+  userRef.current = user;
+  if (!ref.current) {
+    ref.current = createBatchQueue({
+      concurrency,
+      run: async (file, signal) => {
+        const result = await analyzeFile(file, { signal });
+        // Kept like single verifications: a permalink and a history entry
+        const id = verificationId(result);
+        void saveVerification(result, id).catch(() => {});
+        recordVerification({ userId: userRef.current?.id ?? GUEST_USER, id, file, result }).catch((e) =>
+          console.warn("⚠️ Couldn't save verification history:", e),
+        );
+        return result;
+      },
+      onChange: (next) => {
+        setItems(next);
+        setPaused(ref.current?.paused ?? false);
+      },
+    });
+  }
+
+  // Cancel whatever is still running when the page goes away
+  useEffect(() => () => ref.current?.clear(), []);
+
+  return { queue: ref.current, items, paused };
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { Pixels } from "./pixels";
+import { CODE128_PATTERNS, CODE128_STOP, resetBarcodeDetector, scanAllCodes, scanBarcodes } from "./barcodeScan";
+
+// EAN-13 left-hand odd-parity digits as printed modules (1 = bar)
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+const EAN_FIRST = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "GLLGGL", "GGLLGL", "GGGLLG", "GLGLGG", "GLGGLG", "GGLGLG"];
+
+function eanModules(code: string): string {
+  const digits = [...code].map(Number);
+  const right = (d: number) => [...EAN_L[d]].map((b) => (b === "1" ? "0" : "1")).join("");
+  const left = digits
+    .slice(1, 7)
+    .map((d, k) => (EAN_FIRST[digits[0]][k] === "L" ? EAN_L[d] : [...right(d)].reverse().join("")))
+    .join("");
+  return `101${left}01010${digits.slice(7).map(right).join("")}101`;
+}
+
+// Code set B for text, C for an even run of digits
+function code128Modules(text: string, set: "B" | "C" = "B"): string {
+  const values =
+    set === "B"
+      ? [104, ...[...text].map((c) => c.charCodeAt(0) - 32)]
+      : [105, ...(text.match(/\d\d/g) ?? []).map(Number)];
+  const check = values.reduce((acc, v, k) => acc + v * Math.max(1, k), 0) % 103;
+  return [...values, check]
+    .map((v) => CODE128_PATTERNS[v])
+    .concat([CODE128_STOP])
+    .map((widths) => widths.map((w, k) => (k % 2 ? "0" : "1").repeat(w)).join(""))
+    .join("");
+}
+
+// The modules drawn as full-height bars, with a quiet zone either side
+function render(
+  modules: string,
+  { module = 3, height = 120, dark = 20, light = 235, reversed = false, sideways = false } = {},
+): Pixels {
+  const bars = reversed ? [...modules].reverse().join("") : modules;
+  const length = (bars.length + 24) * module;
+  const width = sideways ? height : length;
+  const rows = sideways ? length : height;
+  const data = new Uint8ClampedArray(width * rows * 4);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < width; x++) {
+      const along = Math.floor((sideways ? y : x) / module) - 12;
+      // Lighting falls off across the label, as in a photo
+      const shade = 1 - (0.3 * x) / width;
+      const v = (bars[along] === "1" ? dark : light) * shade;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = v;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height: rows };
+}
+
+describe("scanBarcodes", () => {
+  it("has a well-formed Code 128 table", () => {
+    expect(new Set(CODE128_PATTERNS.map((p) => p.join(""))).size).toBe(106);
+    for (const pattern of CODE128_PATTERNS) {
+      expect(pattern.reduce((a, b) => a + b, 0)).toBe(11);
+      // Bars always add up to an even number of modules
+      expect((pattern[0] + pattern[2] + pattern[4]) % 2).toBe(0);
+    }
+  });
+
+  it("reads a Code 128 barcode with its position", () => {
+    const [code] = scanBarcodes(render(code128Modules("JH-RU-2021-004567")));
+    expect(code.data).toBe("JH-RU-2021-004567");
+    expect(code.format).toBe("code_128");
+    expect(code.location.x).toBeGreaterThanOrEqual(33);
+    expect(code.location.x).toBeLessThanOrEqual(39);
+    expect(code.location.height).toBeGreaterThan(60);
+  });
+
+  it("reads Code 128 digits packed in code set C", () => {
+    const [code] = scanBarcodes(render(code128Modules("20210045", "C")));
+    expect(code?.data).toBe("20210045");
+  });
+
+  it("reads an EAN-13 barcode", () => {
+    const [code] = scanBarcodes(render(eanModules("4006381333931")));
+    expect(code?.data).toBe("4006381333931");
+    expect(code.format).toBe("ean_13");
+  });
+
+  it("reads barcodes upside down and sideways", () => {
+    expect(scanBarcodes(render(eanModules("4006381333931"), { reversed: true }))[0]?.data).toBe("4006381333931");
+    expect(scanBarcodes(render(code128Modules("JH-NU-2019"), { sideways: true }))[0]?.data).toBe("JH-NU-2019");
+  });
+
+  it("rejects a barcode whose checksum doesn't hold", () => {
+    // Check digit should be 1
+    expect(scanBarcodes(render(eanModules("4006381333932")))).toEqual([]);
+  });
+
+  it("finds nothing on a blank page", () => {
+    expect(scanBarcodes(render("0".repeat(100)))).toEqual([]);
+  });
+});
+
+describe("scanAllCodes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    resetBarcodeDetector();
+  });
+
+  it("falls back to the built-in reader without BarcodeDetector", async () => {
+    const codes = await scanAllCodes(render(code128Modules("JH-RU-2021-004567")));
+    expect(codes.map((c) => [c.format, c.data])).toEqual([["code_128", "JH-RU-2021-004567"]]);
+  });
+
+  it("uses the browser's detector where there is one", async () => {
+    const detect = vi.fn(async () => [
+      { rawValue: "JH-RU-2021-004567", format: "data_matrix", boundingBox: { x: 10.4, y: 20, width: 50, height: 50 } },
+    ]);
+    vi.stubGlobal(
+      "ImageData",
+      class {
+        constructor(
+          readonly data: Uint8ClampedArray,
+          readonly width: number,
+          readonly height: number,
+        ) {}
+      },
+    );
+    vi.stubGlobal(
+      "BarcodeDetector",
+      Object.assign(
+        class {
+          detect = detect;
+        },
+        { getSupportedFormats: async () => ["data_matrix", "code_128"] },
+      ),
+    );
+    const codes = await scanAllCodes(render("0".repeat(100)));
+    expect(detect).toHaveBeenCalled();
+    expect(codes).toEqual([
+      { data: "JH-RU-2021-004567", format: "data_matrix", location: { x: 10, y: 20, width: 50, height: 50 } },
+    ]);
+  });
+});
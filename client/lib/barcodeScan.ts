@@ -0,0 +1,318 @@
+import type { Pixels } from "./pixels";
+import { scanCodes, type CodeLocation, type DecodedCode, type ScanOptions } from "./qrScan";
+
+// Not in the TypeScript DOM lib yet; Chromium exposes it in workers too
+type NativeBarcode = {
+  rawValue: string;
+  format: string;
+  boundingBox: { x: number; y: number; width: number; height: number };
+};
+type BarcodeDetectorLike = { detect(image: ImageData): Promise<NativeBarcode[]> };
+type BarcodeDetectorCtor = {
+  new (): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+};
+
+let detector: Promise<BarcodeDetectorLike | null> | null = null;
+
+function getDetector() {
+  const Native = (globalThis as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+  detector ??= Native
+    ? Native.getSupportedFormats()
+        .then((formats) => (formats.length > 0 ? new Native() : null))
+        .catch(() => null)
+    : Promise.resolve(null);
+  return detector;
+}
+
+// For tests: forget the detector, so the next scan looks for one again
+export function resetBarcodeDetector() {
+  detector = null;
+}
+
+// The browser's own detector: 1D barcodes plus the 2D formats jsQR
+// doesn't read (Data Matrix, PDF417, Aztec). Null where there's none.
+async function nativeCodes({ data, width, height }: Pixels): Promise<DecodedCode[] | null> {
+  const native = await getDetector();
+  if (!native) return null;
+  try {
+    const found = await native.detect(new ImageData(data, width, height));
+    return found.map(({ rawValue, format, boundingBox: { x, y, width, height } }) => ({
+      data: rawValue,
+      format,
+      location: { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) },
+    }));
+  } catch {
+    return [];
+  }
+}
+
+// Every QR code and barcode in the image. QR codes come from scanCodes;
+// barcodes from the native detector, or from scanBarcodes where the
+// browser has none (Firefox, Safari)
+export async function scanAllCodes(pixels: Pixels, options: ScanOptions = {}): Promise<DecodedCode[]> {
+  const native = nativeCodes(pixels);
+  const codes = scanCodes(pixels, options);
+  for (const code of (await native) ?? scanBarcodes(pixels, options)) {
+    if (!codes.some((c) => c.data === code.data)) codes.push(code);
+  }
+  return codes;
+}
+
+// Code 128 symbols as bar/space widths in modules, by value. 103-105 are
+// the start codes for code sets A, B and C; STOP has a trailing bar.
+export const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+].map((p) => [...p].map(Number));
+export const CODE128_STOP = [2, 3, 3, 1, 1, 1, 2];
+
+const START_A = 103;
+const CODE_C = 99;
+const CODE_B = 100;
+const CODE_A = 101;
+const SHIFT = 98;
+
+// EAN-13 digits as space/bar widths, left half with odd parity ("L"). The
+// even-parity "G" codes are these reversed; the right half ("R") uses the
+// L widths starting with a bar.
+export const EAN_DIGITS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map(
+  (p) => [...p].map(Number),
+);
+const EAN_G_DIGITS = EAN_DIGITS.map((p) => [...p].reverse());
+// The first digit isn't drawn: it's the L/G pattern of the left half
+const EAN_PARITIES = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "GLLGGL", "GGLLGL", "GGGLLG", "GLGLGG", "GLGGLG", "GGLGLG",
+];
+
+// How far a symbol's widths may stray from a pattern, in modules summed
+// over its bars and spaces
+const MAX_SYMBOL_ERROR = 1.5;
+// Scanlines across the image; a camera frame gets fewer
+const SCANLINES = 24;
+const QUICK_SCANLINES = 8;
+
+type Line = { values: Float32Array; at: (i: number) => [number, number] };
+type Runs = { widths: number[]; starts: number[]; length: number };
+type Found = { data: string; format: string; from: number; to: number };
+
+// The best match for the widths, scaled to the pattern's module count
+function matchSymbol(widths: number[], patterns: number[][], modules: number): number {
+  const total = widths.reduce((a, b) => a + b, 0);
+  let best = -1;
+  let bestError = MAX_SYMBOL_ERROR;
+  patterns.forEach((pattern, value) => {
+    let error = 0;
+    for (let k = 0; k < pattern.length; k++) error += Math.abs((widths[k] * modules) / total - pattern[k]);
+    if (error < bestError) {
+      best = value;
+      bestError = error;
+    }
+  });
+  return best;
+}
+
+// Dark and light runs along the line, each pixel compared with the mean
+// around it so uneven lighting across the page doesn't matter. Starts
+// with the first dark run.
+function toRuns({ values }: Line): Runs {
+  const n = values.length;
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + values[i];
+  const half = Math.max(8, Math.round(n / 16));
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  // Too flat to hold any bars
+  const widths: number[] = [];
+  const starts: number[] = [];
+  if (max - min < 32) return { widths, starts, length: n };
+
+  let dark = false;
+  for (let i = 0; i < n; i++) {
+    const lo = Math.max(0, i - half);
+    const hi = Math.min(n, i + half + 1);
+    const mean = (prefix[hi] - prefix[lo]) / (hi - lo);
+    const isDark = values[i] < Math.min(mean, (min + max) / 2 + (max - min) / 4);
+    if (widths.length === 0 && !isDark) continue;
+    if (widths.length === 0 || isDark !== dark) {
+      widths.push(0);
+      starts.push(i);
+      dark = isDark;
+    }
+    widths[widths.length - 1]++;
+  }
+  return { widths, starts, length: n };
+}
+
+// A light run before the symbol wide enough to be its quiet zone
+function quietBefore(runs: Runs, i: number, module: number): boolean {
+  const gap = i === 0 ? runs.starts[0] : runs.widths[i - 1];
+  return gap >= module * 5;
+}
+
+function code128Text(values: number[]): string | null {
+  // 0, 1, 2 for code sets A, B, C
+  let set = values[0] - START_A;
+  let shift = false;
+  let text = "";
+  for (const value of values.slice(1)) {
+    // A shift switches between A and B for one symbol only
+    const current = shift ? 1 - set : set;
+    shift = false;
+    if (current === 2) {
+      if (value < 100) text += String(value).padStart(2, "0");
+      else if (value === CODE_B) set = 1;
+      else if (value === CODE_A) set = 0;
+    } else if (value < 96) {
+      text += String.fromCharCode(current === 0 && value >= 64 ? value - 64 : value + 32);
+    } else if (value === SHIFT) shift = true;
+    else if (value === CODE_C) set = 2;
+    else if (value === (current === 0 ? CODE_B : CODE_A)) set = 1 - current;
+    // FNC1-4 carry no text
+  }
+  return text || null;
+}
+
+// The symbols up to the stop, if their checksum holds
+function code128Values(values: number[]): number[] | null {
+  if (values.length < 3) return null;
+  const check = values[values.length - 1];
+  const data = values.slice(0, -1);
+  const sum = data.reduce((acc, v, k) => acc + v * Math.max(1, k), 0);
+  return sum % 103 === check ? data : null;
+}
+
+function decodeCode128(runs: Runs, i: number): Found | null {
+  const { widths, starts } = runs;
+  const start = matchSymbol(widths.slice(i, i + 6), CODE128_PATTERNS, 11);
+  if (start < START_A) return null;
+  const module = widths.slice(i, i + 6).reduce((a, b) => a + b, 0) / 11;
+  if (!quietBefore(runs, i, module)) return null;
+
+  const values = [start];
+  for (let j = i + 6; j + 6 <= widths.length; j += 6) {
+    // The last value before the stop is the checksum
+    const valid = matchSymbol(widths.slice(j, j + 7), [CODE128_STOP], 13) === 0 && code128Values(values);
+    const data = valid && code128Text(valid);
+    if (data) return { data, format: "code_128", from: starts[i], to: starts[j + 6] + widths[j + 6] };
+    const value = matchSymbol(widths.slice(j, j + 6), CODE128_PATTERNS, 11);
+    if (value < 0 || value >= START_A) return null;
+    values.push(value);
+  }
+  return null;
+}
+
+function decodeEan13(runs: Runs, i: number): Found | null {
+  const { widths, starts } = runs;
+  // Guard, 6 digits, middle guard, 6 digits, guard
+  if (i + 59 > widths.length) return null;
+  const symbol = widths.slice(i, i + 59);
+  const module = symbol.reduce((a, b) => a + b, 0) / 95;
+  const guard = (from: number, count: number) =>
+    symbol.slice(from, from + count).every((w) => Math.abs(w / module - 1) < 0.6);
+  if (!guard(0, 3) || !guard(27, 5) || !guard(56, 3) || !quietBefore(runs, i, module)) return null;
+
+  const digits: number[] = [];
+  let parity = "";
+  for (let d = 0; d < 6; d++) {
+    const widthsOf = symbol.slice(3 + d * 4, 7 + d * 4);
+    const value = matchSymbol(widthsOf, [...EAN_DIGITS, ...EAN_G_DIGITS], 7);
+    if (value < 0) return null;
+    digits.push(value % 10);
+    parity += value < 10 ? "L" : "G";
+  }
+  for (let d = 0; d < 6; d++) {
+    const value = matchSymbol(symbol.slice(32 + d * 4, 36 + d * 4), EAN_DIGITS, 7);
+    if (value < 0) return null;
+    digits.push(value);
+  }
+  const first = EAN_PARITIES.indexOf(parity);
+  if (first < 0) return null;
+  digits.unshift(first);
+
+  const sum = digits.slice(0, 12).reduce((acc, d, k) => acc + d * (k % 2 ? 3 : 1), 0);
+  if ((10 - (sum % 10)) % 10 !== digits[12]) return null;
+  return { data: digits.join(""), format: "ean_13", from: starts[i], to: starts[i + 58] + widths[i + 58] };
+}
+
+function decodeLine(line: Line): Found[] {
+  const found: Found[] = [];
+  const forward = toRuns(line);
+  // Upside-down or mirrored scans read right to left
+  const reversed: Line = { values: line.values.slice().reverse(), at: line.at };
+  const backward = toRuns(reversed);
+  for (const [runs, flip] of [[forward, false], [backward, true]] as const) {
+    for (let i = 0; i < runs.widths.length; i += 2) {
+      const hit = decodeCode128(runs, i) ?? decodeEan13(runs, i);
+      if (!hit) continue;
+      const n = runs.length;
+      found.push(flip ? { ...hit, from: n - hit.to, to: n - hit.from } : hit);
+    }
+  }
+  return found;
+}
+
+function luminance({ data }: Pixels, i: number): number {
+  return 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+}
+
+// Horizontal scanlines, then vertical ones for barcodes printed sideways
+function scanlines(pixels: Pixels, count: number): Line[] {
+  const { width, height } = pixels;
+  const lines: Line[] = [];
+  for (let k = 1; k <= count; k++) {
+    const y = Math.floor((height * k) / (count + 1));
+    const values = new Float32Array(width);
+    for (let x = 0; x < width; x++) values[x] = luminance(pixels, y * width + x);
+    lines.push({ values, at: (i) => [i, y] });
+  }
+  for (let k = 1; k <= count; k++) {
+    const x = Math.floor((width * k) / (count + 1));
+    const values = new Float32Array(height);
+    for (let y = 0; y < height; y++) values[y] = luminance(pixels, y * width + x);
+    lines.push({ values, at: (i) => [x, i] });
+  }
+  return lines;
+}
+
+// Code 128 and EAN-13 barcodes, read along scanlines. A fallback for
+// browsers without BarcodeDetector; each result passed its checksum.
+export function scanBarcodes(pixels: Pixels, { maxCodes = 8, quick = false }: ScanOptions = {}): DecodedCode[] {
+  const found = new Map<string, DecodedCode>();
+  for (const line of scanlines(pixels, quick ? QUICK_SCANLINES : SCANLINES)) {
+    for (const hit of decodeLine(line)) {
+      const [x0, y0] = line.at(hit.from);
+      const [x1, y1] = line.at(hit.to);
+      const box: CodeLocation = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+      const known = found.get(hit.data);
+      if (!known) {
+        if (found.size < maxCodes) found.set(hit.data, { data: hit.data, format: hit.format, location: box });
+        continue;
+      }
+      // Every scanline that crossed it widens the box
+      const l = known.location;
+      const x = Math.min(l.x, box.x);
+      const y = Math.min(l.y, box.y);
+      known.location = {
+        x,
+        y,
+        width: Math.max(l.x + l.width, box.x + box.width) - x,
+        height: Math.max(l.y + l.height, box.y + box.height) - y,
+      };
+    }
+  }
+  return [...found.values()].sort((a, b) => a.location.y - b.location.y || a.location.x - b.location.x);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { batchCsv, createBatchQueue, type BatchItem } from "./batch";
+import type { Issue, VerificationResult } from "./verify";
+
+const file = (name: string) => new File(["x"], name);
+
+const result = (status: VerificationResult["status"], issues: Issue[] = []): VerificationResult => ({
+  status,
+  issues,
+  metadata: { fileName: "", size: 1, mime: "", hashHex: "abc" },
+});
+
+// Resolves once every item has settled
+function settled(queue: { items(): BatchItem[] }) {
+  return new Promise<BatchItem[]>((resolve) => {
+    const check = () => {
+      const items = queue.items();
+      if (items.every((i) => i.status !== "queued" && i.status !== "running")) resolve(items);
+      else setTimeout(check, 1);
+    };
+    check();
+  });
+}
+
+describe("createBatchQueue", () => {
+  it("runs no more than the configured number of files at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const queue = createBatchQueue({
+      concurrency: 2,
+      run: async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise((r) => setTimeout(r, 5));
+        running--;
+        return result("valid");
+      },
+    });
+    queue.add(["a", "b", "c", "d", "e"].map(file));
+    const items = await settled(queue);
+    expect(peak).toBe(2);
+    expect(items.map((i) => i.status)).toEqual(["done", "done", "done", "done", "done"]);
+  });
+
+  it("retries a file that throws, then gives up", async () => {
+    const calls: string[] = [];
+    const queue = createBatchQueue({
+      retries: 1,
+      run: async (f) => {
+        calls.push(f.name);
+        if (f.name === "bad.pdf" || calls.filter((n) => n === f.name).length === 1) throw new Error("Network down");
+        return result("invalid");
+      },
+    });
+    queue.add([file("flaky.pdf"), file("bad.pdf")]);
+    const [flaky, bad] = await settled(queue);
+    expect(flaky).toMatchObject({ status: "done", attempts: 2 });
+    expect(bad).toMatchObject({ status: "failed", attempts: 2, error: "Network down" });
+  });
+
+  it("retries a file whose upload or backend check failed, keeping the last result", async () => {
+    const trace = (status: "success" | "timeout") => [
+      { id: "backend-verify", label: "Verify with backend", status, startedAt: "", durationMs: 0 },
+    ];
+    let calls = 0;
+    const queue = createBatchQueue({
+      retries: 2,
+      run: async (f) => {
+        calls++;
+        if (f.name === "slow.pdf") return { ...result("suspect"), trace: trace("timeout") };
+        return { ...result("valid"), trace: trace(calls === 2 ? "success" : "timeout") };
+      },
+    });
+    queue.add([file("flaky.pdf")]);
+    expect(await settled(queue)).toMatchObject([{ status: "done", attempts: 2, result: { status: "valid" } }]);
+
+    queue.clear();
+    queue.add([file("slow.pdf")]);
+    const [slow] = await settled(queue);
+    expect(slow).toMatchObject({ status: "done", attempts: 3, result: { status: "suspect" } });
+  });
+
+  it("starts nothing while paused", async () => {
+    const queue = createBatchQueue({ run: async () => result("valid") });
+    queue.pause();
+    queue.add([file("a.pdf")]);
+    await new Promise((r) => setTimeout(r, 5));
+    expect(queue.items()[0].status).toBe("queued");
+    queue.resume();
+    expect((await settled(queue))[0].status).toBe("done");
+  });
+});
+
+describe("batchCsv", () => {
+  it("quotes cells that need it", () => {
+    const item: BatchItem = {
+      id: 0,
+      file: file("alice, final.pdf"),
+      status: "done",
+      attempts: 1,
+      result: {
+        ...result("suspect", [
+          { code: "ocr-fields.mismatch", severity: "warning", source: "ocr-field-match", message: 'Name "Alice" differs' },
+          { code: "qr.unreadable", severity: "info", source: "qr", message: "No QR code" },
+          { code: "ml.fake", severity: "error", source: "ml", message: "AI detected this certificate as FAKE" },
+        ]),
+        matchedRecord: {
+          certificateNumber: "JH-2021-001",
+          hashHex: "abc",
+          name: "Alice",
+          institution: "Ranchi University",
+          course: "B.Sc",
+          year: 2021,
+        },
+      },
+    };
+    expect(batchCsv([item]).split("\r\n")).toEqual([
+      "file,status,verdict,institution,certificate_number,issues,issue_codes,sha256,error",
+      '"alice, final.pdf",done,suspect,Ranchi University,JH-2021-001,"Name ""Alice"" differs; AI detected this certificate as FAKE",ocr-fields.mismatch qr.unreadable ml.fake,abc,',
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { isProblem } from "@shared/issues";
+import { isAbortError } from "./pipeline";
+import type { VerificationResult } from "./verify";
+
+export type BatchStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type BatchItem = {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  attempts: number;
+  result?: VerificationResult;
+  error?: string;
+};
+
+export type BatchOptions = {
+  run: (file: File, signal: AbortSignal) => Promise<VerificationResult>;
+  concurrency?: number;
+  // Extra attempts after a verification throws or a network step fails (see
+  // transientFailure); an invalid verdict is a result
+  retries?: number;
+  onChange?: (items: BatchItem[]) => void;
+};
+
+export type BatchQueue = {
+  add(files: File[]): void;
+  pause(): void;
+  resume(): void;
+  readonly paused: boolean;
+  setConcurrency(n: number): void;
+  // Queues failed and cancelled items again, with fresh attempts
+  retry(id?: number): void;
+  // Cancels what is running and drops everything
+  clear(): void;
+  items(): BatchItem[];
+};
+
+// Steps whose failure says more about the connection than the certificate
+const RETRYABLE_STEPS = ["upload", "backend-verify"];
+
+// Why a finished verification is worth another attempt, if it is
+export function transientFailure(result: VerificationResult): string | null {
+  const step = result.trace?.find(
+    (t) => RETRYABLE_STEPS.includes(t.id) && (t.status === "failed" || t.status === "timeout"),
+  );
+  if (!step) return null;
+  return `${step.label} ${step.status === "timeout" ? "timed out" : "failed"}${step.error ? `: ${step.error}` : ""}`;
+}
+
+export function createBatchQueue({ run, concurrency = 2, retries = 1, onChange }: BatchOptions): BatchQueue {
+  let items: BatchItem[] = [];
+  let nextId = 0;
+  let paused = false;
+  let limit = Math.max(1, concurrency);
+  const controllers = new Map<number, AbortController>();
+
+  // Items are replaced, not mutated, so React sees each change
+  const update = (id: number, patch: Partial<BatchItem>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+  };
+  const notify = () => onChange?.(items);
+
+  async function start(item: BatchItem) {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, { status: "running", attempts: item.attempts + 1, error: undefined });
+    const attempts = item.attempts + 1;
+    let patch: Partial<BatchItem>;
+    try {
+      const result = await run(item.file, controller.signal);
+      const transient = transientFailure(result);
+      // Out of attempts, the result stands; its issues mention the failure
+      patch = transient && attempts <= retries ? { status: "queued", error: transient } : { status: "done", result };
+    } catch (err) {
+      // Shared analysis workers are torn down when any run aborts, so an
+      // AbortError here may be another item's; only our own signal cancels
+      if (controller.signal.aborted && isAbortError(err)) patch = { status: "cancelled" };
+      else {
+        const error = err instanceof Error ? err.message : String(err);
+        patch = attempts <= retries ? { status: "queued", error } : { status: "failed", error };
+      }
+    } finally {
+      controllers.delete(item.id);
+    }
+    if (items.some((i) => i.id === item.id)) update(item.id, patch);
+    pump();
+  }
+
+  function pump() {
+    if (!paused) {
+      let running = items.filter((i) => i.status === "running").length;
+      for (const item of items) {
+        if (running >= limit) break;
+        if (item.status !== "queued") continue;
+        running++;
+        void start(item);
+      }
+    }
+    notify();
+  }
+
+  return {
+    add(files) {
+      items = [...items, ...files.map((file) => ({ id: nextId++, file, status: "queued" as const, attempts: 0 }))];
+      pump();
+    },
+    pause() {
+      paused = true;
+      notify();
+    },
+    resume() {
+      paused = false;
+      pump();
+    },
+    get paused() {
+      return paused;
+    },
+    setConcurrency(n) {
+      limit = Math.max(1, n);
+      pump();
+    },
+    retry(id) {
+      for (const item of items) {
+        if ((id === undefined || item.id === id) && (item.status === "failed" || item.status === "cancelled")) {
+          update(item.id, { status: "queued", attempts: 0, error: undefined });
+        }
+      }
+      pump();
+    },
+    clear() {
+      items = [];
+      for (const controller of controllers.values()) controller.abort();
+      notify();
+    },
+    items: () => items,
+  };
+}
+
+const CSV_COLUMNS = [
+  "file",
+  "status",
+  "verdict",
+  "institution",
+  "certificate_number",
+  "issues",
+  "issue_codes",
+  "sha256",
+  "error",
+];
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Institution from the strongest source available
+export function institutionOf(result?: VerificationResult): string {
+  const m = result?.metadata;
+  return (
+    result?.matchedRecord?.institution ??
+    m?.credential?.issuerName ??
+    m?.certificateNumber?.institution ??
+    m?.ocrFields?.institution ??
+    ""
+  );
+}
+
+export function batchCsv(items: BatchItem[]): string {
+  const rows = items.map((item) =>
+    [
+      item.file.name,
+      item.status,
+      item.result?.status ?? "",
+      institutionOf(item.result),
+      item.result?.matchedRecord?.certificateNumber ?? item.result?.metadata.certificateNumber?.value ?? "",
+      // Problems only; the codes cover every finding for filtering
+      item.result?.issues.filter(isProblem).map((i) => i.message).join("; ") ?? "",
+      item.result?.issues.map((i) => i.code).join(" ") ?? "",
+      item.result?.metadata.hashHex ?? "",
+      item.error ?? "",
+    ].map(csvCell),
+  );
+  return [CSV_COLUMNS, ...rows].map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,31 @@
+export type Cached<T> = {
+  fetchedAt: number;
+  value: T;
+};
+
+// Last copy fetched from the server, in memory and in localStorage so it
+// survives reloads and keeps offline checks working
+export function storedCache<T>(key: string) {
+  let memory: Cached<T> | null = null;
+
+  return {
+    read(): Cached<T> | null {
+      if (memory) return memory;
+      if (typeof localStorage === "undefined") return null;
+      try {
+        const stored = JSON.parse(localStorage.getItem(key) ?? "null");
+        memory = stored && "value" in stored ? stored : null;
+      } catch {
+        localStorage.removeItem(key);
+      }
+      return memory;
+    },
+
+    write(value: T) {
+      memory = { fetchedAt: Date.now(), value };
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(key, JSON.stringify(memory));
+      }
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStillDetector, motion, sharpness, startCameraSession, type CameraSessionOptions } from "./camera";
+import type { Pixels } from "./pixels";
+
+// Vertical stripes `period` pixels wide, shifted by `offset`; a wider
+// period stands in for a blurrier view of the same page
+function stripes(period: number, offset = 0, size = 64): Pixels {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const phase = ((x + offset) % (2 * period)) / (2 * period);
+      const v = 128 + 110 * Math.sin(phase * 2 * Math.PI);
+      const i = (y * size + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = v;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+describe("camera auto-capture", () => {
+  it("rates fine detail sharper than soft detail", () => {
+    expect(sharpness(stripes(2))).toBeGreaterThan(sharpness(stripes(8)) * 4);
+  });
+
+  it("measures movement between frames", () => {
+    expect(motion(stripes(4), stripes(4))).toBe(0);
+    expect(motion(stripes(4), stripes(4, 3))).toBeGreaterThan(0.1);
+  });
+
+  it("captures once the view has been steady and sharp", () => {
+    const detector = createStillDetector({ steadyFrames: 3 });
+    const readings = [0, 3, 6, 6, 6, 6].map((offset) => detector.push(stripes(3, offset)));
+    expect(readings.map((r) => r.steady)).toEqual([0, 0, 0, 1, 2, 3]);
+    expect(readings.map((r) => r.capture)).toEqual([false, false, false, false, false, true]);
+  });
+
+  it("doesn't capture a featureless view", () => {
+    const detector = createStillDetector({ steadyFrames: 2 });
+    const blank = { data: new Uint8ClampedArray(64 * 64 * 4).fill(200), width: 64, height: 64 };
+    const readings = [1, 2, 3, 4].map(() => detector.push(blank));
+    expect(readings.some((r) => r.capture)).toBe(false);
+  });
+});
+
+// Stubs for getUserMedia and the <video> element, with scripted frames:
+// moving at first, then held still. Node has no MediaStream, so this covers
+// the session loop (still detection, decoding, capture, release), not the
+// browser's media plumbing.
+function scriptedCamera(frames: Pixels[]) {
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  let shown = -1;
+  return {
+    track,
+    getUserMedia: vi.fn(async () => stream),
+    attach: async (s: MediaStream) => {
+      expect(s).toBe(stream);
+      return {
+        // Each tick grabs a thumbnail for still detection and then, for the
+        // decoder, the same frame at full size
+        grab: (maxSide: number) => {
+          if (maxSide <= 160) shown++;
+          return frames[Math.min(shown, frames.length - 1)];
+        },
+        still: async () => new Blob(["jpeg"], { type: "image/jpeg" }),
+      };
+    },
+  };
+}
+
+function session(camera: ReturnType<typeof scriptedCamera>, overrides: Partial<CameraSessionOptions> = {}) {
+  return new Promise<{ file?: File; error?: string; codes: string[]; steady: number[] }>((resolve) => {
+    const seen = { codes: [] as string[], steady: [] as number[] };
+    const s = startCameraSession({
+      getUserMedia: camera.getUserMedia,
+      attach: camera.attach,
+      decode: async () => [
+        { format: "qr_code", data: "JH-RU-2021-004567", location: { x: 0, y: 0, width: 32, height: 32 } },
+      ],
+      autoCapture: () => true,
+      onCodes: (codes) => seen.codes.push(...codes.map((c) => c.data)),
+      onSteady: (n) => seen.steady.push(n),
+      onCapture: (file) => {
+        s.stop();
+        resolve({ ...seen, file });
+      },
+      onError: (error) => resolve({ ...seen, error }),
+      intervalMs: 1,
+      steadyFrames: 3,
+      ...overrides,
+    });
+  });
+}
+
+describe("camera session", () => {
+  it("captures a still once the scripted view holds steady, then releases the camera", async () => {
+    const camera = scriptedCamera([0, 3, 6, 9, 12, 15].map((offset) => stripes(3, offset)));
+    const { file, codes, steady } = await session(camera);
+    expect(file?.type).toBe("image/jpeg");
+    expect(file?.name).toMatch(/^camera-.*\.jpg$/);
+    // Nothing counted as steady while the frames were moving
+    expect(steady.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(steady[steady.length - 1]).toBe(3);
+    expect(codes).toContain("JH-RU-2021-004567");
+    expect(camera.track.stop).toHaveBeenCalled();
+  });
+
+  it("reports a denied camera", async () => {
+    const camera = scriptedCamera([]);
+    camera.getUserMedia.mockRejectedValueOnce(new DOMException("denied", "NotAllowedError"));
+    expect((await session(camera)).error).toMatch(/denied/);
+  });
+
+  it("releases a camera that only opens after the session was stopped", async () => {
+    const camera = scriptedCamera([]);
+    let open!: () => void;
+    camera.getUserMedia.mockImplementationOnce(
+      () => new Promise<MediaStream>((resolve) => (open = () => resolve({ getTracks: () => [camera.track] } as never))),
+    );
+    const onReady = vi.fn();
+    const s = startCameraSession({
+      getUserMedia: camera.getUserMedia,
+      attach: camera.attach,
+      decode: async () => [],
+      autoCapture: () => true,
+      onReady,
+      onCapture: () => {},
+      onError: () => {},
+    });
+    s.stop();
+    open();
+    await new Promise((r) => setTimeout(r, 0));
+    expect(camera.track.stop).toHaveBeenCalled();
+    expect(onReady).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,241 @@
+import type { Pixels } from "./pixels";
+import type { DecodedCode } from "./qrScan";
+
+// Auto-capture for the live camera mode: a still is taken once the frame
+// has stopped moving and is about as sharp as it's going to get.
+
+export type StillOptions = {
+  // Consecutive steady frames before capturing
+  steadyFrames?: number;
+  // Mean absolute luma change between frames, 0..1
+  maxMotion?: number;
+  // Laplacian variance below which a frame is too blurred or featureless
+  minSharpness?: number;
+};
+
+export type FrameReading = {
+  motion: number;
+  sharpness: number;
+  // Steady frames so far, up to `steadyFrames`
+  steady: number;
+  capture: boolean;
+};
+
+export type StillDetector = {
+  push(frame: Pixels): FrameReading;
+  reset(): void;
+};
+
+function toLuma({ data, width, height }: Pixels): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+// Variance of the 4-neighbour Laplacian; drops sharply with motion blur
+// and defocus
+export function sharpness(frame: Pixels): number {
+  const { width, height } = frame;
+  if (width < 3 || height < 3) return 0;
+  const luma = toLuma(frame);
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      sum += v;
+      sumSq += v * v;
+    }
+  }
+  const n = (width - 2) * (height - 2);
+  return sumSq / n - (sum / n) ** 2;
+}
+
+// Mean absolute luma difference of two same-sized frames, 0..1
+export function motion(previous: Pixels, next: Pixels): number {
+  if (previous.width !== next.width || previous.height !== next.height) return 1;
+  const a = toLuma(previous);
+  const b = toLuma(next);
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length / 255;
+}
+
+export function createStillDetector({
+  steadyFrames = 5,
+  maxMotion = 0.02,
+  minSharpness = 20,
+}: StillOptions = {}): StillDetector {
+  let previous: Pixels | null = null;
+  let steady = 0;
+  // Sharpest frame of the current steady run
+  let best = 0;
+
+  return {
+    push(frame) {
+      const m = previous ? motion(previous, frame) : 1;
+      const s = sharpness(frame);
+      previous = frame;
+      if (m > maxMotion || s < minSharpness) {
+        steady = 0;
+        best = 0;
+      } else {
+        steady = Math.min(steadyFrames, steady + 1);
+        best = Math.max(best, s);
+      }
+      // Autofocus may still be settling; wait for a frame near the best
+      const capture = steady >= steadyFrames && s >= best * 0.9;
+      return { motion: m, sharpness: s, steady, capture };
+    },
+    reset() {
+      previous = null;
+      steady = 0;
+      best = 0;
+    },
+  };
+}
+
+// Frames of the stream once it's showing, e.g. drawn from a <video>
+export type FrameSource = {
+  // Scaled to fit maxSide; null while no frame is available
+  grab(maxSide: number): Pixels | null;
+  // Full-resolution JPEG of the current frame
+  still(): Promise<Blob | null>;
+};
+
+export type CameraSessionOptions = {
+  getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  // Shows the stream and resolves once frames can be read
+  attach: (stream: MediaStream) => Promise<FrameSource>;
+  decode: (frame: Pixels) => Promise<DecodedCode[]>;
+  // Read on every frame, so a toggle takes effect immediately
+  autoCapture: () => boolean;
+  onReady?: () => void;
+  onSteady?: (steady: number) => void;
+  onCodes?: (codes: DecodedCode[]) => void;
+  onCapture: (file: File) => void;
+  onError: (message: string) => void;
+  intervalMs?: number;
+  steadyFrames?: number;
+};
+
+export type CameraSession = {
+  capture(): void;
+  // Stops the camera; safe to call before it has started
+  stop(): void;
+};
+
+// Steadiness is judged on a thumbnail; QR codes need more resolution
+const STEADY_SIDE = 160;
+const QR_SIDE = 960;
+
+export function cameraError(err: unknown): string {
+  const name = err instanceof DOMException ? err.name : "";
+  if (name === "NotAllowedError") return "Camera access was denied. Allow it in the browser's site settings.";
+  if (name === "NotFoundError" || name === "OverconstrainedError") return "No camera was found.";
+  if (name === "NotReadableError") return "The camera is in use by another application.";
+  return "Couldn't start the camera.";
+}
+
+// Opens the camera, scans each frame for codes and takes one still: when
+// the view has been steady and sharp (if auto-capture is on) or on capture()
+export function startCameraSession({
+  getUserMedia,
+  attach,
+  decode,
+  autoCapture,
+  onReady,
+  onSteady,
+  onCodes,
+  onCapture,
+  onError,
+  intervalMs = 150,
+  steadyFrames = 5,
+}: CameraSessionOptions): CameraSession {
+  let stream: MediaStream | null = null;
+  let source: FrameSource | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  let scanning = false;
+  let captured = false;
+  const detector = createStillDetector({ steadyFrames });
+
+  const capture = () => {
+    if (!source || captured || stopped) return;
+    captured = true;
+    source.still().then(
+      (blob) => {
+        if (stopped) return;
+        if (!blob) {
+          captured = false;
+          onError("Couldn't capture a still from the camera.");
+          return;
+        }
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        onCapture(new File([blob], `camera-${stamp}.jpg`, { type: "image/jpeg" }));
+      },
+      () => {
+        captured = false;
+        if (!stopped) onError("Couldn't capture a still from the camera.");
+      },
+    );
+  };
+
+  const tick = () => {
+    if (stopped || !source) return;
+    if (!captured) {
+      const thumb = source.grab(STEADY_SIDE);
+      if (thumb) {
+        const reading = detector.push(thumb);
+        onSteady?.(reading.steady);
+        if (reading.capture && autoCapture()) capture();
+      }
+      // One frame in the decoder at a time; frames arriving meanwhile are skipped
+      const frame = !scanning ? source.grab(QR_SIDE) : null;
+      if (frame) {
+        scanning = true;
+        decode(frame)
+          .then((found) => {
+            if (!stopped && found.length > 0) onCodes?.(found);
+          })
+          .catch(() => {})
+          .finally(() => {
+            scanning = false;
+          });
+      }
+    }
+    timer = setTimeout(tick, intervalMs);
+  };
+
+  getUserMedia({
+    audio: false,
+    // Rear camera on phones; "ideal" so laptops and fake devices still match
+    video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+  })
+    .then(async (s) => {
+      if (stopped) {
+        s.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      stream = s;
+      source = await attach(s);
+      if (stopped) return;
+      onReady?.();
+      tick();
+    })
+    .catch((err) => {
+      if (!stopped) onError(cameraError(err));
+    });
+
+  return {
+    capture,
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    },
+  };
+}
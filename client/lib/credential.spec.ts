@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  base58btcEncode,
+  base64UrlEncode,
+  canonicalJson,
+  utf8Encode,
+} from "@shared/encoding";
+import type { TrustedKey, TrustList } from "@shared/trustList";
+import { looksLikeCredential, verifyCredential } from "./credential";
+
+const credential = {
+  "@context": ["https://www.w3.org/ns/credentials/v2"],
+  type: ["VerifiableCredential", "UniversityDegreeCredential"],
+  issuer: "did:web:npu.ac.in",
+  validFrom: "2019-06-01T00:00:00Z",
+  credentialSubject: {
+    id: "did:example:aarav",
+    name: "Aarav Kumar",
+    certificateNumber: "JH-NU-2019-000123",
+    degree: { type: "BachelorDegree", name: "B.Sc" },
+  },
+  credentialStatus: { type: "BitstringStatusListEntry", statusListIndex: "42" },
+};
+
+async function keyPair(kid: string) {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const key: TrustedKey = {
+    kid,
+    alg: "EdDSA",
+    jwk: await crypto.subtle.exportKey("jwk", pair.publicKey),
+    notBefore: "2015-01-01T00:00:00Z",
+    status: "active",
+  };
+  return { privateKey: pair.privateKey, key };
+}
+
+function trustList(keys: TrustedKey[]): TrustList {
+  return {
+    version: 1,
+    updatedAt: "2025-01-01T00:00:00Z",
+    institutions: [
+      {
+        id: "nilamber-pitamber",
+        name: "Nilamber-Pitamber University",
+        aliases: ["did:web:npu.ac.in"],
+        keys,
+      },
+    ],
+  };
+}
+
+async function signJwt(payload: object, kid: string, privateKey: CryptoKey) {
+  const header = base64UrlEncode(utf8Encode(JSON.stringify({ alg: "EdDSA", kid, typ: "JWT" })));
+  const body = base64UrlEncode(utf8Encode(JSON.stringify(payload)));
+  const sig = new Uint8Array(
+    await crypto.subtle.sign({ name: "Ed25519" }, privateKey, utf8Encode(`${header}.${body}`)),
+  );
+  return `${header}.${body}.${base64UrlEncode(sig)}`;
+}
+
+async function signDataIntegrity<T extends object>(doc: T, verificationMethod: string, privateKey: CryptoKey) {
+  const proof = {
+    type: "DataIntegrityProof",
+    cryptosuite: "eddsa-jcs-2022",
+    verificationMethod,
+    proofPurpose: "assertionMethod",
+    created: "2019-06-01T00:00:00Z",
+  };
+  const sha = async (v: unknown) =>
+    new Uint8Array(await crypto.subtle.digest("SHA-256", utf8Encode(canonicalJson(v))));
+  const hashData = new Uint8Array([
+    ...(await sha({ ...proof, "@context": credential["@context"] })),
+    ...(await sha(doc)),
+  ]);
+  const sig = new Uint8Array(await crypto.subtle.sign({ name: "Ed25519" }, privateKey, hashData));
+  return { ...doc, proof: { ...proof, proofValue: `z${base58btcEncode(sig)}` } };
+}
+
+describe("canonicalJson", () => {
+  it("sorts keys and drops whitespace", () => {
+    expect(canonicalJson({ b: [1, "x"], a: { d: null, c: true } })).toBe(
+      '{"a":{"c":true,"d":null},"b":[1,"x"]}',
+    );
+  });
+});
+
+describe("verifyCredential", () => {
+  it("verifies a VC-JWT and maps its subject onto a registry record", async () => {
+    const { privateKey, key } = await keyPair("npu-2019");
+    const token = await signJwt(
+      { iss: "did:web:npu.ac.in", nbf: 1559347200, vc: credential },
+      "did:web:npu.ac.in#npu-2019",
+      privateKey,
+    );
+    expect(looksLikeCredential(token)).toBe(true);
+
+    const check = await verifyCredential(token, trustList([key]), { hashHex: "ab" });
+    expect(check.valid).toBe(true);
+    expect(check.format).toBe("jwt");
+    expect(check.record).toEqual({
+      certificateNumber: "JH-NU-2019-000123",
+      hashHex: "ab",
+      name: "Aarav Kumar",
+      institution: "Nilamber-Pitamber University",
+      course: "B.Sc",
+      year: 2019,
+      statusListIndex: 42,
+    });
+  });
+
+  it("verifies eddsa-jcs-2022 Data Integrity proofs and rejects tampering", async () => {
+    const { privateKey, key } = await keyPair("npu-2019");
+    const signed = await signDataIntegrity(credential, "did:web:npu.ac.in#npu-2019", privateKey);
+    const list = trustList([key]);
+
+    const check = await verifyCredential(JSON.stringify(signed, null, 2), list);
+    expect(check.valid).toBe(true);
+    expect(check.proofType).toBe("DataIntegrityProof/eddsa-jcs-2022");
+
+    const tampered = {
+      ...signed,
+      credentialSubject: { ...signed.credentialSubject, name: "Someone Else" },
+    };
+    const bad = await verifyCredential(JSON.stringify(tampered), list);
+    expect(bad.valid).toBe(false);
+    expect(bad.error).toBe("bad-signature");
+  });
+
+  it("reports unknown keys, unsupported proofs and expiry", async () => {
+    const { privateKey, key } = await keyPair("npu-2019");
+    const token = await signJwt({ iss: "did:web:npu.ac.in", vc: credential }, "other", privateKey);
+    expect((await verifyCredential(token, trustList([key]))).error).toBe("unknown-key");
+
+    const legacy = {
+      ...credential,
+      proof: { type: "Ed25519Signature2020", verificationMethod: "npu-2019", proofValue: "z1" },
+    };
+    expect((await verifyCredential(JSON.stringify(legacy), trustList([key]))).error).toBe(
+      "unsupported-proof",
+    );
+
+    const expired = await signJwt(
+      { iss: "did:web:npu.ac.in", exp: 1600000000, vc: credential },
+      "npu-2019",
+      privateKey,
+    );
+    expect((await verifyCredential(expired, trustList([key]))).error).toBe("expired");
+  });
+
+  it("does not treat plain signed QR payloads as credentials", async () => {
+    const { privateKey } = await keyPair("npu-2019");
+    const token = await signJwt({ iss: "nilamber-pitamber", sub: "JH-NU-2019-000123" }, "npu-2019", privateKey);
+    expect(looksLikeCredential(token)).toBe(false);
+    expect(looksLikeCredential("not json")).toBe(false);
+  });
+});
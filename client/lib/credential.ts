@@ -0,0 +1,380 @@
+import {
+  base58btcDecode,
+  canonicalJson,
+  utf8Encode,
+} from "@shared/encoding";
+import {
+  findInstitution,
+  findTrustedKey,
+  type TrustedKeyLookup,
+  type TrustList,
+} from "@shared/trustList";
+import { looksLikeCompactJws, parseCompactJws, verifyJwsSignature } from "./jws";
+import type { RegistryRecord } from "./verify";
+
+// W3C Verifiable Credentials, either as a JWT (VC-JWT / vc+jwt) or as
+// JSON-LD secured with a Data Integrity proof.
+export type CredentialFormat = "jwt" | "json-ld";
+
+export type CredentialError =
+  | "malformed"
+  | "unsupported-proof"
+  | "unknown-key"
+  | "revoked-key"
+  | "key-not-valid"
+  | "issuer-mismatch"
+  | "bad-signature"
+  | "expired"
+  | "not-yet-valid";
+
+export type CredentialCheck = {
+  format: CredentialFormat;
+  // Where the credential came from: the uploaded file or a QR code on it
+  source: "file" | "qr";
+  valid: boolean;
+  // e.g. "EdDSA" for JWTs, "DataIntegrityProof/eddsa-jcs-2022" for JSON-LD
+  proofType?: string;
+  kid?: string;
+  issuer?: string;
+  issuerName?: string;
+  types: string[];
+  issuedAt?: string;
+  expiresAt?: string;
+  subject?: Record<string, unknown>;
+  // credentialSubject mapped onto a registry record, when it has enough fields
+  record?: RegistryRecord;
+  error?: CredentialError;
+  errorMessage?: string;
+  // Record fields that disagree with the matched registry record
+  mismatches: string[];
+};
+
+type Credential = {
+  "@context"?: unknown;
+  id?: string;
+  type?: string | string[];
+  issuer?: string | { id: string; name?: string };
+  issuanceDate?: string;
+  validFrom?: string;
+  expirationDate?: string;
+  validUntil?: string;
+  credentialSubject?: Record<string, unknown> | Record<string, unknown>[];
+  credentialStatus?: { statusListIndex?: string | number };
+  proof?: DataIntegrityProof | DataIntegrityProof[];
+};
+
+type DataIntegrityProof = {
+  type: string;
+  cryptosuite?: string;
+  verificationMethod?: string;
+  proofPurpose?: string;
+  created?: string;
+  proofValue?: string;
+  jws?: string;
+  [key: string]: unknown;
+};
+
+const CREDENTIAL_MIME = /^application\/(json|ld\+json|vc\+ld\+json|vc\+jwt|vc\+ld\+json\+jwt|jwt)$/i;
+
+type Cryptosuite = {
+  hash: (jwk: JsonWebKey) => "SHA-256" | "SHA-384";
+  key: (jwk: JsonWebKey) => Algorithm | EcKeyImportParams;
+  verify: (jwk: JsonWebKey) => Algorithm | EcdsaParams;
+};
+
+const ecdsaHash = (jwk: JsonWebKey) => (jwk.crv === "P-384" ? "SHA-384" : "SHA-256");
+
+// Data Integrity cryptosuites that canonicalize with JCS, so no JSON-LD
+// processor is needed to verify them
+const CRYPTOSUITES: Record<string, Cryptosuite> = {
+  "eddsa-jcs-2022": {
+    hash: () => "SHA-256",
+    key: () => ({ name: "Ed25519" }),
+    verify: () => ({ name: "Ed25519" }),
+  },
+  "ecdsa-jcs-2019": {
+    hash: ecdsaHash,
+    key: (jwk) => ({ name: "ECDSA", namedCurve: jwk.crv || "P-256" }) as EcKeyImportParams,
+    verify: (jwk) => ({ name: "ECDSA", hash: ecdsaHash(jwk) }) as EcdsaParams,
+  },
+};
+
+export function isCredentialFile(file: File): boolean {
+  return CREDENTIAL_MIME.test(file.type) || /\.(json|jsonld|jwt)$/i.test(file.name || "");
+}
+
+function hasCredentialType(value: unknown): boolean {
+  const type = (value as Credential | undefined)?.type;
+  return Array.isArray(type) ? type.includes("VerifiableCredential") : type === "VerifiableCredential";
+}
+
+function jwtCredential(payload: Record<string, unknown>): Credential | null {
+  if (payload.vc && typeof payload.vc === "object") return payload.vc as Credential;
+  return hasCredentialType(payload) ? (payload as Credential) : null;
+}
+
+// True for a VC-JWT or a JSON credential; plain signed QR payloads are not
+// credentials and are handled by ./signedQr
+export function looksLikeCredential(input: string | null | undefined): boolean {
+  if (!input) return false;
+  const text = input.trim();
+  try {
+    if (looksLikeCompactJws(text)) return !!jwtCredential(parseCompactJws(text).payload);
+    if (text.startsWith("{")) return hasCredentialType(JSON.parse(text));
+  } catch {
+    return false;
+  }
+  return false;
+}
+
+function issuerOf(credential: Credential): { id?: string; name?: string } {
+  if (typeof credential.issuer === "string") return { id: credential.issuer };
+  return credential.issuer ?? {};
+}
+
+function subjectOf(credential: Credential): Record<string, unknown> | undefined {
+  const subject = credential.credentialSubject;
+  return Array.isArray(subject) ? subject[0] : subject;
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number") return String(value);
+  if (value && typeof value === "object" && "name" in value) return str(value.name);
+  return undefined;
+}
+
+function yearOf(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  const m = typeof value === "string" ? value.match(/\b(19|20)\d{2}\b/) : null;
+  return m ? Number(m[0]) : undefined;
+}
+
+// Maps the common credentialSubject shapes (flat fields, schema.org
+// degree, Open Badges achievement) onto a registry record
+export function credentialToRecord(
+  credential: Credential,
+  hashHex: string,
+  issuerName?: string,
+): RegistryRecord | undefined {
+  const subject = subjectOf(credential);
+  if (!subject) return undefined;
+  const certificateNumber = str(
+    subject.certificateNumber ?? subject.identifier ?? subject.credentialNumber,
+  );
+  const name =
+    str(subject.name) ??
+    ([str(subject.givenName), str(subject.familyName)].filter(Boolean).join(" ") || undefined);
+  if (!certificateNumber || !name) return undefined;
+
+  const statusListIndex = Number(credential.credentialStatus?.statusListIndex);
+  return {
+    certificateNumber,
+    hashHex,
+    name,
+    institution: str(subject.institution) ?? issuerName ?? issuerOf(credential).id ?? "",
+    course: str(subject.course ?? subject.degree ?? subject.achievement) ?? "",
+    year:
+      yearOf(subject.year) ??
+      yearOf(subject.awardedDate) ??
+      yearOf(credential.validFrom ?? credential.issuanceDate) ??
+      0,
+    statusListIndex: Number.isInteger(statusListIndex) ? statusListIndex : undefined,
+  };
+}
+
+// Verification methods are usually "<controller>#<key id>"; accept a trust
+// list entry registered under either the full reference or the fragment
+function lookupKey(list: TrustList, ref: string, at: Date): TrustedKeyLookup {
+  const lookup = findTrustedKey(list, ref, at);
+  const fragment = ref.includes("#") ? ref.slice(ref.indexOf("#") + 1) : "";
+  if (lookup.ok === false && lookup.reason === "unknown-key" && fragment) {
+    return findTrustedKey(list, fragment, at);
+  }
+  return lookup;
+}
+
+function fail(
+  check: CredentialCheck,
+  error: CredentialError,
+  errorMessage: string,
+): CredentialCheck {
+  return { ...check, valid: false, error, errorMessage };
+}
+
+async function digest(hash: string, data: string) {
+  return new Uint8Array(await crypto.subtle.digest(hash, utf8Encode(data)));
+}
+
+async function verifyDataIntegrityProof(
+  credential: Credential,
+  proof: DataIntegrityProof,
+  jwk: JsonWebKey,
+): Promise<boolean> {
+  const suite = CRYPTOSUITES[proof.cryptosuite || ""];
+  const { proofValue, ...proofOptions } = proof;
+  if (!proofValue?.startsWith("z")) throw new Error("proofValue must be base58btc multibase");
+
+  const { proof: _, ...unsecured } = credential;
+  const proofConfig = { ...proofOptions };
+  if (unsecured["@context"] && !proofConfig["@context"]) {
+    proofConfig["@context"] = unsecured["@context"];
+  }
+  const hashData = new Uint8Array([
+    ...(await digest(suite.hash(jwk), canonicalJson(proofConfig))),
+    ...(await digest(suite.hash(jwk), canonicalJson(unsecured))),
+  ]);
+  const key = await crypto.subtle.importKey("jwk", jwk, suite.key(jwk), false, ["verify"]);
+  return crypto.subtle.verify(suite.verify(jwk), key, base58btcDecode(proofValue.slice(1)), hashData);
+}
+
+function checkValidityWindow(check: CredentialCheck, now: Date): CredentialCheck {
+  if (check.expiresAt && new Date(check.expiresAt) < now) {
+    return fail(check, "expired", `Credential expired on ${check.expiresAt}`);
+  }
+  if (check.issuedAt && new Date(check.issuedAt) > now) {
+    return fail(check, "not-yet-valid", `Credential is not valid before ${check.issuedAt}`);
+  }
+  return { ...check, valid: true };
+}
+
+function describe(
+  credential: Credential,
+  format: CredentialFormat,
+  source: CredentialCheck["source"],
+): CredentialCheck {
+  const types = credential.type;
+  return {
+    format,
+    source,
+    valid: false,
+    issuer: issuerOf(credential).id,
+    issuerName: issuerOf(credential).name,
+    types: Array.isArray(types) ? types : types ? [types] : [],
+    issuedAt: credential.validFrom ?? credential.issuanceDate,
+    expiresAt: credential.validUntil ?? credential.expirationDate,
+    subject: subjectOf(credential),
+    mismatches: [],
+  };
+}
+
+async function verifyJwtCredential(
+  token: string,
+  trustList: TrustList,
+  source: CredentialCheck["source"],
+  hashHex: string,
+  now: Date,
+): Promise<CredentialCheck> {
+  const jws = parseCompactJws(token);
+  const payload = jws.payload as Record<string, unknown>;
+  const credential = jwtCredential(payload);
+  if (!credential) {
+    return fail({ format: "jwt", source, valid: false, types: [], mismatches: [] }, "malformed", "JWT has no vc claim");
+  }
+
+  const check = describe(credential, "jwt", source);
+  check.proofType = jws.header.alg;
+  check.kid = jws.header.kid;
+  // VC-JWT 1.1 registered claims take precedence over the embedded vc
+  if (typeof payload.iss === "string") check.issuer = payload.iss;
+  if (typeof payload.nbf === "number") check.issuedAt = new Date(payload.nbf * 1000).toISOString();
+  if (typeof payload.exp === "number") check.expiresAt = new Date(payload.exp * 1000).toISOString();
+  if (!check.issuer) return fail(check, "malformed", "Credential has no issuer");
+
+  const signedAt = check.issuedAt ? new Date(check.issuedAt) : now;
+  const lookup = lookupKey(trustList, jws.header.kid || "", signedAt);
+  if (lookup.ok === false) return fail(check, lookup.reason, lookup.message);
+  if (findInstitution(trustList, check.issuer) !== lookup.institution) {
+    return fail(check, "issuer-mismatch", `Key "${lookup.key.kid}" does not belong to issuer "${check.issuer}"`);
+  }
+  check.issuerName ??= lookup.institution.name;
+  check.record = credentialToRecord(credential, hashHex, check.issuerName);
+
+  let ok = false;
+  try {
+    ok = await verifyJwsSignature(jws, lookup.key.jwk);
+  } catch (e) {
+    return fail(check, "bad-signature", e instanceof Error ? e.message : String(e));
+  }
+  if (!ok) return fail(check, "bad-signature", "Signature does not match credential");
+  return checkValidityWindow(check, now);
+}
+
+async function verifyJsonLdCredential(
+  credential: Credential,
+  trustList: TrustList,
+  source: CredentialCheck["source"],
+  hashHex: string,
+  now: Date,
+): Promise<CredentialCheck> {
+  const check = describe(credential, "json-ld", source);
+  if (!check.issuer) return fail(check, "malformed", "Credential has no issuer");
+
+  const proofs = Array.isArray(credential.proof) ? credential.proof : credential.proof ? [credential.proof] : [];
+  const proof = proofs.find((p) => p.proofPurpose === "assertionMethod") ?? proofs[0];
+  if (!proof) return fail(check, "malformed", "Credential has no proof");
+  check.proofType = proof.cryptosuite ? `${proof.type}/${proof.cryptosuite}` : proof.type;
+  check.kid = proof.verificationMethod;
+  if (proof.type !== "DataIntegrityProof" || !CRYPTOSUITES[proof.cryptosuite || ""]) {
+    // RDF-canonicalized suites (Ed25519Signature2020, JsonWebSignature2020...)
+    // need a JSON-LD processor and remote contexts
+    return fail(
+      check,
+      "unsupported-proof",
+      `Proof type ${check.proofType} is not supported; use eddsa-jcs-2022 or ecdsa-jcs-2019`,
+    );
+  }
+
+  const signedAt = proof.created ? new Date(proof.created) : now;
+  const lookup = lookupKey(trustList, proof.verificationMethod || "", signedAt);
+  if (lookup.ok === false) return fail(check, lookup.reason, lookup.message);
+  if (findInstitution(trustList, check.issuer) !== lookup.institution) {
+    return fail(check, "issuer-mismatch", `Key "${lookup.key.kid}" does not belong to issuer "${check.issuer}"`);
+  }
+  check.issuerName ??= lookup.institution.name;
+  check.record = credentialToRecord(credential, hashHex, check.issuerName);
+
+  let ok = false;
+  try {
+    ok = await verifyDataIntegrityProof(credential, proof, lookup.key.jwk);
+  } catch (e) {
+    return fail(check, "bad-signature", e instanceof Error ? e.message : String(e));
+  }
+  if (!ok) return fail(check, "bad-signature", "Proof does not match credential");
+  return checkValidityWindow(check, now);
+}
+
+// Parse a credential (JWT or JSON) and check its proof against the issuer
+// trust list. `hashHex` is recorded on the mapped registry record.
+export async function verifyCredential(
+  input: string,
+  trustList: TrustList,
+  { source = "file", hashHex = "", now = new Date() }: {
+    source?: CredentialCheck["source"];
+    hashHex?: string;
+    now?: Date;
+  } = {},
+): Promise<CredentialCheck> {
+  const text = input.trim();
+  const malformed: CredentialCheck = { format: "json-ld", source, valid: false, types: [], mismatches: [] };
+  try {
+    if (looksLikeCompactJws(text)) {
+      return await verifyJwtCredential(text, trustList, source, hashHex, now);
+    }
+    const parsed = JSON.parse(text);
+    // Some wallets export a JWT credential wrapped in JSON
+    if (typeof parsed?.jwt === "string" || typeof parsed?.proof?.jwt === "string") {
+      return await verifyJwtCredential(parsed.jwt ?? parsed.proof.jwt, trustList, source, hashHex, now);
+    }
+    if (!hasCredentialType(parsed)) {
+      return fail(malformed, "malformed", "JSON is not a Verifiable Credential");
+    }
+    return await verifyJsonLdCredential(parsed, trustList, source, hashHex, now);
+  } catch (e) {
+    return fail(
+      { ...malformed, format: looksLikeCompactJws(text) ? "jwt" : "json-ld" },
+      "malformed",
+      e instanceof Error ? e.message : String(e),
+    );
+  }
+}
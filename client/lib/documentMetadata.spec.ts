@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { utf8Encode } from "@shared/encoding";
+import { metadataFindings, parseDocumentMetadata } from "./documentMetadata";
+
+const latin1 = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0));
+
+function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+// Little-endian TIFF with ASCII tags in IFD0 and in the Exif sub-IFD
+function tiff(ifd0: [number, string][], exif: [number, string][]) {
+  const entries = (tags: [number, string][], extra: number) => 2 + (tags.length + extra) * 12 + 4;
+  const ifd0Size = entries(ifd0, 1);
+  const exifOffset = 8 + ifd0Size;
+  const exifSize = entries(exif, 0);
+  let dataOffset = exifOffset + exifSize;
+  const data: Uint8Array[] = [];
+  const view = new DataView(new ArrayBuffer(dataOffset));
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  const writeIfd = (at: number, tags: [number, string][], pointer?: number) => {
+    const count = tags.length + (pointer ? 1 : 0);
+    view.setUint16(at, count, true);
+    tags.forEach(([tag, value], n) => {
+      const entry = at + 2 + n * 12;
+      const bytes = latin1(`${value}\0`);
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, 2, true);
+      view.setUint32(entry + 4, bytes.length, true);
+      view.setUint32(entry + 8, dataOffset, true);
+      data.push(bytes);
+      dataOffset += bytes.length;
+    });
+    if (pointer) {
+      const entry = at + 2 + tags.length * 12;
+      view.setUint16(entry, 0x8769, true);
+      view.setUint16(entry + 2, 4, true);
+      view.setUint32(entry + 4, 1, true);
+      view.setUint32(entry + 8, pointer, true);
+    }
+  };
+  writeIfd(8, ifd0, exifOffset);
+  writeIfd(exifOffset, exif);
+  return concat(new Uint8Array(view.buffer), ...data);
+}
+
+function segment(marker: number, payload: Uint8Array) {
+  const length = payload.length + 2;
+  return concat(Uint8Array.of(0xff, marker, length >> 8, length & 0xff), payload);
+}
+
+const SOS = Uint8Array.of(0xff, 0xda, 0, 2);
+
+function jpeg(...segments: Uint8Array[]) {
+  return concat(Uint8Array.of(0xff, 0xd8), ...segments, SOS);
+}
+
+describe("parseDocumentMetadata", () => {
+  it("reads EXIF and XMP from a JPEG", () => {
+    const exif = tiff(
+      [
+        [0x0131, "Adobe Photoshop 25.0 (Windows)"],
+        [0x0132, "2026:10:16 09:00:00"],
+      ],
+      [[0x9003, "2026:10:01 09:00:00"]],
+    );
+    const xmp = utf8Encode(
+      `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description xmp:CreatorTool="Adobe Photoshop 25.0 (Windows)" xmp:CreateDate="2026-10-01T09:00:00Z">` +
+        `<dc:creator><rdf:Seq><rdf:li>Registrar &amp; Office</rdf:li></rdf:Seq></dc:creator>` +
+        `<xmpMM:History><rdf:Seq><rdf:li stEvt:action="saved" stEvt:softwareAgent="Adobe Photoshop 25.0 (Windows)"/></rdf:Seq></xmpMM:History>` +
+        `</rdf:Description></rdf:RDF></x:xmpmeta>`,
+    );
+    const meta = parseDocumentMetadata(
+      jpeg(
+        segment(0xe1, concat(latin1("Exif\0\0"), exif)),
+        segment(0xe1, concat(latin1("http://ns.adobe.com/xap/1.0/\0"), xmp)),
+      ),
+    );
+    expect(meta.format).toBe("jpeg");
+    expect(meta.exif).toMatchObject({
+      Software: "Adobe Photoshop 25.0 (Windows)",
+      DateTimeOriginal: "2026:10:01 09:00:00",
+    });
+    expect(meta.xmp["dc:creator"]).toBe("Registrar & Office");
+    expect(meta.xmp["xmpMM:History"]).toBe("Adobe Photoshop 25.0 (Windows)");
+    expect(meta.software).toBe("Adobe Photoshop 25.0 (Windows)");
+    expect(meta.createdAt).toBe("2026-10-01T09:00:00.000Z");
+  });
+
+  it("reads the Info dictionary and revision count of a PDF", () => {
+    const pdf = latin1(
+      "%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n" +
+        "4 0 obj\n<< /Title (Degree \\(2021\\)) /Author <FEFF0052006100F1> /Producer (iLovePDF)" +
+        " /CreationDate (D:20210701100000Z) /ModDate (D:20260901100000Z) >>\nendobj\n" +
+        "trailer\n<< /Root 1 0 R /Info 4 0 R >>\n%%EOF\n" +
+        "trailer\n<< /Root 1 0 R /Info 4 0 R /Prev 9 >>\n%%EOF\n",
+    );
+    const meta = parseDocumentMetadata(pdf);
+    expect(meta.format).toBe("pdf");
+    expect(meta.info).toEqual({
+      Title: "Degree (2021)",
+      Author: "Rañ",
+      Producer: "iLovePDF",
+      CreationDate: "D:20210701100000Z",
+      ModDate: "D:20260901100000Z",
+    });
+    expect(meta.revisions).toBe(2);
+    expect(meta.modifiedAt).toBe("2026-09-01T10:00:00.000Z");
+  });
+
+  it("reads PNG text chunks", () => {
+    // CRCs are left zeroed; the parser doesn't check them
+    const chunk = (type: string, data: Uint8Array) => {
+      const length = new DataView(new ArrayBuffer(4));
+      length.setUint32(0, data.length);
+      return concat(new Uint8Array(length.buffer), latin1(type), data, new Uint8Array(4));
+    };
+    const png = concat(
+      Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+      chunk("tEXt", latin1("Software\0GIMP 2.10")),
+      chunk("IEND", new Uint8Array()),
+    );
+    const meta = parseDocumentMetadata(png);
+    expect(meta.text).toEqual({ Software: "GIMP 2.10" });
+    expect(meta.software).toBe("GIMP 2.10");
+  });
+
+  it("returns null for other files", () => {
+    expect(parseDocumentMetadata(utf8Encode('{"type":"VerifiableCredential"}'))).toBeNull();
+  });
+});
+
+describe("metadataFindings", () => {
+  const now = new Date("2026-10-18T09:00:00Z");
+
+  it("reports editing software with how long ago", () => {
+    const exif = tiff(
+      [
+        [0x0131, "Adobe Photoshop 25.0 (Windows)"],
+        [0x0132, "2026:10:16 09:00:00"],
+      ],
+      [],
+    );
+    const meta = parseDocumentMetadata(jpeg(segment(0xe1, concat(latin1("Exif\0\0"), exif))));
+    const [finding] = metadataFindings(meta, { now });
+    expect(finding).toEqual({
+      code: "editing-software",
+      severity: "warning",
+      message: expect.stringMatching(/^Edited with Adobe Photoshop 25\.0 \(Windows\) \d days? ago$/),
+    });
+  });
+
+  it("flags a born-digital PDF created after its claimed issue date", () => {
+    const meta = parseDocumentMetadata(
+      latin1("%PDF-1.4\n2 0 obj\n<< /Producer (LaTeX) /CreationDate (D:20240301000000Z) >>\nendobj\ntrailer\n<< /Info 2 0 R >>\n%%EOF"),
+    );
+    const findings = metadataFindings(meta, { now, issuedAt: new Date(Date.UTC(2021, 11, 31)) });
+    expect(findings).toEqual([
+      {
+        code: "created-after-issue",
+        severity: "warning",
+        message: "File was created on 2024-03-01, after the claimed issue date 2021-12-31",
+      },
+    ]);
+  });
+
+  it("notes stripped metadata", () => {
+    const findings = metadataFindings(parseDocumentMetadata(jpeg()), { now });
+    expect(findings.map((f) => f.code)).toEqual(["metadata-stripped"]);
+  });
+});
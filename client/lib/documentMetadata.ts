@@ -0,0 +1,473 @@
+import { utf8Decode } from "@shared/encoding";
+import { parsePdfDate, toLatin1 } from "./pdfText";
+
+// Embedded metadata of an uploaded image or PDF: EXIF, XMP and the ICC
+// profile for JPEG/PNG, the Info dictionary (plus XMP) for PDFs.
+export type DocumentMetadata = {
+  format: "jpeg" | "png" | "pdf";
+  // Raw fields per source, as shown in the metadata panel
+  exif?: Record<string, string>;
+  xmp?: Record<string, string>;
+  icc?: Record<string, string>;
+  // PNG tEXt/iTXt chunks
+  text?: Record<string, string>;
+  info?: Record<string, string>;
+  // Normalised from whichever source had them; dates are ISO strings
+  software?: string;
+  camera?: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  // Saves recorded in a PDF (1 = never incrementally updated)
+  revisions?: number;
+  // Filled in by metadataFindings once the document's claims are known
+  findings: MetadataFinding[];
+};
+
+export type MetadataFindingCode =
+  | "editing-software"
+  | "modified-after-creation"
+  | "created-after-issue"
+  | "metadata-stripped";
+
+export type MetadataFinding = {
+  code: MetadataFindingCode;
+  severity: "info" | "warning";
+  message: string;
+};
+
+export type MetadataContext = {
+  // When the certificate claims to have been issued
+  issuedAt?: Date;
+  now?: Date;
+};
+
+// Tools that edit an existing image or PDF, as opposed to producing one
+const EDITORS: RegExp[] = [
+  /photoshop/i,
+  /lightroom/i,
+  /\bgimp\b/i,
+  /\bcanva\b/i,
+  /paint\.net/i,
+  /pixelmator/i,
+  /affinity photo/i,
+  /snapseed/i,
+  /picsart/i,
+  /photopea/i,
+  /acrobat pro/i,
+  /pdf-?xchange editor/i,
+  /foxit (?:phantompdf|pdf editor)/i,
+  /ilovepdf/i,
+  /smallpdf/i,
+  /sejda/i,
+  /pdfescape/i,
+];
+
+// Gap between creation and modification that counts as a later edit
+const EDIT_GAP_MS = 60 * 60 * 1000;
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0xa002: "PixelXDimension",
+  0xa003: "PixelYDimension",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+};
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+const PDF_INFO_KEYS = ["Title", "Author", "Subject", "Keywords", "Creator", "Producer", "CreationDate", "ModDate"];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  toLatin1(bytes.subarray(start, start + length));
+
+// TIFF structure inside an EXIF block (JPEG APP1 or PNG eXIf)
+function parseTiff(tiff: Uint8Array): Record<string, string> {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = ascii(tiff, 0, 2) === "II";
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  const out: Record<string, string> = {};
+  const visited = new Set<number>();
+
+  const readIfd = (offset: number) => {
+    if (visited.has(offset) || offset + 2 > tiff.length) return;
+    visited.add(offset);
+    const count = u16(offset);
+    for (let n = 0; n < count; n++) {
+      const entry = offset + 2 + n * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(u32(entry + 8));
+        continue;
+      }
+      if (tag === GPS_IFD_POINTER) {
+        out.GPS = "present";
+        continue;
+      }
+      const name = EXIF_TAGS[tag];
+      if (!name) continue;
+      if (type === 2) {
+        const at = length > 4 ? u32(entry + 8) : entry + 8;
+        if (at + length > tiff.length) continue;
+        const value = ascii(tiff, at, length).replace(/\0+$/, "").trim();
+        if (value) out[name] = value;
+      } else if (type === 3) {
+        out[name] = String(u16(entry + 8));
+      } else if (type === 4) {
+        out[name] = String(u32(entry + 8));
+      }
+    }
+  };
+
+  if (ascii(tiff, 0, 2) !== "II" && ascii(tiff, 0, 2) !== "MM") return out;
+  readIfd(u32(4));
+  return out;
+}
+
+function decodeXmlEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Flat view of an XMP packet: simple properties, whether written as
+// attributes or elements, plus the software agents from the edit history
+function parseXmp(xml: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const skip = /^(?:rdf|x|xmlns|stEvt|stRef|xml):/;
+  for (const m of xml.matchAll(/\s([A-Za-z][\w-]*:[\w-]+)="([^"]*)"/g)) {
+    if (!skip.test(m[1]) && m[2].trim()) out[m[1]] = decodeXmlEntities(m[2].trim());
+  }
+  for (const m of xml.matchAll(/<([A-Za-z][\w-]*:[\w-]+)(?:\s[^>]*)?>([^<]+)<\/\1>/g)) {
+    if (!skip.test(m[1]) && m[2].trim()) out[m[1]] = decodeXmlEntities(m[2].trim());
+  }
+  // dc:creator, dc:title and friends hold rdf:li lists
+  for (const m of xml.matchAll(/<(dc:[\w-]+)>\s*<rdf:(?:Seq|Bag|Alt)>([\s\S]*?)<\/rdf:(?:Seq|Bag|Alt)>/g)) {
+    const items = [...m[2].matchAll(/<rdf:li[^>]*>([^<]*)<\/rdf:li>/g)].map((li) => li[1].trim()).filter(Boolean);
+    if (items.length > 0) out[m[1]] = decodeXmlEntities(items.join(", "));
+  }
+  const agents = [
+    ...xml.matchAll(/stEvt:softwareAgent(?:="([^"]*)"|>([^<]*)<)/g),
+  ].map((m) => decodeXmlEntities((m[1] ?? m[2]).trim()));
+  if (agents.length > 0) out["xmpMM:History"] = [...new Set(agents)].join(", ");
+  return out;
+}
+
+// Profile description from the 'desc' tag (v2 'desc' or v4 'mluc' type)
+function parseIcc(profile: Uint8Array): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (profile.length < 132) return out;
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+  out.ColorSpace = ascii(profile, 16, 4).trim();
+  out.Version = `${profile[8]}.${profile[9] >> 4}`;
+  const cmm = ascii(profile, 4, 4).replace(/\0/g, "").trim();
+  if (cmm) out.CMM = cmm;
+  const tags = view.getUint32(128);
+  for (let n = 0; n < tags && 132 + n * 12 + 12 <= profile.length; n++) {
+    const entry = 132 + n * 12;
+    if (ascii(profile, entry, 4) !== "desc") continue;
+    const at = view.getUint32(entry + 4);
+    const type = ascii(profile, at, 4);
+    if (type === "desc" && at + 12 <= profile.length) {
+      const length = view.getUint32(at + 8);
+      out.Description = ascii(profile, at + 12, length).replace(/\0+$/, "");
+    } else if (type === "mluc" && at + 28 <= profile.length) {
+      const length = view.getUint32(at + 20);
+      const start = at + view.getUint32(at + 24);
+      let text = "";
+      for (let i = start; i + 1 < start + length && i + 1 < profile.length; i += 2) {
+        text += String.fromCharCode(view.getUint16(i));
+      }
+      out.Description = text.replace(/\0+$/, "");
+    }
+  }
+  return out;
+}
+
+function parseJpeg(bytes: Uint8Array): Omit<DocumentMetadata, "findings"> {
+  const meta: Omit<DocumentMetadata, "findings"> = { format: "jpeg" };
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && ascii(segment, 0, 6) === "Exif\0\0") {
+      meta.exif = { ...meta.exif, ...parseTiff(segment.subarray(6)) };
+    } else if (marker === 0xe1 && ascii(segment, 0, 29) === "http://ns.adobe.com/xap/1.0/\0") {
+      meta.xmp = { ...meta.xmp, ...parseXmp(utf8Decode(segment.subarray(29))) };
+    } else if (marker === 0xe2 && ascii(segment, 0, 12) === "ICC_PROFILE\0") {
+      iccChunks[segment[12] - 1] = segment.subarray(14);
+    }
+    offset += 2 + length;
+  }
+  if (iccChunks.length > 0) {
+    const profile = new Uint8Array(iccChunks.reduce((n, c) => n + (c?.length ?? 0), 0));
+    let at = 0;
+    for (const chunk of iccChunks) {
+      if (!chunk) continue;
+      profile.set(chunk, at);
+      at += chunk.length;
+    }
+    meta.icc = parseIcc(profile);
+  }
+  return meta;
+}
+
+function parsePng(bytes: Uint8Array): Omit<DocumentMetadata, "findings"> {
+  const meta: Omit<DocumentMetadata, "findings"> = { format: "png" };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IDAT" || type === "IEND") break;
+    const nul = data.indexOf(0);
+    const keyword = nul > 0 ? ascii(data, 0, nul) : "";
+    if (type === "tEXt" && keyword) {
+      meta.text = { ...meta.text, [keyword]: ascii(data, nul + 1, data.length - nul - 1) };
+    } else if (type === "iTXt" && keyword && data[nul + 1] === 0) {
+      // Uncompressed only; skip language tag and translated keyword
+      const langEnd = data.indexOf(0, nul + 3);
+      const transEnd = data.indexOf(0, langEnd + 1);
+      const value = utf8Decode(data.subarray(transEnd + 1));
+      if (keyword === "XML:com.adobe.xmp") meta.xmp = parseXmp(value);
+      else meta.text = { ...meta.text, [keyword]: value };
+    } else if (type === "eXIf") {
+      meta.exif = parseTiff(data);
+    } else if (type === "iCCP" && keyword) {
+      // The profile itself is deflated; its name is enough to show
+      meta.icc = { Description: keyword };
+    }
+    offset += 12 + length;
+  }
+  return meta;
+}
+
+function decodePdfString(raw: string): string {
+  let bytes: string;
+  if (raw.startsWith("<")) {
+    const hex = raw.slice(1, -1).replace(/[^0-9a-f]/gi, "");
+    bytes = (hex.length % 2 ? hex + "0" : hex).replace(/../g, (h) => String.fromCharCode(parseInt(h, 16)));
+  } else {
+    bytes = raw.slice(1, -1).replace(/\\(\r\n|\n|\r|[0-7]{1,3}|.)/g, (_, e: string) => {
+      if (/^[0-7]/.test(e)) return String.fromCharCode(parseInt(e, 8) & 0xff);
+      if (e === "\n" || e === "\r" || e === "\r\n") return "";
+      return ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" } as Record<string, string>)[e] ?? e;
+    });
+  }
+  if (bytes.startsWith("\xfe\xff")) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return text;
+  }
+  return bytes;
+}
+
+// The dictionary body starting at `start` ("<<"), honouring nested
+// dictionaries and strings that may contain ">>"
+function readDictionary(text: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (c === "(") {
+      let nesting = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === "\\") i++;
+        else if (text[i] === "(") nesting++;
+        else if (text[i] === ")" && --nesting === 0) break;
+      }
+    } else if (text.startsWith("<<", i)) {
+      depth++;
+      i++;
+    } else if (text.startsWith(">>", i)) {
+      depth--;
+      i++;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return text.slice(start);
+}
+
+function dictionaryValue(dictionary: string, key: string): string | undefined {
+  const at = dictionary.search(new RegExp(`/${key}\\s*[(<]`));
+  if (at === -1) return undefined;
+  const start = dictionary.indexOf(dictionary.slice(at).match(/[(<]/)[0], at);
+  if (dictionary[start] === "<") {
+    const end = dictionary.indexOf(">", start);
+    return decodePdfString(dictionary.slice(start, end + 1));
+  }
+  let nesting = 0;
+  for (let i = start; i < dictionary.length; i++) {
+    if (dictionary[i] === "\\") i++;
+    else if (dictionary[i] === "(") nesting++;
+    else if (dictionary[i] === ")" && --nesting === 0) return decodePdfString(dictionary.slice(start, i + 1));
+  }
+  return undefined;
+}
+
+function parsePdf(bytes: Uint8Array): Omit<DocumentMetadata, "findings"> {
+  const meta: Omit<DocumentMetadata, "findings"> = { format: "pdf" };
+  const text = toLatin1(bytes);
+  meta.revisions = Math.max(1, (text.match(/%%EOF/g) || []).length);
+
+  // The last trailer reference wins: later revisions override earlier ones
+  const refs = [...text.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)];
+  const ref = refs[refs.length - 1];
+  if (ref) {
+    const objects = [...text.matchAll(new RegExp(`(?:^|[^\\d])${ref[1]}\\s+${ref[2]}\\s+obj\\s*<<`, "g"))];
+    const object = objects[objects.length - 1];
+    if (object) {
+      const dictionary = readDictionary(text, object.index + object[0].length - 2);
+      const info: Record<string, string> = {};
+      for (const key of PDF_INFO_KEYS) {
+        const value = dictionaryValue(dictionary, key);
+        if (value?.trim()) info[key] = value.trim();
+      }
+      if (Object.keys(info).length > 0) meta.info = info;
+    }
+  }
+
+  // Metadata streams are usually left uncompressed so tools can read them
+  const xmpStart = text.lastIndexOf("<x:xmpmeta");
+  const xmpEnd = text.indexOf("</x:xmpmeta>", xmpStart);
+  if (xmpStart !== -1 && xmpEnd !== -1) {
+    meta.xmp = parseXmp(utf8Decode(bytes.subarray(xmpStart, xmpEnd)));
+  }
+  return meta;
+}
+
+// "2024:01:15 10:30:00" with an optional "+05:30" offset
+function parseExifDate(value: string | undefined, offset?: string): string | undefined {
+  const m = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return undefined;
+  const date = new Date(`${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${offset ?? ""}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function parseXmpDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function normalise(meta: Omit<DocumentMetadata, "findings">) {
+  const { exif = {}, xmp = {}, text = {}, info = {} } = meta;
+  meta.software =
+    xmp["xmp:CreatorTool"] || exif.Software || text.Software || info.Creator || info.Producer || xmp["pdf:Producer"];
+  meta.camera = [exif.Make, exif.Model].filter(Boolean).join(" ") || undefined;
+  meta.createdAt =
+    parseXmpDate(xmp["xmp:CreateDate"]) ||
+    parseExifDate(exif.DateTimeOriginal, exif.OffsetTime) ||
+    parseExifDate(exif.DateTimeDigitized, exif.OffsetTime) ||
+    parsePdfDate(info.CreationDate) ||
+    parseXmpDate(text["Creation Time"]);
+  meta.modifiedAt =
+    parseXmpDate(xmp["xmp:ModifyDate"]) ||
+    parseExifDate(exif.DateTime, exif.OffsetTime) ||
+    parsePdfDate(info.ModDate) ||
+    parseXmpDate(xmp["xmp:MetadataDate"]);
+}
+
+export function parseDocumentMetadata(bytes: Uint8Array): DocumentMetadata | null {
+  let meta: Omit<DocumentMetadata, "findings">;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) meta = parseJpeg(bytes);
+  else if (ascii(bytes, 1, 3) === "PNG") meta = parsePng(bytes);
+  else if (ascii(bytes, 0, 5) === "%PDF-") meta = parsePdf(bytes);
+  else return null;
+  normalise(meta);
+  return { ...meta, findings: [] };
+}
+
+const relative = new Intl.RelativeTimeFormat("en", { numeric: "always" });
+
+export function formatRelative(date: Date, now: Date): string {
+  const seconds = (date.getTime() - now.getTime()) / 1000;
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["year", 365 * 86400],
+    ["month", 30 * 86400],
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return relative.format(Math.round(seconds / size), unit);
+  }
+  return "just now";
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Evidence drawn from the metadata. An issue date is only known once the
+// registry, a signed QR or a credential has been matched.
+export function metadataFindings(
+  meta: DocumentMetadata,
+  { issuedAt, now = new Date() }: MetadataContext = {},
+): MetadataFinding[] {
+  const findings: MetadataFinding[] = [];
+  const created = meta.createdAt ? new Date(meta.createdAt) : undefined;
+  const modified = meta.modifiedAt ? new Date(meta.modifiedAt) : undefined;
+
+  const tools = [meta.software, meta.xmp?.["xmpMM:History"], meta.info?.Producer].filter(Boolean).join(", ");
+  const editor = tools
+    .split(/,\s*/)
+    .find((tool) => EDITORS.some((re) => re.test(tool)));
+  if (editor) {
+    findings.push({
+      code: "editing-software",
+      severity: "warning",
+      message: `Edited with ${editor}${modified ? ` ${formatRelative(modified, now)}` : ""}`,
+    });
+  }
+
+  if (created && modified && modified.getTime() - created.getTime() > EDIT_GAP_MS) {
+    findings.push({
+      code: "modified-after-creation",
+      severity: "info",
+      message: `Modified ${formatRelative(modified, created).replace(/^in /, "")} after it was created`,
+    });
+  }
+
+  // A photo or scan of an old certificate is naturally newer than it; a
+  // born-digital original is not
+  if (created && issuedAt && created.getTime() - issuedAt.getTime() > 86400 * 1000) {
+    findings.push({
+      code: "created-after-issue",
+      severity: meta.format === "pdf" && !meta.camera ? "warning" : "info",
+      message: `File was created on ${isoDate(created)}, after the claimed issue date ${isoDate(issuedAt)}`,
+    });
+  }
+
+  const hasMetadata = !!(meta.exif || meta.xmp || meta.info || meta.text);
+  if (!hasMetadata) {
+    findings.push({
+      code: "metadata-stripped",
+      severity: "info",
+      message:
+        meta.format === "pdf"
+          ? "PDF has no document information (metadata stripped)"
+          : "Image metadata has been stripped",
+    });
+  }
+  return findings;
+}
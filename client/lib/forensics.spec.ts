@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { analyzeForensics } from "./forensics";
+import type { Pixels } from "./pixels";
+
+// Deterministic noise so the statistics don't flake
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+}
+
+function gaussian(next: () => number) {
+  return Math.sqrt(-2 * Math.log(next() || 1e-9)) * Math.cos(2 * Math.PI * next());
+}
+
+type Patch = { x: number; y: number; width: number; height: number };
+const inside = (p: Patch, x: number, y: number) =>
+  x >= p.x && x < p.x + p.width && y >= p.y && y < p.y + p.height;
+
+// A "photographed" page: mid-grey with sensor noise, except in `clean`
+function photo(width: number, height: number, noise: number, clean?: Patch): Pixels {
+  const next = random(7);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const v = clean && inside(clean, x, y) ? 128 : 128 + noise * gaussian(next);
+      data[i] = data[i + 1] = data[i + 2] = v;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+// Re-encode stand-in: small error everywhere, large inside `edited`
+function recompress(pixels: Pixels, edited: Patch): Pixels {
+  const next = random(11);
+  const data = pixels.data.slice();
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const i = (y * pixels.width + x) * 4;
+      const error = inside(edited, x, y) ? 12 : 2;
+      for (let c = 0; c < 3; c++) data[i + c] += next() < 0.5 ? -error : error;
+    }
+  }
+  return { ...pixels, data };
+}
+
+describe("analyzeForensics", () => {
+  const patch = { x: 160, y: 96, width: 64, height: 48 };
+
+  it("flags a region whose noise doesn't match the rest of the photo", () => {
+    const result = analyzeForensics(photo(384, 256, 6, patch));
+    expect(result.methods).toEqual(["noise"]);
+    expect(result.score).toBeGreaterThan(0.5);
+    const [region] = result.regions;
+    expect(region.methods).toContain("noise");
+    expect(region.x).toBeLessThanOrEqual(patch.x);
+    expect(region.y).toBeLessThanOrEqual(patch.y);
+    expect(region.x + region.width).toBeGreaterThanOrEqual(patch.x + patch.width);
+    expect(region.y + region.height).toBeGreaterThanOrEqual(patch.y + patch.height);
+    expect(region.width).toBeLessThan(patch.width + 32);
+  });
+
+  it("flags a region with a higher error level after recompression", () => {
+    const original = photo(384, 256, 6);
+    const result = analyzeForensics(original, recompress(original, patch));
+    expect(result.methods).toEqual(["ela", "noise"]);
+    const [region] = result.regions;
+    expect(region.methods).toEqual(["ela"]);
+    expect(region.x).toBeLessThanOrEqual(patch.x);
+    expect(region.x + region.width).toBeGreaterThanOrEqual(patch.x + patch.width);
+  });
+
+  it("finds nothing on an untouched photo", () => {
+    const original = photo(384, 256, 6);
+    const result = analyzeForensics(original, recompress(original, { x: 0, y: 0, width: 0, height: 0 }));
+    expect(result.regions).toEqual([]);
+    expect(result.score).toBe(0);
+    expect(result.heatmap.cells).toHaveLength(result.heatmap.columns * result.heatmap.rows);
+  });
+
+  it("skips noise analysis on a born-digital image", () => {
+    const result = analyzeForensics(photo(256, 256, 0));
+    expect(result.methods).toEqual([]);
+    expect(result.score).toBe(0);
+  });
+});
@@ -0,0 +1,247 @@
+import { readPixels, recompressJpeg, type Pixels } from "./pixels";
+
+// Local tamper forensics. Error level analysis (ELA) compares a JPEG with a
+// fresh re-encode of itself: regions pasted in after the last save
+// recompress differently from the rest. Noise analysis compares the sensor
+// noise left in each region: a patch from another photo, or a digitally
+// filled one, doesn't match its surroundings. Both work per grid cell and
+// flag cells that are outliers against the whole image.
+export type ForensicMethod = "ela" | "noise";
+
+export type SuspectRegion = {
+  // Source image pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 0-1
+  score: number;
+  methods: ForensicMethod[];
+};
+
+export type ForensicsResult = {
+  // Methods that had enough signal to run
+  methods: ForensicMethod[];
+  width: number;
+  height: number;
+  // Suspicion per cell, 0-1, row-major
+  heatmap: { columns: number; rows: number; cellSize: number; cells: number[] };
+  // Most suspicious first
+  regions: SuspectRegion[];
+  // Highest region score; 0 when nothing stands out
+  score: number;
+};
+
+// Re-encode quality for ELA
+export const ELA_QUALITY = 0.9;
+
+const MAX_CELLS = 64;
+const MIN_CELL_SIZE = 8;
+// Too few comparable cells and any statistics are noise themselves
+const MIN_SAMPLE_CELLS = 16;
+// Robust z-score where suspicion starts, and the span up to full suspicion
+const Z_START = 3;
+const Z_SPAN = 5;
+const REGION_THRESHOLD = 0.5;
+const MAX_REGIONS = 5;
+// Cells flatter than this (mean Laplacian) say nothing about compression
+const MIN_TEXTURE = 2;
+// Below this median residual there is no sensor noise to compare, as in a
+// rendered PDF page or a born-digital image
+const MIN_NOISE = 0.5;
+
+type Grid = { columns: number; rows: number; cellSize: number };
+
+function gridFor(width: number, height: number): Grid {
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.ceil(Math.max(width, height) / MAX_CELLS));
+  return { columns: Math.ceil(width / cellSize), rows: Math.ceil(height / cellSize), cellSize };
+}
+
+function toGray({ data, width, height }: Pixels): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Per cell: mean absolute Laplacian (texture) and its median (noise level;
+// text strokes cover too little of a cell to move the median)
+function laplacianStats(pixels: Pixels, grid: Grid) {
+  const { width, height } = pixels;
+  const gray = toGray(pixels);
+  const cellCount = grid.columns * grid.rows;
+  const sums = new Float64Array(cellCount);
+  const counts = new Uint32Array(cellCount);
+  const histograms = new Uint32Array(cellCount * 256);
+  for (let y = 1; y < height - 1; y++) {
+    const rowCell = Math.floor(y / grid.cellSize) * grid.columns;
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const r = Math.abs(4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width]);
+      const cell = rowCell + Math.floor(x / grid.cellSize);
+      sums[cell] += r;
+      counts[cell]++;
+      histograms[cell * 256 + Math.min(255, Math.round(r))]++;
+    }
+  }
+  const texture = new Float32Array(cellCount);
+  const noise = new Float32Array(cellCount);
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (counts[cell] === 0) continue;
+    texture[cell] = sums[cell] / counts[cell];
+    const half = counts[cell] / 2;
+    let acc = 0;
+    let bin = 0;
+    while (bin < 255 && (acc += histograms[cell * 256 + bin]) < half) bin++;
+    noise[cell] = bin;
+  }
+  return { texture, noise, counts };
+}
+
+// Mean per-pixel error between the image and its re-encode, per cell
+function errorLevels(original: Pixels, recompressed: Pixels, grid: Grid): Float32Array {
+  const { width, height } = original;
+  const sums = new Float64Array(grid.columns * grid.rows);
+  const counts = new Uint32Array(sums.length);
+  for (let y = 0; y < height; y++) {
+    const rowCell = Math.floor(y / grid.cellSize) * grid.columns;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const diff = Math.max(
+        Math.abs(original.data[i] - recompressed.data[i]),
+        Math.abs(original.data[i + 1] - recompressed.data[i + 1]),
+        Math.abs(original.data[i + 2] - recompressed.data[i + 2]),
+      );
+      const cell = rowCell + Math.floor(x / grid.cellSize);
+      sums[cell] += diff;
+      counts[cell]++;
+    }
+  }
+  return Float32Array.from(sums, (s, cell) => (counts[cell] ? s / counts[cell] : 0));
+}
+
+// Suspicion per cell from a robust z-score (median/MAD) over the sampled
+// cells, or null when too few cells qualify
+function outlierScores(
+  values: Float32Array,
+  sampled: (cell: number) => boolean,
+  twoSided: boolean,
+): Float32Array | null {
+  const sample: number[] = [];
+  values.forEach((v, cell) => sampled(cell) && sample.push(v));
+  if (sample.length < MIN_SAMPLE_CELLS) return null;
+  const center = median(sample);
+  // Floors keep a near-uniform image from turning tiny wobbles into outliers
+  const spread = Math.max(1.4826 * median(sample.map((v) => Math.abs(v - center))), center * 0.15, 0.1);
+  return Float32Array.from(values, (v, cell) => {
+    if (!sampled(cell)) return 0;
+    const z = (v - center) / spread;
+    const distance = twoSided ? Math.abs(z) : z;
+    return Math.min(1, Math.max(0, (distance - Z_START) / Z_SPAN));
+  });
+}
+
+// Connected (8-neighbour) groups of suspicious cells; lone cells are dropped
+function findRegions(
+  scores: Partial<Record<ForensicMethod, Float32Array>>,
+  combined: Float32Array,
+  grid: Grid,
+  width: number,
+  height: number,
+): SuspectRegion[] {
+  const { columns, rows, cellSize } = grid;
+  const seen = new Uint8Array(combined.length);
+  const regions: SuspectRegion[] = [];
+  for (let start = 0; start < combined.length; start++) {
+    if (seen[start] || combined[start] < REGION_THRESHOLD) continue;
+    const stack = [start];
+    const cells: number[] = [];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop();
+      cells.push(cell);
+      const cx = cell % columns;
+      const cy = Math.floor(cell / columns);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue;
+          const next = ny * columns + nx;
+          if (seen[next] || combined[next] < REGION_THRESHOLD) continue;
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (cells.length < 2) continue;
+
+    const xs = cells.map((c) => c % columns);
+    const ys = cells.map((c) => Math.floor(c / columns));
+    const x = Math.min(...xs) * cellSize;
+    const y = Math.min(...ys) * cellSize;
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (Math.max(...xs) + 1) * cellSize) - x,
+      height: Math.min(height, (Math.max(...ys) + 1) * cellSize) - y,
+      score: Math.max(...cells.map((c) => combined[c])),
+      methods: (Object.keys(scores) as ForensicMethod[]).filter((m) =>
+        cells.some((c) => scores[m][c] >= REGION_THRESHOLD),
+      ),
+    });
+  }
+  return regions.sort((a, b) => b.score - a.score).slice(0, MAX_REGIONS);
+}
+
+// `recompressed` is the image after a JPEG round trip at ELA_QUALITY; ELA
+// only runs when it is given (JPEG input)
+export function analyzeForensics(original: Pixels, recompressed?: Pixels): ForensicsResult {
+  const { width, height } = original;
+  const grid = gridFor(width, height);
+  const { texture, noise, counts } = laplacianStats(original, grid);
+  const textured = (cell: number) => texture[cell] >= MIN_TEXTURE;
+
+  const scores: Partial<Record<ForensicMethod, Float32Array>> = {};
+  if (recompressed) {
+    const ela = outlierScores(errorLevels(original, recompressed, grid), textured, false);
+    if (ela) scores.ela = ela;
+  }
+  // Edge cells are partly outside the interior the Laplacian covers
+  const full = grid.cellSize * grid.cellSize * 0.5;
+  const noiseCells = (cell: number) => counts[cell] >= full;
+  const noiseLevels: number[] = [];
+  noise.forEach((v, cell) => noiseCells(cell) && noiseLevels.push(v));
+  if (noiseLevels.length > 0 && median(noiseLevels) >= MIN_NOISE) {
+    const noiseScores = outlierScores(noise, noiseCells, true);
+    if (noiseScores) scores.noise = noiseScores;
+  }
+
+  const combined = new Float32Array(grid.columns * grid.rows);
+  for (const values of Object.values(scores)) {
+    values.forEach((v, cell) => (combined[cell] = Math.max(combined[cell], v)));
+  }
+  const regions = findRegions(scores, combined, grid, width, height);
+  return {
+    methods: Object.keys(scores) as ForensicMethod[],
+    width,
+    height,
+    heatmap: { ...grid, cells: Array.from(combined, (v) => Math.round(v * 100) / 100) },
+    regions,
+    score: regions[0]?.score ?? 0,
+  };
+}
+
+export async function analyzeImageForensics(image: Blob): Promise<ForensicsResult> {
+  const pixels = await readPixels(image);
+  // ELA means nothing for lossless formats
+  const recompressed = /jpe?g/i.test(image.type) ? await recompressJpeg(pixels, ELA_QUALITY) : undefined;
+  return analyzeForensics(pixels, recompressed);
+}
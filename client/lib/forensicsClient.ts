@@ -0,0 +1,14 @@
+import { analyzeImageForensics, type ForensicsResult } from "./forensics";
+import { createWorkerClient } from "./workerClient";
+
+const client = createWorkerClient<Blob, ForensicsResult>(
+  () => new Worker(new URL("./forensicsWorker.ts", import.meta.url), { type: "module" }),
+);
+
+export const terminateForensicsWorker = client.terminate;
+
+// Error level and noise analysis of one image, off the main thread
+export function runForensics(image: Blob, signal?: AbortSignal): Promise<ForensicsResult> {
+  if (typeof Worker === "undefined") return analyzeImageForensics(image);
+  return client.request(image, { signal });
+}
@@ -0,0 +1,5 @@
+import { analyzeImageForensics } from "./forensics";
+import { handleRequests } from "./workerClient";
+
+// Decoding and the JPEG round trip for ELA happen here too
+handleRequests(analyzeImageForensics);
@@ -0,0 +1,12 @@
+export async function sha256Hex(buf: ArrayBuffer) {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    // Fallback for environments without crypto.subtle
+    return 'fallback-hash-' + Date.now().toString(16);
+  }
+  
+  const hash = await crypto.subtle.digest("SHA-256", buf);
+  const bytes = new Uint8Array(hash);
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { historySummarySchema } from "@shared/history";
+import { MAX_STORED_FILE_SIZE, filterHistory, historyEntry, toSummary } from "./history";
+import type { Issue, VerificationResult } from "./verify";
+
+const issue = (message: string): Issue => ({ code: "test.issue", severity: "warning", source: "test", message });
+
+const result = (status: VerificationResult["status"], issues: Issue[] = []): VerificationResult => ({
+  status,
+  issues,
+  metadata: { fileName: "degree.pdf", size: 10, mime: "application/pdf", hashHex: "abc123" },
+  matchedRecord: {
+    certificateNumber: "JH-2021-001",
+    name: "Asha Kumari",
+    institution: "Ranchi University",
+    course: "B.Sc",
+    year: 2021,
+    hashHex: "abc123",
+  },
+});
+
+const entry = (id: string, verifiedAt: string, status: VerificationResult["status"] = "valid", issues?: Issue[]) =>
+  historyEntry(result(status, issues), { id: `entry-${id}`, userId: "u1", verifiedAt });
+
+describe("historyEntry", () => {
+  it("summarises a result into a schema-valid summary", () => {
+    const e = historyEntry(result("suspect", [issue("Low OCR confidence")]), {
+      id: "abc-123",
+      userId: "u1",
+      file: new File(["x"], "degree.pdf"),
+      thumbnail: "data:image/jpeg;base64,AAAA",
+      verifiedAt: "2026-03-01T10:00:00.000Z",
+    });
+    expect(e.institution).toBe("Ranchi University");
+    expect(e.certificateNumber).toBe("JH-2021-001");
+    expect(e.file?.name).toBe("degree.pdf");
+
+    const summary = toSummary(e);
+    expect(summary).not.toHaveProperty("userId");
+    expect(summary).not.toHaveProperty("result");
+    expect(summary).not.toHaveProperty("file");
+    expect(summary).not.toHaveProperty("thumbnail");
+    expect(historySummarySchema.safeParse(summary).success).toBe(true);
+  });
+
+  it("doesn't keep files too large to store", () => {
+    const big = { name: "huge.pdf", size: MAX_STORED_FILE_SIZE + 1 } as File;
+    expect(historyEntry(result("valid"), { id: "abc-123", userId: "u1", file: big }).file).toBeUndefined();
+  });
+});
+
+describe("filterHistory", () => {
+  const entries = [
+    entry("a", "2026-03-01T12:00:00"),
+    entry("b", "2026-03-05T12:00:00", "revoked", [issue("Certificate has been revoked")]),
+    entry("c", "2026-03-03T12:00:00", "suspect"),
+  ];
+
+  it("lists newest first", () => {
+    expect(filterHistory(entries).map((e) => e.id)).toEqual(["entry-b", "entry-c", "entry-a"]);
+  });
+
+  it("filters by status", () => {
+    expect(filterHistory(entries, { status: "suspect" }).map((e) => e.id)).toEqual(["entry-c"]);
+  });
+
+  it("filters by inclusive local date range", () => {
+    const ids = filterHistory(entries, { from: "2026-03-01", to: "2026-03-03" }).map((e) => e.id);
+    expect(ids).toEqual(["entry-c", "entry-a"]);
+  });
+
+  it("searches file name, institution and issues case-insensitively", () => {
+    expect(filterHistory(entries, { query: "ranchi" })).toHaveLength(3);
+    expect(filterHistory(entries, { query: "REVOKED" }).map((e) => e.id)).toEqual(["entry-b"]);
+    expect(filterHistory(entries, { query: "nothing like it" })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,87 @@
+import type { HistorySummary, VerificationStatus } from "@shared/history";
+import { toIssue } from "@shared/issues";
+import { institutionOf } from "./batch";
+import type { VerificationResult } from "./verify";
+
+export type { HistorySummary } from "@shared/history";
+
+// What this browser keeps. Entries pulled from the server have no result
+// or file, so they can be viewed by permalink but not re-verified here.
+export type HistoryEntry = HistorySummary & {
+  userId: string;
+  result?: VerificationResult;
+  file?: File;
+  // Small JPEG data URL; never leaves this browser
+  thumbnail?: string;
+  // When the summary last reached the server
+  syncedAt?: string;
+};
+
+export type HistoryFilter = {
+  query?: string;
+  status?: VerificationStatus | "all";
+  // Inclusive, YYYY-MM-DD in local time
+  from?: string;
+  to?: string;
+};
+
+// Files bigger than this aren't kept for re-verification
+export const MAX_STORED_FILE_SIZE = 20 * 1024 * 1024;
+
+export function historyEntry(
+  result: VerificationResult,
+  { id, userId, file, thumbnail, verifiedAt = new Date().toISOString() }: {
+    id: string;
+    userId: string;
+    file?: File;
+    thumbnail?: string;
+    verifiedAt?: string;
+  },
+): HistoryEntry {
+  const m = result.metadata;
+  return {
+    id,
+    userId,
+    verifiedAt,
+    fileName: m.fileName,
+    size: m.size,
+    mime: m.mime,
+    hashHex: m.hashHex,
+    status: result.status,
+    issues: result.issues,
+    institution: institutionOf(result) || undefined,
+    certificateNumber: result.matchedRecord?.certificateNumber ?? m.certificateNumber?.value,
+    thumbnail,
+    result,
+    file: file && file.size <= MAX_STORED_FILE_SIZE ? file : undefined,
+  };
+}
+
+export function toSummary({ userId, result, file, thumbnail, syncedAt, ...summary }: HistoryEntry): HistorySummary {
+  // Entries recorded before issues were structured hold plain strings
+  return { ...summary, issues: summary.issues.map((i) => toIssue(i)) };
+}
+
+function localDay(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Newest first
+export function filterHistory(entries: HistoryEntry[], { query, status = "all", from, to }: HistoryFilter = {}) {
+  const needle = query?.trim().toLowerCase();
+  return entries
+    .filter((e) => {
+      if (status !== "all" && e.status !== status) return false;
+      const day = localDay(e.verifiedAt);
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      if (!needle) return true;
+      const issues = e.issues.map((i) => toIssue(i).message);
+      return [e.fileName, e.institution, e.certificateNumber, e.hashHex, ...issues].some((v) =>
+        v?.toLowerCase().includes(needle),
+      );
+    })
+    .sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt));
+}
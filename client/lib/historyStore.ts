@@ -0,0 +1,160 @@
+import { apiClient } from "@shared/api";
+import { isPdf } from "./steps/pages";
+import { historyEntry, toSummary, type HistoryEntry, type HistorySummary } from "./history";
+import type { VerificationResult } from "./verify";
+
+// History of signed-out visitors; kept in this browser only
+export const GUEST_USER = "guest";
+
+const DB_NAME = "verification-history";
+const STORE = "entries";
+const THUMBNAIL_SIDE = 160;
+
+let db: Promise<IDBDatabase> | null = null;
+const changes = new EventTarget();
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: ["userId", "id"] });
+      store.createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      db = null;
+      reject(request.error);
+    };
+  });
+  return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const store = (await openDb()).transaction(STORE, mode).objectStore(STORE);
+  return new Promise((resolve, reject) => {
+    const request = fn(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function changed() {
+  changes.dispatchEvent(new Event("change"));
+}
+
+export function onHistoryChange(listener: () => void): () => void {
+  changes.addEventListener("change", listener);
+  return () => changes.removeEventListener("change", listener);
+}
+
+export function listHistory(userId: string): Promise<HistoryEntry[]> {
+  return run("readonly", (store) => store.index("userId").getAll(userId));
+}
+
+export function getHistoryEntry(userId: string, id: string): Promise<HistoryEntry | undefined> {
+  return run("readonly", (store) => store.get([userId, id]));
+}
+
+async function putEntry(entry: HistoryEntry) {
+  await run("readwrite", (store) => store.put(entry));
+  changed();
+}
+
+// Small JPEG of the image, or of a PDF's first page
+export async function createThumbnail(file: File): Promise<string | undefined> {
+  try {
+    let image: Blob | undefined = file;
+    if (isPdf(file)) {
+      // Loaded on demand so pdf.js stays out of the main bundle
+      const { renderPdfPages } = await import("./pdf");
+      image = (await renderPdfPages(file, { scale: 0.5, maxPages: 1 })).pages[0]?.image;
+    }
+    if (!image || !image.type.startsWith("image/")) return undefined;
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch (e) {
+    console.warn("⚠️ Couldn't create history thumbnail:", e);
+    return undefined;
+  }
+}
+
+async function pushEntry(entry: HistoryEntry): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `/api/history/${encodeURIComponent(entry.userId)}/${encodeURIComponent(entry.id)}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+        body: JSON.stringify(toSummary(entry)),
+      },
+    );
+    if (!response.ok) throw new Error(`History sync error: ${response.status}`);
+    return true;
+  } catch (e) {
+    console.warn("⚠️ History sync failed, will retry:", e);
+    return false;
+  }
+}
+
+// Saves a finished verification, and sends its summary to the server when
+// the user is signed in
+export async function recordVerification({
+  userId,
+  id,
+  file,
+  result,
+}: {
+  userId: string;
+  id: string;
+  file: File;
+  result: VerificationResult;
+}): Promise<HistoryEntry> {
+  const entry = historyEntry(result, { id, userId, file, thumbnail: await createThumbnail(file) });
+  await putEntry(entry);
+  if (userId !== GUEST_USER && (await pushEntry(entry))) {
+    entry.syncedAt = new Date().toISOString();
+    await putEntry(entry);
+  }
+  return entry;
+}
+
+export async function deleteHistoryEntry(userId: string, id: string) {
+  await run("readwrite", (store) => store.delete([userId, id]));
+  changed();
+  if (userId === GUEST_USER) return;
+  try {
+    await fetch(`/api/history/${encodeURIComponent(userId)}/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      headers: apiClient.authHeaders(),
+    });
+  } catch (e) {
+    console.warn("⚠️ Couldn't delete history entry on the server:", e);
+  }
+}
+
+// Pushes entries the server hasn't seen and pulls ones made on other devices
+export async function syncHistory(userId: string): Promise<void> {
+  if (userId === GUEST_USER) return;
+  const local = await listHistory(userId);
+  for (const entry of local.filter((e) => !e.syncedAt)) {
+    if (!(await pushEntry(entry))) return;
+    await run("readwrite", (store) => store.put({ ...entry, syncedAt: new Date().toISOString() }));
+  }
+  const response = await fetch(`/api/history/${encodeURIComponent(userId)}`, {
+    headers: apiClient.authHeaders(),
+  });
+  if (!response.ok) throw new Error(`History sync error: ${response.status}`);
+  const remote: HistorySummary[] = await response.json();
+  const known = new Set(local.map((e) => e.id));
+  const syncedAt = new Date().toISOString();
+  for (const summary of remote.filter((s) => !known.has(s.id))) {
+    await run("readwrite", (store) => store.put({ ...summary, userId, syncedAt }));
+  }
+  changed();
+}
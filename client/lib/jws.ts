@@ -0,0 +1,66 @@
+import { base64UrlDecode, utf8Decode, utf8Encode } from "@shared/encoding";
+
+export type JwsHeader = {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [key: string]: unknown;
+};
+
+export type ParsedJws = {
+  header: JwsHeader;
+  payload: Record<string, unknown>;
+  signingInput: Uint8Array<ArrayBuffer>;
+  signature: Uint8Array<ArrayBuffer>;
+};
+
+export const SUPPORTED_JWS_ALGS = ["EdDSA", "ES256", "ES384"] as const;
+
+const ALG_PARAMS: Record<
+  string,
+  { key: EcKeyImportParams | Algorithm; verify: EcdsaParams | Algorithm }
+> = {
+  EdDSA: { key: { name: "Ed25519" }, verify: { name: "Ed25519" } },
+  ES256: {
+    key: { name: "ECDSA", namedCurve: "P-256" } as EcKeyImportParams,
+    verify: { name: "ECDSA", hash: "SHA-256" } as EcdsaParams,
+  },
+  ES384: {
+    key: { name: "ECDSA", namedCurve: "P-384" } as EcKeyImportParams,
+    verify: { name: "ECDSA", hash: "SHA-384" } as EcdsaParams,
+  },
+};
+
+export function looksLikeCompactJws(input: string | null | undefined): boolean {
+  return !!input && /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(input.trim());
+}
+
+export function parseCompactJws(token: string): ParsedJws {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) throw new Error("Not a compact JWS");
+  const [h, p, s] = parts;
+  const header = JSON.parse(utf8Decode(base64UrlDecode(h))) as JwsHeader;
+  if (!header.alg) throw new Error("JWS header has no alg");
+  const payload = JSON.parse(utf8Decode(base64UrlDecode(p)));
+  if (typeof payload !== "object" || payload === null) {
+    throw new Error("JWS payload is not a JSON object");
+  }
+  return {
+    header,
+    payload,
+    signingInput: utf8Encode(`${h}.${p}`),
+    signature: base64UrlDecode(s),
+  };
+}
+
+// Verify a JWS signature against a public JWK. ECDSA signatures in JWS are
+// raw r||s, which is what WebCrypto expects.
+export async function verifyJwsSignature(
+  jws: ParsedJws,
+  jwk: JsonWebKey,
+): Promise<boolean> {
+  const params = ALG_PARAMS[jws.header.alg];
+  if (!params) throw new Error(`Unsupported JWS algorithm ${jws.header.alg}`);
+  const key = await crypto.subtle.importKey("jwk", jwk, params.key, false, ["verify"]);
+  return crypto.subtle.verify(params.verify, key, jws.signature, jws.signingInput);
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRUST_LIST } from "@shared/trustList";
+import { compareFieldsWithRecord, extractFields, locateText, type OcrWord } from "./ocrFields";
+import type { RegistryRecord } from "./verify";
+
+const OCR_TEXT = `RANCHI UNIVERSITY
+Certificate No: JH-RU-2021-004567
+Roll No. 21BT0456
+This is to certify that ISHITA SINGH, daughter of Shri R. Singh
+has been awarded the degree of Bachelor of Technology
+in the year 2021 with CGPA 8.4/10`;
+
+const record: RegistryRecord = {
+  certificateNumber: "JH-RU-2021-004567",
+  hashHex: "",
+  name: "Ishita Singh",
+  institution: "Ranchi University",
+  course: "B.Tech",
+  year: 2021,
+};
+
+describe("extractFields", () => {
+  it("reads typed fields from certificate text", () => {
+    expect(extractFields(OCR_TEXT, DEFAULT_TRUST_LIST)).toEqual({
+      name: "Ishita Singh",
+      rollNumber: "21BT0456",
+      certificateNumber: "JH-RU-2021-004567",
+      institution: "Ranchi University",
+      course: "Bachelor of Technology",
+      year: 2021,
+      marks: { value: 8.4, total: 10, unit: "cgpa" },
+    });
+  });
+
+  it("handles labelled names and percentage marks", () => {
+    const fields = extractFields(
+      "Name of the Candidate: Aarav Kumar\nCourse: B.Sc\nYear of Passing: 2019\nPercentage 76.5%",
+    );
+    expect(fields.name).toBe("Aarav Kumar");
+    expect(fields.course).toBe("B.Sc");
+    expect(fields.year).toBe(2019);
+    expect(fields.marks).toEqual({ value: 76.5, unit: "percent" });
+  });
+});
+
+describe("compareFieldsWithRecord", () => {
+  it("tolerates OCR slips and course abbreviations as fuzzy matches", () => {
+    const fields = extractFields(OCR_TEXT.replace("ISHITA", "ISHlTA"), DEFAULT_TRUST_LIST);
+    const byField = Object.fromEntries(
+      compareFieldsWithRecord(fields, record).map((c) => [c.field, c.status]),
+    );
+    expect(byField).toMatchObject({
+      name: "fuzzy",
+      certificateNumber: "match",
+      institution: "match",
+      course: "fuzzy",
+      year: "match",
+      rollNumber: "unchecked",
+      marks: "unchecked",
+    });
+  });
+
+  it("reports mismatched and missing fields", () => {
+    const comparison = compareFieldsWithRecord(
+      { name: "Rohan Verma", year: 2020 },
+      record,
+    );
+    const byField = Object.fromEntries(comparison.map((c) => [c.field, c.status]));
+    expect(byField.name).toBe("mismatch");
+    expect(byField.year).toBe("mismatch");
+    expect(byField.course).toBe("missing");
+  });
+});
+
+describe("locateText", () => {
+  // "Certificate No: JH-RU- 2021-004567 ... in the year 2021", 20 px per word
+  const words: OcrWord[] = ["Certificate", "No:", "JH-RU-", "2021-004567", "in", "the", "year", "2021"].map(
+    (text, i) => ({ text, x: i * 20, y: i < 4 ? 0 : 30, width: 18, height: 10 }),
+  );
+
+  it("boxes every word a value was split across", () => {
+    expect(locateText("JH-RU-2021-004567", words)).toEqual({ page: undefined, x: 40, y: 0, width: 38, height: 10 });
+  });
+
+  it("prefers a word that is exactly the value over one containing it", () => {
+    expect(locateText("2021", words)).toMatchObject({ x: 140, y: 30 });
+  });
+
+  it("attaches regions to compared fields", () => {
+    const comparison = compareFieldsWithRecord({ certificateNumber: "JH-RU-2021-004567" }, record, words);
+    expect(comparison.find((c) => c.field === "certificateNumber")?.region).toMatchObject({ x: 40, width: 38 });
+    expect(comparison.find((c) => c.field === "name")?.region).toBeUndefined();
+  });
+});
@@ -0,0 +1,261 @@
+import { matchCertificateNumber } from "@shared/certificateNumber";
+import type { TrustList } from "@shared/trustList";
+import type { RegistryRecord } from "./verify";
+
+export type Marks = {
+  value: number;
+  total?: number;
+  unit: "marks" | "percent" | "cgpa";
+};
+
+// Typed fields read from a certificate's OCR text
+export type ExtractedFields = {
+  name?: string;
+  rollNumber?: string;
+  certificateNumber?: string;
+  institution?: string;
+  course?: string;
+  year?: number;
+  marks?: Marks;
+};
+
+export type FieldName = keyof ExtractedFields;
+
+// A recognised word and its box, in pixels of the image OCR ran on
+export type OcrWord = {
+  text: string;
+  page?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type FieldRegion = Omit<OcrWord, "text">;
+
+export type FieldComparison = {
+  field: FieldName;
+  label: string;
+  extracted?: string;
+  expected?: string;
+  // "fuzzy" when the values agree only after allowing for OCR slips or
+  // abbreviations; "unchecked" when the registry has nothing to compare with
+  status: "match" | "fuzzy" | "mismatch" | "missing" | "unchecked";
+  // Where the value was read, when the OCR engine reported word boxes
+  region?: FieldRegion;
+};
+
+export const FIELD_LABELS: Record<FieldName, string> = {
+  name: "Name",
+  rollNumber: "Roll number",
+  certificateNumber: "Certificate number",
+  institution: "Institution",
+  course: "Course",
+  year: "Year",
+  marks: "Marks",
+};
+
+const COURSE_ABBREVIATIONS: [RegExp, string][] = [
+  [/\bbachelor of science\b/, "bsc"],
+  [/\bbachelor of technology\b/, "btech"],
+  [/\bbachelor of engineering\b/, "be"],
+  [/\bbachelor of arts\b/, "ba"],
+  [/\bbachelor of commerce\b/, "bcom"],
+  [/\bmaster of science\b/, "msc"],
+  [/\bmaster of technology\b/, "mtech"],
+  [/\bmaster of arts\b/, "ma"],
+  [/\bmaster of business administration\b/, "mba"],
+];
+
+const COURSE_PATTERN =
+  /\b(?:(?:bachelor|master|doctor) of [a-z ]+?(?=\s*(?:\n|,|\.|\bin\b|\bwith\b|\bfrom\b|$))|b\.?\s?(?:sc|tech|com|a|e)\b\.?|m\.?\s?(?:sc|tech|com|a|ba)\b\.?|ph\.?\s?d\.?)/i;
+
+const normalise = (v: string) =>
+  v.toLowerCase().replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+
+function normaliseCourse(v: string) {
+  let s = v.toLowerCase();
+  for (const [pattern, abbr] of COURSE_ABBREVIATIONS) s = s.replace(pattern, abbr);
+  return s.replace(/[^a-z0-9]/g, "");
+}
+
+function labelled(text: string, labels: string): string | undefined {
+  const m = text.match(new RegExp(`(?:${labels})\\s*(?:no\\.?|number)?\\s*[:.\\-]?\\s*([^\\n]+)`, "i"));
+  return m?.[1].trim() || undefined;
+}
+
+function titleCase(v: string) {
+  return v.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+// "[nm]ame" because OCR engines often read a leading N as M
+function extractName(text: string): string | undefined {
+  const m =
+    text.match(/\b[nm]ame\s*(?:of (?:the )?(?:candidate|student))?\s*[:\-]\s*([A-Za-z][A-Za-z .']+)/i) ||
+    text.match(/certif(?:y|ied) that\s+(?:(?:mr|ms|mrs|shri|smt|kumari)\.?\s+)?([A-Za-z][A-Za-z .']+?)(?=\s*(?:,|\bson\b|\bdaughter\b|\bhas\b|\bs\/o\b|\bd\/o\b|\bwith\b|\n))/i);
+  return m ? titleCase(m[1].trim().replace(/\s+/g, " ")) : undefined;
+}
+
+function extractInstitution(text: string, trustList?: TrustList): string | undefined {
+  const lower = normalise(text);
+  const known = trustList?.institutions.find((i) => lower.includes(normalise(i.name)));
+  if (known) return known.name;
+  const m = text.match(/^.*\b(?:university|institute|college|vidyapeeth)\b.*$/im);
+  return m ? m[0].trim().replace(/\s+/g, " ") : undefined;
+}
+
+function extractYear(text: string): number | undefined {
+  const m =
+    text.match(/\b(?:year of passing|passing year|session|year|examination held in)\b[^0-9\n]{0,20}((?:19|20)\d{2})/i) ||
+    text.match(/\bin (?:the year )?((?:19|20)\d{2})\b/i);
+  if (m) return Number(m[1]);
+  // Fall back to the latest plausible year on the page
+  const years = (text.match(/\b(?:19|20)\d{2}\b/g) || []).map(Number).filter((y) => y <= new Date().getFullYear());
+  return years.length > 0 ? Math.max(...years) : undefined;
+}
+
+function extractMarks(text: string): Marks | undefined {
+  const cgpa = text.match(/\b(?:c\.?g\.?p\.?a|s\.?g\.?p\.?a)\b[^0-9\n]{0,10}(\d{1,2}(?:\.\d{1,2})?)(?:\s*\/\s*(\d{1,2}))?/i);
+  if (cgpa) return { value: Number(cgpa[1]), total: cgpa[2] ? Number(cgpa[2]) : 10, unit: "cgpa" };
+  const marks = text.match(/\b(?:marks|total)(?: obtained)?\b[^0-9\n]{0,10}(\d{1,4}(?:\.\d+)?)\s*(?:\/|out of)\s*(\d{1,4})/i);
+  if (marks) return { value: Number(marks[1]), total: Number(marks[2]), unit: "marks" };
+  const percent = text.match(/\b(\d{1,3}(?:\.\d{1,2})?) *(?:%|per ?cent\b)/i);
+  if (percent && Number(percent[1]) <= 100) return { value: Number(percent[1]), unit: "percent" };
+  return undefined;
+}
+
+export function formatMarks(marks: Marks): string {
+  if (marks.unit === "percent") return `${marks.value}%`;
+  const prefix = marks.unit === "cgpa" ? "CGPA " : "";
+  return `${prefix}${marks.value}${marks.total ? `/${marks.total}` : ""}`;
+}
+
+export function extractFields(text: string, trustList?: TrustList): ExtractedFields {
+  const fields: ExtractedFields = {};
+  if (!text?.trim()) return fields;
+
+  fields.name = extractName(text);
+  const roll = labelled(text, "roll|enrol?ment|registration|reg\\.?");
+  fields.rollNumber = roll?.match(/[A-Z0-9][A-Z0-9/\-]{3,}/i)?.[0];
+  fields.certificateNumber =
+    (trustList && matchCertificateNumber(text, trustList)?.certificateNumber) ||
+    labelled(text, "certificate|serial|sl\\.?")?.match(/[A-Z0-9][A-Z0-9/\-]{3,}/i)?.[0].toUpperCase();
+  fields.institution = extractInstitution(text, trustList);
+  fields.course = text.match(COURSE_PATTERN)?.[0].trim();
+  fields.year = extractYear(text);
+  fields.marks = extractMarks(text);
+
+  for (const key of Object.keys(fields) as FieldName[]) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+  return fields;
+}
+
+// Edit distance, so a name misread by one or two characters still matches
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+function similar(a: string, b: string, tolerance = 0.15): boolean {
+  if (!a || !b) return false;
+  if (a === b || a.includes(b) || b.includes(a)) return true;
+  return levenshtein(a, b) <= Math.floor(Math.max(a.length, b.length) * tolerance);
+}
+
+export function namesMatch(a: string, b: string): boolean {
+  return similar(normalise(a), normalise(b));
+}
+
+function compareField(field: FieldName, extracted: string, expected: string): FieldComparison["status"] {
+  if (normalise(extracted) === normalise(expected)) return "match";
+  let close = false;
+  switch (field) {
+    case "name":
+      close = similar(normalise(extracted), normalise(expected));
+      break;
+    case "institution":
+      close = similar(normalise(extracted), normalise(expected), 0.1);
+      break;
+    case "course":
+      close = normaliseCourse(extracted) === normaliseCourse(expected);
+      break;
+  }
+  return close ? "fuzzy" : "mismatch";
+}
+
+const compact = (v: string) => v.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Finds the run of words a value was read from. Words are joined without
+// spaces, so "JH-RU-2021-004567" is found however the engine split it; a
+// word that is exactly the value beats one that merely contains it.
+export function locateText(value: string, words: OcrWord[]): FieldRegion | undefined {
+  const target = compact(value);
+  if (!target) return undefined;
+  const tolerance = Math.floor(target.length * 0.15);
+  let best: { distance: number; from: number; to: number } | undefined;
+  for (let from = 0; from < words.length; from++) {
+    let joined = "";
+    for (let to = from; to < words.length && words[to].page === words[from].page; to++) {
+      joined += compact(words[to].text);
+      if (joined.length > target.length * 1.5 + 2) break;
+      const distance =
+        joined === target ? 0 : joined.includes(target) ? 0.5 : levenshtein(joined, target);
+      if (distance > Math.max(tolerance, 0.5)) continue;
+      if (!best || distance < best.distance || (distance === best.distance && to - from < best.to - best.from)) {
+        best = { distance, from, to };
+      }
+    }
+  }
+  if (!best) return undefined;
+  const run = words.slice(best.from, best.to + 1);
+  const x = Math.min(...run.map((w) => w.x));
+  const y = Math.min(...run.map((w) => w.y));
+  return {
+    page: run[0].page,
+    x,
+    y,
+    width: Math.max(...run.map((w) => w.x + w.width)) - x,
+    height: Math.max(...run.map((w) => w.y + w.height)) - y,
+  };
+}
+
+export function compareFieldsWithRecord(
+  fields: ExtractedFields,
+  record?: RegistryRecord,
+  words: OcrWord[] = [],
+): FieldComparison[] {
+  const expected: Partial<Record<FieldName, string>> = record
+    ? {
+        name: record.name,
+        certificateNumber: record.certificateNumber,
+        institution: record.institution,
+        course: record.course,
+        year: record.year ? String(record.year) : undefined,
+      }
+    : {};
+
+  return (Object.keys(FIELD_LABELS) as FieldName[]).map((field) => {
+    const value = fields[field];
+    const extracted =
+      value === undefined ? undefined : field === "marks" ? formatMarks(value as Marks) : String(value);
+    const want = expected[field];
+    let status: FieldComparison["status"] = "unchecked";
+    if (want !== undefined) {
+      status = extracted === undefined ? "missing" : compareField(field, extracted, want);
+    }
+    // Marks are printed as the bare number, not in formatMarks' shape
+    const printed = field === "marks" ? String((value as Marks | undefined)?.value ?? "") : extracted;
+    const region = printed && words.length > 0 ? locateText(printed, words) : undefined;
+    return { field, label: FIELD_LABELS[field], extracted, expected: want, status, ...(region && { region }) };
+  });
+}
@@ -0,0 +1,88 @@
+import { afterAll, describe, it, expect } from "vitest";
+import { createRequire } from "module";
+import path from "path";
+import { DEFAULT_TRUST_LIST } from "@shared/trustList";
+import { recognizeOffline, setOfflineOcrOptions, terminateOfflineOcr } from "./offlineOcr";
+import { extractFields, locateText } from "./ocrFields";
+
+const require = createRequire(import.meta.url);
+
+// 5x7 bitmap glyphs, enough to render a certificate number and a name
+const FONT: Record<string, string[]> = {
+  "0": ["01110", "10001", "10001", "10001", "10001", "10001", "01110"],
+  "1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+  "2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+  "4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+  "5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+  "6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+  "7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+  "-": ["00000", "00000", "00000", "11111", "00000", "00000", "00000"],
+  ":": ["00000", "01100", "01100", "00000", "01100", "01100", "00000"],
+  " ": ["00000", "00000", "00000", "00000", "00000", "00000", "00000"],
+  A: ["01110", "10001", "10001", "11111", "10001", "10001", "10001"],
+  E: ["11111", "10000", "10000", "11110", "10000", "10000", "11111"],
+  G: ["01110", "10001", "10000", "10111", "10001", "10001", "01111"],
+  H: ["10001", "10001", "10001", "11111", "10001", "10001", "10001"],
+  I: ["01110", "00100", "00100", "00100", "00100", "00100", "01110"],
+  J: ["00111", "00010", "00010", "00010", "00010", "10010", "01100"],
+  M: ["11011", "10101", "10101", "10101", "10001", "10001", "10001"],
+  N: ["10001", "11001", "11001", "10101", "10011", "10011", "10001"],
+  R: ["11110", "10001", "10001", "11110", "10100", "10010", "10001"],
+  S: ["01111", "10000", "10000", "01110", "00001", "00001", "11110"],
+  T: ["11111", "00100", "00100", "00100", "00100", "00100", "00100"],
+  U: ["10001", "10001", "10001", "10001", "10001", "10001", "01110"],
+};
+
+// Binary PGM, which Tesseract's image loader reads without a canvas
+function renderText(lines: string[], scale = 4, margin = 24): Blob {
+  const charWidth = 6 * scale;
+  const lineHeight = 10 * scale;
+  const width = Math.max(...lines.map((l) => l.length)) * charWidth + 2 * margin;
+  const height = lines.length * lineHeight + 2 * margin;
+  const pixels = new Uint8Array(width * height).fill(255);
+  lines.forEach((line, li) =>
+    [...line].forEach((ch, ci) =>
+      FONT[ch].forEach((row, ry) =>
+        [...row].forEach((bit, rx) => {
+          if (bit !== "1") return;
+          for (let dy = 0; dy < scale; dy++) {
+            for (let dx = 0; dx < scale; dx++) {
+              const y = margin + li * lineHeight + ry * scale + dy;
+              const x = margin + ci * charWidth + rx * scale + dx;
+              pixels[y * width + x] = 0;
+            }
+          }
+        }),
+      ),
+    ),
+  );
+  return new Blob([`P5\n${width} ${height}\n255\n`, pixels]);
+}
+
+describe("recognizeOffline", () => {
+  setOfflineOcrOptions({
+    languages: ["eng"],
+    langPath: path.dirname(
+      require.resolve("@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz"),
+    ),
+  });
+  afterAll(() => terminateOfflineOcr());
+
+  it("reads a certificate number and name from an image", async () => {
+    const image = renderText(["JH-RU-2021-004567", "NAME: ISHITA SINGH"]);
+    const { text, confidence, words } = await recognizeOffline(image);
+    expect(confidence).toBeGreaterThan(30);
+    // The number is on the first line, just inside the 24 px margin
+    expect(locateText("JH-RU-2021-004567", words)?.y).toBeLessThan(40);
+
+    const fields = extractFields(text, DEFAULT_TRUST_LIST);
+    expect(fields.certificateNumber).toBe("JH-RU-2021-004567");
+    expect(fields.name).toBe("Ishita Singh");
+  }, 60_000);
+
+  it("rejects with an AbortError when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(recognizeOffline(renderText(["2021"]), controller.signal)).rejects.toThrow();
+  });
+});
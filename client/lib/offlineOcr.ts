@@ -0,0 +1,103 @@
+import { createWorker, OEM, type Worker } from "tesseract.js";
+import type { OcrWord } from "./ocrFields";
+
+// Tesseract runs in its own Web Worker (a worker thread under Node). The
+// worker script, WASM core and language data are bundled and served from
+// /ocr by the Vite config, so nothing is fetched from a CDN.
+export type OfflineOcrOptions = {
+  languages: string[];
+  workerPath?: string;
+  corePath?: string;
+  langPath?: string;
+};
+
+export type OfflineOcrResult = {
+  text: string;
+  // Mean word confidence, 0-100
+  confidence: number;
+  // In reading order, boxed in pixels of the recognised image
+  words: OcrWord[];
+};
+
+const inBrowser = typeof window !== "undefined";
+
+let options: OfflineOcrOptions = {
+  languages: ["eng", "hin"],
+  ...(inBrowser && {
+    workerPath: "/ocr/worker.min.js",
+    corePath: "/ocr/core",
+    langPath: "/ocr/lang",
+  }),
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+// Blob-URL workers can't resolve root-relative paths
+const absolute = (p?: string) => (p && inBrowser ? new URL(p, window.location.href).href : p);
+
+function getWorker(): Promise<Worker> {
+  const { languages, workerPath, corePath, langPath } = options;
+  workerPromise ??= createWorker(languages, OEM.LSTM_ONLY, {
+    // Unset paths fall back to tesseract.js defaults (its Node worker)
+    ...(workerPath && { workerPath: absolute(workerPath) }),
+    ...(corePath && { corePath: absolute(corePath) }),
+    ...(langPath && { langPath: absolute(langPath) }),
+    gzip: true,
+    // Language data is cached in IndexedDB after the first load
+    cacheMethod: inBrowser ? "write" : "none",
+  }).catch((e) => {
+    workerPromise = null;
+    throw e;
+  });
+  return workerPromise;
+}
+
+export function setOfflineOcrOptions(next: Partial<OfflineOcrOptions>) {
+  options = { ...options, ...next };
+  void terminateOfflineOcr();
+}
+
+export async function terminateOfflineOcr() {
+  const pending = workerPromise;
+  workerPromise = null;
+  if (pending) await (await pending.catch(() => null))?.terminate();
+}
+
+// Tesseract can't cancel a recognition, so aborting tears the worker down;
+// the next call starts a fresh one.
+export async function recognizeOffline(
+  image: Blob,
+  signal?: AbortSignal,
+): Promise<OfflineOcrResult> {
+  signal?.throwIfAborted();
+  const worker = await getWorker();
+  // Raw bytes work in both the browser and Node builds of tesseract.js
+  const bytes = new Uint8Array(await image.arrayBuffer());
+
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      void terminateOfflineOcr();
+      reject(new DOMException("Verification cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    const { data } = await Promise.race([
+      worker.recognize(bytes as unknown as Buffer, {}, { blocks: true }),
+      aborted,
+    ]);
+    const words = (data.blocks ?? [])
+      .flatMap((b) => b.paragraphs.flatMap((p) => p.lines.flatMap((l) => l.words)))
+      .map(({ text, bbox }) => ({
+        text,
+        x: bbox.x0,
+        y: bbox.y0,
+        width: bbox.x1 - bbox.x0,
+        height: bbox.y1 - bbox.y0,
+      }));
+    return { text: data.text, confidence: data.confidence, words };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,76 @@
+import * as pdfjs from "pdfjs-dist";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+export type RenderedPage = {
+  page: number;
+  width: number;
+  height: number;
+  image: File;
+};
+
+export type RenderedPdf = {
+  // Pages in the document, including any beyond maxPages
+  pageCount: number;
+  pages: RenderedPage[];
+};
+
+// Enough resolution for QR decoding and OCR without blowing up memory on
+// multi-page transcripts.
+const DEFAULT_SCALE = 2;
+export const MAX_PDF_PAGES = 10;
+
+// Render the first maxPages pages of a PDF to PNGs so the image-based
+// checks (QR, OCR, ML) can run on them.
+export async function renderPdfPages(
+  file: File,
+  opts: { scale?: number; maxPages?: number; signal?: AbortSignal } = {},
+): Promise<RenderedPdf> {
+  const scale = opts.scale ?? DEFAULT_SCALE;
+  const maxPages = opts.maxPages ?? MAX_PDF_PAGES;
+  const data = new Uint8Array(await file.arrayBuffer());
+  const doc = await pdfjs.getDocument({ data }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, "");
+  const pages: RenderedPage[] = [];
+  const pageCount = doc.numPages;
+
+  try {
+    const count = Math.min(doc.numPages, maxPages);
+    for (let n = 1; n <= count; n++) {
+      opts.signal?.throwIfAborted();
+      const page = await doc.getPage(n);
+      const viewport = page.getViewport({ scale });
+      const width = Math.ceil(viewport.width);
+      const height = Math.ceil(viewport.height);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      // White background so transparent PDFs don't render as black for OCR
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, width, height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      const blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(
+          (b) => (b ? resolve(b) : reject(new Error("Failed to encode page"))),
+          "image/png",
+        ),
+      );
+      pages.push({
+        page: n,
+        width,
+        height,
+        image: new File([blob], `${baseName}-page-${n}.png`, {
+          type: "image/png",
+        }),
+      });
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  return { pageCount, pages };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import * as asn1js from "asn1js";
+import * as pkijs from "pkijs";
+import {
+  findSignatureFields,
+  hasContentAfter,
+  resolveIncrementalUpdates,
+  verifySignerChain,
+  type PdfSignatureCheck,
+} from "./pdfSignature";
+
+function buildSignedPdf(trailer = "") {
+  const head = "%PDF-1.7\n1 0 obj\n<< /Type /Sig /SubFilter /ETSI.CAdES.detached /Name (Registrar) /M (D:20240115103000+05'30') /ByteRange [0 AAAA BBBB CCCC] /Contents ";
+  const contents = "<" + "30".repeat(8) + "0".repeat(16) + ">";
+  const tail = " >>\nendobj\n%%EOF\n";
+  // Fixed-width placeholders keep offsets stable once the numbers are filled in
+  const a = head.length;
+  const c = a + contents.length;
+  const total = c + tail.length;
+  const pad = (n: number) => String(n).padStart(4, "0");
+  const filledHead = head
+    .replace("AAAA", pad(a))
+    .replace("BBBB", pad(c))
+    .replace("CCCC", pad(total - c));
+  return new TextEncoder().encode(filledHead + contents + tail + trailer);
+}
+
+describe("findSignatureFields", () => {
+  it("locates the byte range, contents and dictionary entries", () => {
+    const bytes = buildSignedPdf();
+    const [field] = findSignatureFields(bytes);
+    expect(field).toBeDefined();
+    expect(field.byteRange[0]).toBe(0);
+    expect(field.byteRange[2] + field.byteRange[3]).toBe(bytes.length);
+    expect(field.contentsHex.startsWith("3030")).toBe(true);
+    expect(field.dictionary).toContain("/SubFilter /ETSI.CAdES.detached");
+  });
+
+  it("ignores byte ranges that do not bracket a hex string", () => {
+    const bytes = new TextEncoder().encode("/ByteRange [0 5 9 1] xxxxxxxxxx");
+    expect(findSignatureFields(bytes)).toHaveLength(0);
+  });
+});
+
+describe("hasContentAfter", () => {
+  it("treats trailing EOF markers as unmodified", () => {
+    const bytes = buildSignedPdf();
+    const [field] = findSignatureFields(bytes);
+    expect(hasContentAfter(bytes, field.byteRange[2] + field.byteRange[3])).toBe(false);
+  });
+
+  it("detects incremental updates appended after signing", () => {
+    const bytes = buildSignedPdf("2 0 obj\n<< /Annot >>\nendobj\n%%EOF\n");
+    const [field] = findSignatureFields(bytes);
+    expect(hasContentAfter(bytes, field.byteRange[2] + field.byteRange[3])).toBe(true);
+  });
+});
+
+describe("resolveIncrementalUpdates", () => {
+  // First signature covers bytes 0-99, a second one appended up to 199
+  const bytes = new TextEncoder().encode("x".repeat(200) + "%%EOF\n");
+  const check = (end: number, valid = true): PdfSignatureCheck => ({
+    byteRange: [0, 10, 20, end - 20],
+    digestValid: valid,
+    signatureValid: valid,
+    coversWholeDocument: false,
+    modifiedAfterSigning: true,
+    chainValid: true,
+    chainErrors: [],
+  });
+
+  it("doesn't flag an earlier signature covered by a later intact one", () => {
+    const last = { ...check(200), coversWholeDocument: true, modifiedAfterSigning: false };
+    const [first, second] = resolveIncrementalUpdates(bytes, [check(100), last]);
+    expect(first.modifiedAfterSigning).toBe(false);
+    expect(second.modifiedAfterSigning).toBe(false);
+  });
+
+  it("still flags content that no intact signature covers", () => {
+    const [first] = resolveIncrementalUpdates(bytes, [check(100), check(150)]);
+    expect(first.modifiedAfterSigning).toBe(true);
+    const [alone] = resolveIncrementalUpdates(bytes, [check(100), check(200, false)]);
+    expect(alone.modifiedAfterSigning).toBe(true);
+  });
+});
+
+describe("verifySignerChain", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const generateKeys = () =>
+    crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  const name = (cn: string) => {
+    const dn = new pkijs.RelativeDistinguishedNames();
+    dn.typesAndValues.push(
+      new pkijs.AttributeTypeAndValue({ type: "2.5.4.3", value: new asn1js.Utf8String({ value: cn }) }),
+    );
+    return dn;
+  };
+
+  async function certificate(
+    cn: string,
+    keys: CryptoKeyPair,
+    issuer?: { cn: string; keys: CryptoKeyPair },
+    ca = false,
+  ) {
+    const cert = new pkijs.Certificate();
+    cert.version = 2;
+    cert.serialNumber = new asn1js.Integer({ value: Math.floor(Math.random() * 1e6) });
+    cert.subject = name(cn);
+    cert.issuer = name(issuer?.cn ?? cn);
+    cert.notBefore.value = new Date(Date.now() - DAY);
+    cert.notAfter.value = new Date(Date.now() + 365 * DAY);
+    cert.extensions = [
+      new pkijs.Extension({
+        extnID: "2.5.29.19",
+        critical: true,
+        extnValue: new pkijs.BasicConstraints({ cA: ca }).toSchema().toBER(false),
+      }),
+    ];
+    await cert.subjectPublicKeyInfo.importKey(keys.publicKey);
+    await cert.sign((issuer?.keys ?? keys).privateKey, "SHA-256");
+    return cert;
+  }
+
+  it("accepts a signer issued by a trust anchor", async () => {
+    const anchorKeys = await generateKeys();
+    const anchor = await certificate("Registrar Root", anchorKeys, undefined, true);
+    const signer = await certificate("Registrar", await generateKeys(), { cn: "Registrar Root", keys: anchorKeys });
+    expect((await verifySignerChain(signer, [signer], [anchor], new Date())).result).toBe(true);
+  });
+
+  it("rejects a self-signed signer that embeds a trusted chain", async () => {
+    const anchorKeys = await generateKeys();
+    const anchor = await certificate("Registrar Root", anchorKeys, undefined, true);
+    // Anyone can copy the genuine signer's certificate out of a real PDF
+    const genuine = await certificate("Registrar", await generateKeys(), { cn: "Registrar Root", keys: anchorKeys });
+    const forger = await certificate("Registrar", await generateKeys());
+    // Embedded last, where the engine would otherwise take it for the leaf
+    const { result } = await verifySignerChain(forger, [forger, genuine], [anchor], new Date());
+    expect(result).toBe(false);
+  });
+});
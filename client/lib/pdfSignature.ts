@@ -0,0 +1,356 @@
+import * as asn1js from "asn1js";
+import * as pkijs from "pkijs";
+import { parsePdfDate, toLatin1 } from "./pdfText";
+
+export type PdfSignatureCheck = {
+  subFilter?: string;
+  reason?: string;
+  signerName?: string;
+  signerOrganization?: string;
+  // As claimed by the signer; informational only
+  signingTime?: string;
+  // From an RFC 3161 timestamp token whose authority chains to a trust anchor
+  timestampTime?: string;
+  digestAlgorithm?: string;
+  byteRange: [number, number, number, number];
+  digestValid: boolean;
+  signatureValid: boolean;
+  coversWholeDocument: boolean;
+  modifiedAfterSigning: boolean;
+  chainValid: boolean;
+  chainErrors: string[];
+};
+
+// A /ByteRange + /Contents pair located in the raw PDF bytes
+export type SignatureField = {
+  byteRange: [number, number, number, number];
+  contentsHex: string;
+  dictionary: string;
+};
+
+const OID_MESSAGE_DIGEST = "1.2.840.113549.1.9.4";
+const OID_SIGNING_TIME = "1.2.840.113549.1.9.5";
+const OID_TIMESTAMP_TOKEN = "1.2.840.113549.1.9.16.2.14";
+const OID_COMMON_NAME = "2.5.4.3";
+const OID_ORGANIZATION = "2.5.4.10";
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  "1.3.14.3.2.26": "SHA-1",
+  "2.16.840.1.101.3.4.2.1": "SHA-256",
+  "2.16.840.1.101.3.4.2.2": "SHA-384",
+  "2.16.840.1.101.3.4.2.3": "SHA-512",
+};
+
+// Trust anchors for signer certificate chains. Seeded from
+// VITE_PDF_TRUST_ANCHORS (concatenated PEM blocks) and replaceable at runtime.
+let trustAnchorPems: string[] = splitPem(
+  (typeof import.meta !== "undefined" && import.meta.env?.VITE_PDF_TRUST_ANCHORS) || "",
+);
+
+export function setPdfTrustAnchors(pems: string[]) {
+  trustAnchorPems = pems.flatMap(splitPem);
+}
+
+export function getPdfTrustAnchors(): string[] {
+  return [...trustAnchorPems];
+}
+
+function splitPem(input: string): string[] {
+  return (
+    input.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || []
+  );
+}
+
+function pemToCertificate(pem: string): pkijs.Certificate {
+  const b64 = pem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, "")
+    .replace(/\s+/g, "");
+  const der = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+  return pkijs.Certificate.fromBER(der);
+}
+
+function hexToBytes(hex: string) {
+  const clean = hex.replace(/[^0-9a-f]/gi, "");
+  const out = new Uint8Array(clean.length >> 1);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return out;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+// Find every signature dictionary by its /ByteRange. The signature value
+// always sits in the gap between the two covered ranges.
+export function findSignatureFields(bytes: Uint8Array): SignatureField[] {
+  const text = toLatin1(bytes);
+  const fields: SignatureField[] = [];
+  const re = /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const byteRange = [m[1], m[2], m[3], m[4]].map(Number) as SignatureField["byteRange"];
+    const [a, b, c, d] = byteRange;
+    if (a + b > c || c + d > bytes.length) continue;
+    const gap = text.slice(a + b, c);
+    if (!gap.startsWith("<") || !gap.endsWith(">")) continue;
+
+    const dictStart = Math.max(0, text.lastIndexOf("<<", Math.min(m.index, a + b)));
+    const endObj = text.indexOf("endobj", c);
+    const dictEnd = endObj === -1 ? Math.min(text.length, c + 2048) : endObj;
+    fields.push({
+      byteRange,
+      contentsHex: gap.slice(1, -1),
+      dictionary:
+        m.index < a + b
+          ? text.slice(dictStart, a + b) + text.slice(c, dictEnd)
+          : text.slice(c, dictEnd),
+    });
+  }
+  return fields;
+}
+
+// Anything beyond whitespace and end-of-file markers after the last signed
+// byte means an incremental update was appended after signing.
+export function hasContentAfter(bytes: Uint8Array, offset: number): boolean {
+  const rest = toLatin1(bytes.subarray(offset));
+  return rest.replace(/%%EOF/g, "").trim().length > 0;
+}
+
+function dictString(dictionary: string, key: string): string | undefined {
+  const m = dictionary.match(new RegExp(`/${key}\\s*\\(((?:\\\\.|[^\\\\)])*)\\)`));
+  return m ? m[1].replace(/\\(.)/g, "$1") : undefined;
+}
+
+function dictName(dictionary: string, key: string): string | undefined {
+  const m = dictionary.match(new RegExp(`/${key}\\s*/([^\\s/<>\\[\\]()]+)`));
+  return m ? m[1] : undefined;
+}
+
+function subjectValue(cert: pkijs.Certificate, oid: string): string | undefined {
+  const tv = cert.subject.typesAndValues.find((t) => t.type === oid);
+  return tv ? String(tv.value.valueBlock.value) : undefined;
+}
+
+function findSignerCertificate(
+  signedData: pkijs.SignedData,
+  signerInfo: pkijs.SignerInfo,
+): pkijs.Certificate | undefined {
+  const certs = (signedData.certificates || []).filter(
+    (c): c is pkijs.Certificate => c instanceof pkijs.Certificate,
+  );
+  const sid = signerInfo.sid;
+  if (sid instanceof pkijs.IssuerAndSerialNumber) {
+    return certs.find(
+      (c) =>
+        c.issuer.isEqual(sid.issuer) &&
+        c.serialNumber.isEqual(sid.serialNumber),
+    );
+  }
+  return certs[0];
+}
+
+// The time in an RFC 3161 timestamp over the signature value, if the token
+// is intact, signed by an authority that chains to a trust anchor, and
+// actually stamps this signature
+async function trustedTimestamp(
+  signerInfo: pkijs.SignerInfo,
+  trustedCerts: pkijs.Certificate[],
+): Promise<Date | undefined> {
+  const attr = signerInfo.unsignedAttrs?.attributes.find((a) => a.type === OID_TIMESTAMP_TOKEN);
+  if (!attr || trustedCerts.length === 0) return undefined;
+  try {
+    const token = new pkijs.ContentInfo({ schema: attr.values[0] });
+    const tokenData = new pkijs.SignedData({ schema: token.content });
+    const verified = await tokenData.verify({
+      signer: 0,
+      checkChain: true,
+      trustedCerts,
+      extendedMode: true,
+    });
+    if (!verified.signatureVerified || !verified.signerCertificateVerified) return undefined;
+    const eContent = tokenData.encapContentInfo.eContent;
+    if (!eContent) return undefined;
+    const tstInfo = pkijs.TSTInfo.fromBER(new Uint8Array(eContent.valueBlock.valueHexView));
+    const stamped = await tstInfo.verify({
+      data: new Uint8Array(signerInfo.signature.valueBlock.valueHexView).buffer,
+    });
+    return stamped ? tstInfo.genTime : undefined;
+  } catch (e) {
+    console.warn("⚠️ Ignoring unverifiable signature timestamp:", e);
+    return undefined;
+  }
+}
+
+// The engine takes the last of its certs as the leaf, so the signer's
+// certificate goes last: otherwise a self-signed signer could embed some
+// genuine certificate that chains to an anchor and have that validated
+// instead of itself
+export async function verifySignerChain(
+  signerCert: pkijs.Certificate,
+  embedded: pkijs.Certificate[],
+  trustedCerts: pkijs.Certificate[],
+  checkDate: Date,
+): Promise<{ result: boolean; resultMessage?: string }> {
+  const chain = new pkijs.CertificateChainValidationEngine({
+    trustedCerts,
+    certs: [...embedded.filter((cert) => cert !== signerCert), signerCert],
+    checkDate,
+  });
+  return chain.verify();
+}
+
+async function checkSignature(
+  bytes: Uint8Array,
+  field: SignatureField,
+  anchorPems: string[],
+): Promise<PdfSignatureCheck> {
+  const [a, b, c, d] = field.byteRange;
+  const signedBytes = new Uint8Array(b + d);
+  signedBytes.set(bytes.subarray(a, a + b), 0);
+  signedBytes.set(bytes.subarray(c, c + d), b);
+
+  const coversWholeDocument = a === 0 && c + d === bytes.length;
+  const check: PdfSignatureCheck = {
+    subFilter: dictName(field.dictionary, "SubFilter"),
+    reason: dictString(field.dictionary, "Reason"),
+    signerName: dictString(field.dictionary, "Name"),
+    signingTime: parsePdfDate(dictString(field.dictionary, "M")),
+    byteRange: field.byteRange,
+    digestValid: false,
+    signatureValid: false,
+    coversWholeDocument,
+    // Refined by verifyPdfSignatures once later signatures are known
+    modifiedAfterSigning: !coversWholeDocument && hasContentAfter(bytes, c + d),
+    chainValid: false,
+    chainErrors: [],
+  };
+
+  const contentInfo = pkijs.ContentInfo.fromBER(hexToBytes(field.contentsHex));
+  const signedData = new pkijs.SignedData({ schema: contentInfo.content });
+  const signerInfo = signedData.signerInfos[0];
+  if (!signerInfo) {
+    check.chainErrors.push("Signature contains no signer information");
+    return check;
+  }
+
+  const digestName = DIGEST_ALGORITHMS[signerInfo.digestAlgorithm.algorithmId];
+  check.digestAlgorithm = digestName || signerInfo.digestAlgorithm.algorithmId;
+
+  const attrs = signerInfo.signedAttrs?.attributes || [];
+  const messageDigest = attrs.find((attr) => attr.type === OID_MESSAGE_DIGEST);
+  if (messageDigest && digestName) {
+    const actual = new Uint8Array(await crypto.subtle.digest(digestName, signedBytes));
+    const expected = (messageDigest.values[0] as asn1js.OctetString).valueBlock.valueHexView;
+    check.digestValid = bytesEqual(actual, expected);
+  }
+
+  const signingTime = attrs.find((attr) => attr.type === OID_SIGNING_TIME);
+  if (signingTime) {
+    const value = signingTime.values[0] as asn1js.UTCTime | asn1js.GeneralizedTime;
+    check.signingTime = value.toDate().toISOString();
+  }
+
+  const signerCert = findSignerCertificate(signedData, signerInfo);
+  if (signerCert) {
+    check.signerName = subjectValue(signerCert, OID_COMMON_NAME) || check.signerName;
+    check.signerOrganization = subjectValue(signerCert, OID_ORGANIZATION);
+  }
+
+  try {
+    const verified = await signedData.verify({
+      signer: 0,
+      data: signedBytes.buffer,
+      checkChain: false,
+      extendedMode: true,
+    });
+    check.signatureValid = !!verified.signatureVerified;
+    // Signatures without signed attributes digest the content directly
+    if (!messageDigest) check.digestValid = check.signatureValid;
+  } catch (e) {
+    const err = e as pkijs.SignedDataVerifyError;
+    check.signatureValid = !!err.signatureVerified;
+  }
+
+  if (!signerCert) {
+    check.chainErrors.push("Signer certificate not embedded in signature");
+    return check;
+  }
+
+  const trustedCerts = anchorPems.flatMap((pem) => {
+    try {
+      return [pemToCertificate(pem)];
+    } catch {
+      return [];
+    }
+  });
+  if (trustedCerts.length === 0) {
+    check.chainErrors.push("No trust anchors configured for PDF signatures");
+    return check;
+  }
+
+  // The signer can claim any signing time, so only a trusted timestamp may
+  // move validation back to when a since-expired certificate was current
+  const timestamp = await trustedTimestamp(signerInfo, trustedCerts);
+  if (timestamp) check.timestampTime = timestamp.toISOString();
+  const chainResult = await verifySignerChain(
+    signerCert,
+    (signedData.certificates || []).filter((cert): cert is pkijs.Certificate => cert instanceof pkijs.Certificate),
+    trustedCerts,
+    timestamp ?? new Date(),
+  );
+  check.chainValid = chainResult.result;
+  if (!chainResult.result) {
+    check.chainErrors.push(chainResult.resultMessage || "Certificate chain validation failed");
+  }
+
+  return check;
+}
+
+// In a multi-signed PDF each later signature is an incremental update
+// appended after the earlier ones. Content after a signature only counts as
+// a modification when no later intact signature covers it.
+export function resolveIncrementalUpdates(bytes: Uint8Array, checks: PdfSignatureCheck[]): PdfSignatureCheck[] {
+  const coveredEnd = Math.max(
+    0,
+    ...checks
+      .filter((c) => c.byteRange[0] === 0 && c.digestValid && c.signatureValid)
+      .map((c) => c.byteRange[2] + c.byteRange[3]),
+  );
+  return checks.map((check) => {
+    const end = check.byteRange[2] + check.byteRange[3];
+    if (check.coversWholeDocument || coveredEnd <= end) return check;
+    return { ...check, modifiedAfterSigning: hasContentAfter(bytes, coveredEnd) };
+  });
+}
+
+// Validate every embedded PAdES/CMS signature in a PDF. Extra anchors (e.g.
+// from the issuer trust list) are trusted alongside the configured ones.
+export async function verifyPdfSignatures(
+  buffer: ArrayBuffer,
+  extraAnchorPems: string[] = [],
+): Promise<PdfSignatureCheck[]> {
+  const bytes = new Uint8Array(buffer);
+  const anchorPems = [...trustAnchorPems, ...extraAnchorPems.flatMap(splitPem)];
+  const checks: PdfSignatureCheck[] = [];
+  for (const field of findSignatureFields(bytes)) {
+    try {
+      checks.push(await checkSignature(bytes, field, anchorPems));
+    } catch (e) {
+      const [a, , c, d] = field.byteRange;
+      checks.push({
+        byteRange: field.byteRange,
+        digestValid: false,
+        signatureValid: false,
+        coversWholeDocument: a === 0 && c + d === bytes.length,
+        modifiedAfterSigning: hasContentAfter(bytes, c + d),
+        chainValid: false,
+        chainErrors: [
+          `Unreadable signature: ${e instanceof Error ? e.message : String(e)}`,
+        ],
+      });
+    }
+  }
+  return resolveIncrementalUpdates(bytes, checks);
+}
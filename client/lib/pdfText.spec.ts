@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { parsePdfDate, toLatin1 } from "./pdfText";
+
+describe("parsePdfDate", () => {
+  it("parses dates with timezone offsets", () => {
+    expect(parsePdfDate("D:20240115103000+05'30'")).toBe("2024-01-15T05:00:00.000Z");
+  });
+
+  it("returns undefined for malformed values", () => {
+    expect(parsePdfDate("yesterday")).toBeUndefined();
+  });
+});
+
+describe("toLatin1", () => {
+  it("maps each byte to one character, past the spread-argument limit", () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 3).fill(0xe9);
+    const text = toLatin1(bytes);
+    expect(text.length).toBe(bytes.length);
+    expect(text.charCodeAt(text.length - 1)).toBe(0xe9);
+  });
+});
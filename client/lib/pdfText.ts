@@ -0,0 +1,24 @@
+// Byte and date helpers for reading raw PDF syntax. Free of dependencies so
+// metadata parsing doesn't pull pkijs or pdf.js into the main bundle.
+
+export function toLatin1(bytes: Uint8Array): string {
+  let out = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    out += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return out;
+}
+
+// PDF dates look like D:20240115103000+05'30'
+export function parsePdfDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const m = value.match(
+    /D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/,
+  );
+  if (!m) return undefined;
+  const [, y, mo = "01", d = "01", h = "00", mi = "00", s = "00", tz, tzh = "00", tzm = "00"] = m;
+  const offset = !tz || /z/i.test(tz) ? "Z" : `${tz}${tzh}:${tzm}`;
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,100 @@
+import { apiClient } from "@shared/api";
+import type { SealCheckResponse, StoredVerification } from "@shared/verifications";
+import { sealReport, type SealedReport, type VerificationReport } from "./report";
+import type { VerificationResult } from "./verify";
+
+export type Permalink = {
+  id: string;
+  url: string;
+  // False when only this browser has the report, so the link won't open elsewhere
+  shared: boolean;
+};
+
+export type StoredReport = StoredVerification<VerificationReport>;
+
+const LOCAL_KEY = "verifications:local";
+// Offline results kept in this browser, newest last
+const MAX_LOCAL = 50;
+
+function readLocal(): StoredReport[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) || "[]");
+  } catch {
+    localStorage.removeItem(LOCAL_KEY);
+    return [];
+  }
+}
+
+function writeLocal(stored: StoredReport) {
+  if (typeof localStorage === "undefined") return;
+  const kept = readLocal().filter((s) => s.id !== stored.id);
+  kept.push(stored);
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(kept.slice(-MAX_LOCAL)));
+}
+
+// The backend's upload ID when it took part, otherwise a random one
+export function verificationId(result: VerificationResult): string {
+  return result.metadata.uploadId ?? crypto.randomUUID();
+}
+
+export function permalinkUrl(id: string): string {
+  return `${window.location.origin}/verify/${encodeURIComponent(id)}`;
+}
+
+// Seals the result and stores it under a stable ID. The report is kept in
+// this browser as well, so the link works here even if the server is down
+// or the user isn't signed in (the server only stores signed-in users' reports).
+export async function saveVerification(result: VerificationResult, id = verificationId(result)): Promise<Permalink> {
+  const sealed: SealedReport = await sealReport(result);
+  writeLocal({ id, storedAt: new Date().toISOString(), ...sealed });
+  let shared = false;
+  try {
+    const response = await fetch(`/api/verifications/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+      body: JSON.stringify(sealed),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Verification store error: ${response.status}`);
+    }
+    shared = true;
+  } catch (e) {
+    console.warn("⚠️ Couldn't store verification on the server, keeping it locally:", e);
+  }
+  return { id, url: permalinkUrl(id), shared };
+}
+
+export async function loadVerification(id: string, signal?: AbortSignal): Promise<StoredReport | null> {
+  try {
+    const response = await fetch(`/api/verifications/${encodeURIComponent(id)}`, { signal });
+    if (response.ok) return await response.json();
+    if (response.status !== 404) throw new Error(`Verification store error: ${response.status}`);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("⚠️ Verification store unavailable, checking this browser:", e);
+  }
+  return readLocal().find((s) => s.id === id) ?? null;
+}
+
+// Asks the server whether it sealed exactly this report under this ID.
+// Null when there's no seal to check or the server can't be reached.
+export async function checkReportSeal(stored: StoredReport, signal?: AbortSignal): Promise<boolean | null> {
+  if (!stored.seal) return null;
+  try {
+    const response = await fetch(`/api/verifications/${encodeURIComponent(stored.id)}/check`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ report: stored.report, digest: stored.digest, seal: stored.seal }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Verification store error: ${response.status}`);
+    const { valid }: SealCheckResponse = await response.json();
+    return valid;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("⚠️ Couldn't check the report seal:", e);
+    return null;
+  }
+}
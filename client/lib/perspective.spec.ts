@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyHomography,
+  detectDocumentQuad,
+  estimateSkew,
+  fullFrame,
+  homography,
+  isFullFrame,
+  planCorrection,
+  warpQuad,
+  type Quad,
+} from "./perspective";
+import type { Pixels } from "./pixels";
+
+// A white page with dark horizontal "text lines", as seen through `quad`
+// on a grey table
+function photo(width: number, height: number, quad: Quad): Pixels {
+  const page = { width: 300, height: 240 };
+  const toPage = homography(quad, fullFrame(page.width, page.height));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(toPage, { x: x + 0.5, y: y + 0.5 });
+      const onPage = p.x >= 0 && p.y >= 0 && p.x < page.width && p.y < page.height;
+      const text = onPage && p.x > 30 && p.x < 270 && p.y > 30 && p.y < 210 && p.y % 20 < 5;
+      const v = !onPage ? 70 : text ? 20 : 245;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = v;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+// A page filling the frame, its lines sloping by `degrees`
+function skewedPage(width: number, height: number, degrees: number): Pixels {
+  const slope = Math.tan((degrees * Math.PI) / 180);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const c = y - x * slope;
+      const text = x > 40 && x < width - 40 && c > 20 && c < height - 60 && c % 24 < 6;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = text ? 20 : 245;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+describe("perspective correction", () => {
+  const quad: Quad = [
+    { x: 120, y: 60 },
+    { x: 500, y: 95 },
+    { x: 470, y: 400 },
+    { x: 90, y: 370 },
+  ];
+
+  it("finds the corners of a page photographed at an angle", () => {
+    const found = detectDocumentQuad(photo(600, 450, quad));
+    found.forEach((corner, i) => {
+      expect(Math.hypot(corner.x - quad[i].x, corner.y - quad[i].y)).toBeLessThan(8);
+    });
+  });
+
+  it("rectifies the page so its lines run straight", () => {
+    const image = photo(600, 450, quad);
+    const warped = warpQuad(image, quad, { width: 300, height: 240 });
+    expect(warped.width).toBe(300);
+    expect(estimateSkew(warped)).toBe(0);
+    // Row 42 is a text line, row 50 the gap below it
+    const at = (x: number, y: number) => warped.data[(y * 300 + x) * 4];
+    expect(at(150, 42)).toBeLessThan(80);
+    expect(at(150, 50)).toBeGreaterThan(200);
+  });
+
+  it("measures and removes residual skew", () => {
+    const page = skewedPage(500, 400, 4);
+    expect(Math.abs(estimateSkew(page) - 4)).toBeLessThanOrEqual(0.25);
+
+    const correction = planCorrection(page);
+    expect(Math.abs(correction.skewDegrees - 4)).toBeLessThanOrEqual(0.25);
+    expect(estimateSkew(warpQuad(page, correction.quad))).toBe(0);
+  });
+
+  it("leaves a flat scan alone", () => {
+    const page = skewedPage(500, 400, 0);
+    const correction = planCorrection(page);
+    expect(correction.skewDegrees).toBe(0);
+    expect(isFullFrame(correction.quad, 500, 400)).toBe(true);
+  });
+});
@@ -0,0 +1,331 @@
+import { encodePixels, readPixels, type Pixels } from "./pixels";
+
+export type Point = { x: number; y: number };
+// Top-left, top-right, bottom-right, bottom-left, in source pixels
+export type Quad = [Point, Point, Point, Point];
+
+export type Correction = {
+  quad: Quad;
+  // Text-line slope removed on top of the quad, clockwise positive
+  skewDegrees: number;
+  // False when no document edge stood out and the whole frame was used
+  detected: boolean;
+};
+
+// Working size for detection; full resolution adds nothing but time
+const DETECT_SIZE = 400;
+const SKEW_SIZE = 800;
+// Largest side of a corrected image
+const MAX_OUTPUT = 3000;
+// A document smaller than this share of the frame is probably not one
+const MIN_DOCUMENT_AREA = 0.15;
+const MAX_SKEW = 8;
+const SKEW_STEP = 0.25;
+// Skews below this aren't worth a resample
+const MIN_SKEW = 0.3;
+
+type Gray = { data: Float32Array; width: number; height: number };
+
+function downscaleGray({ data, width, height }: Pixels, maxSide: number): Gray & { scale: number } {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.floor(y / scale);
+    const y1 = Math.max(y0 + 1, Math.min(height, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.floor(x / scale);
+      const x1 = Math.max(x0 + 1, Math.min(width, Math.floor((x + 1) / scale)));
+      let sum = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) {
+          const i = (yy * width + xx) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      out[y * w + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return { data: out, width: w, height: h, scale };
+}
+
+function boxBlur({ data, width, height }: Gray): Gray {
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          const yy = y + dy;
+          if (xx < 0 || yy < 0 || xx >= width || yy >= height) continue;
+          sum += data[yy * width + xx];
+          n++;
+        }
+      }
+      out[y * width + x] = sum / n;
+    }
+  }
+  return { data: out, width, height };
+}
+
+// Threshold that best splits the histogram into two classes
+function otsu(data: Float32Array): number {
+  const histogram = new Float64Array(256);
+  for (const v of data) histogram[Math.max(0, Math.min(255, Math.round(v)))]++;
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += i * histogram[i];
+  let best = 0;
+  let threshold = 128;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = data.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (total - sumBelow) / weightAbove;
+    const between = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+// Paper is lighter than the table it lies on: take the largest bright
+// blob and its extreme corners (min/max of x+y and x-y)
+export function detectDocumentQuad(pixels: Pixels): Quad | null {
+  const small = downscaleGray(pixels, DETECT_SIZE);
+  const { data, width, height } = boxBlur(small);
+  const threshold = otsu(data);
+  const labels = new Int32Array(data.length).fill(-1);
+
+  let bestSize = 0;
+  let bestLabel = -1;
+  for (let start = 0, label = 0; start < data.length; start++) {
+    if (labels[start] !== -1 || data[start] <= threshold) continue;
+    let size = 0;
+    const stack = [start];
+    labels[start] = label;
+    while (stack.length > 0) {
+      const i = stack.pop();
+      size++;
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= data.length || labels[n] !== -1 || data[n] <= threshold) continue;
+        labels[n] = label;
+        stack.push(n);
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+    label++;
+  }
+  if (bestSize < data.length * MIN_DOCUMENT_AREA) return null;
+
+  const corners = {
+    tl: { score: Infinity, x: 0, y: 0 },
+    tr: { score: -Infinity, x: 0, y: 0 },
+    br: { score: -Infinity, x: 0, y: 0 },
+    bl: { score: Infinity, x: 0, y: 0 },
+  };
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (x + y < corners.tl.score) corners.tl = { score: x + y, x, y };
+    if (x + y > corners.br.score) corners.br = { score: x + y, x, y };
+    if (x - y > corners.tr.score) corners.tr = { score: x - y, x, y };
+    if (x - y < corners.bl.score) corners.bl = { score: x - y, x, y };
+  }
+  // Outer edge of the corner pixel, back in source coordinates
+  const toSource = ({ x, y }: Point, dx: number, dy: number): Point => ({
+    x: Math.min(pixels.width, Math.max(0, (x + dx) / small.scale)),
+    y: Math.min(pixels.height, Math.max(0, (y + dy) / small.scale)),
+  });
+  return [
+    toSource(corners.tl, 0, 0),
+    toSource(corners.tr, 1, 0),
+    toSource(corners.br, 1, 1),
+    toSource(corners.bl, 0, 1),
+  ];
+}
+
+export function fullFrame(width: number, height: number): Quad {
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+}
+
+// True when the quad is (nearly) the image itself, so warping changes nothing
+export function isFullFrame(quad: Quad, width: number, height: number, tolerance = 0.01): boolean {
+  const frame = fullFrame(width, height);
+  const slack = Math.max(width, height) * tolerance;
+  return quad.every((p, i) => Math.hypot(p.x - frame[i].x, p.y - frame[i].y) <= slack);
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size of the rectified quad: its longer opposite sides
+export function quadSize(quad: Quad, maxSide = MAX_OUTPUT): { width: number; height: number } {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// 3x3 homography (row-major, h33 = 1) mapping each `from` corner onto `to`
+export function homography(from: Quad, to: Quad): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gauss-Jordan with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error("Degenerate quad");
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= f * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function applyHomography(h: number[], { x, y }: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+}
+
+// Resamples the quad into an upright rectangle; outside the source is white
+export function warpQuad(pixels: Pixels, quad: Quad, size = quadSize(quad)): Pixels {
+  const { width, height } = size;
+  const toSource = homography(fullFrame(width, height), quad);
+  const src = pixels.data;
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(toSource, { x: x + 0.5, y: y + 0.5 });
+      const sx = p.x - 0.5;
+      const sy = p.y - 0.5;
+      const o = (y * width + x) * 4;
+      out[o + 3] = 255;
+      if (sx < -0.5 || sy < -0.5 || sx > pixels.width - 0.5 || sy > pixels.height - 0.5) {
+        out[o] = out[o + 1] = out[o + 2] = 255;
+        continue;
+      }
+      // Bilinear interpolation, clamped at the edges
+      const x0 = Math.max(0, Math.min(pixels.width - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(pixels.height - 1, Math.floor(sy)));
+      const x1 = Math.min(pixels.width - 1, x0 + 1);
+      const y1 = Math.min(pixels.height - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+      for (let c = 0; c < 3; c++) {
+        const top = src[(y0 * pixels.width + x0) * 4 + c] * (1 - fx) + src[(y0 * pixels.width + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * pixels.width + x0) * 4 + c] * (1 - fx) + src[(y1 * pixels.width + x1) * 4 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { data: out, width, height };
+}
+
+// Slope of the text lines, found by the projection that makes the dark
+// pixels bunch into the sharpest rows. Clockwise positive.
+export function estimateSkew(pixels: Pixels): number {
+  const { data, width, height } = downscaleGray(pixels, SKEW_SIZE);
+  const threshold = otsu(data);
+  const dark: number[] = [];
+  for (let i = 0; i < data.length; i++) if (data[i] <= threshold) dark.push(i);
+  // Nothing to line up, or no real foreground at all
+  if (dark.length < 50 || dark.length > data.length * 0.5) return 0;
+
+  let best = 0;
+  let bestScore = -Infinity;
+  const offset = width * Math.tan((MAX_SKEW * Math.PI) / 180);
+  const bins = new Float64Array(Math.ceil(height + 2 * offset) + 1);
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    bins.fill(0);
+    for (const i of dark) {
+      const x = i % width;
+      const y = (i - x) / width;
+      bins[Math.round(y - x * slope + offset)]++;
+    }
+    let score = 0;
+    for (const b of bins) score += b * b;
+    // Ties go to the smaller correction
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(best))) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return Math.abs(best) < MIN_SKEW ? 0 : best;
+}
+
+// The quad that also removes `degrees` of skew from the rectified image:
+// the output rectangle rotated about its centre, mapped back to the source
+export function deskewQuad(quad: Quad, degrees: number): Quad {
+  if (degrees === 0) return quad;
+  const { width, height } = quadSize(quad, Infinity);
+  const toSource = homography(fullFrame(width, height), quad);
+  const theta = (degrees * Math.PI) / 180;
+  const cx = width / 2;
+  const cy = height / 2;
+  return fullFrame(width, height).map(({ x, y }) =>
+    applyHomography(toSource, {
+      x: cx + (x - cx) * Math.cos(theta) - (y - cy) * Math.sin(theta),
+      y: cy + (x - cx) * Math.sin(theta) + (y - cy) * Math.cos(theta),
+    }),
+  ) as Quad;
+}
+
+// Document outline plus residual skew, as one quad to warp with
+export function planCorrection(pixels: Pixels): Correction {
+  const detected = detectDocumentQuad(pixels);
+  const quad = detected ?? fullFrame(pixels.width, pixels.height);
+  const skewDegrees = estimateSkew(warpQuad(pixels, quad, quadSize(quad, SKEW_SIZE)));
+  return { quad: deskewQuad(quad, skewDegrees), skewDegrees, detected: !!detected };
+}
+
+// Plan and warp both decode the full photo, so the browser runs them in a
+// worker (see ./preprocess)
+export type PreprocessRequest =
+  | { kind: "plan"; image: Blob }
+  | { kind: "warp"; image: Blob; quad: Quad; type: string; quality: number };
+
+export type PreprocessPlan = Correction & {
+  // Source image size, for drawing the quad over it
+  width: number;
+  height: number;
+};
+
+export async function handlePreprocess(request: PreprocessRequest): Promise<PreprocessPlan | Blob> {
+  const pixels = await readPixels(request.image);
+  if (request.kind === "plan") {
+    return { ...planCorrection(pixels), width: pixels.width, height: pixels.height };
+  }
+  return encodePixels(warpQuad(pixels, request.quad), request.type, request.quality);
+}
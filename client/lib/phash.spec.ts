@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { dHash, findPerceptualMatch, hammingDistance, pHash } from "./phash";
+import type { RegistryRecord } from "./verify";
+
+function image(
+  width: number,
+  height: number,
+  shade: (x: number, y: number) => number,
+) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = shade(x, y);
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = v;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+// Deterministic pseudo-noise standing in for JPEG re-compression artefacts
+const noise = (x: number, y: number) => ((x * 7919 + y * 104729) % 9) - 4;
+
+const certificate = (x: number, y: number) =>
+  (Math.floor(x / 20) + Math.floor(y / 15)) % 2 ? 220 : 40 + (x % 50);
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("00", "00")).toBe(0);
+    expect(hammingDistance("0f", "00")).toBe(4);
+    expect(hammingDistance("ff", "00")).toBe(8);
+  });
+
+  it("treats hashes of different lengths as unrelated", () => {
+    expect(hammingDistance("00", "000")).toBe(Infinity);
+  });
+});
+
+describe("perceptual hashes", () => {
+  const original = image(200, 140, certificate);
+  const resaved = image(200, 140, (x, y) => certificate(x, y) + noise(x, y));
+  const resized = image(300, 210, (x, y) => certificate((x * 2) / 3, (y * 2) / 3));
+  const other = image(200, 140, (x, y) => (x + y) % 255);
+
+  it("stays close for re-compressed and resized copies", () => {
+    expect(hammingDistance(pHash(original), pHash(resaved))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(dHash(original), dHash(resaved))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(pHash(original), pHash(resized))).toBeLessThanOrEqual(10);
+  });
+
+  it("differs for unrelated images", () => {
+    expect(hammingDistance(pHash(original), pHash(other))).toBeGreaterThan(10);
+  });
+
+  it("matches registry records within the threshold", () => {
+    const record: RegistryRecord = {
+      certificateNumber: "JH-NU-2019-000123",
+      hashHex: "00",
+      name: "Aarav Kumar",
+      institution: "Nilamber-Pitamber University",
+      course: "B.Sc",
+      year: 2019,
+      pHash: pHash(original),
+      dHash: dHash(original),
+    };
+    const match = findPerceptualMatch(
+      { pHash: pHash(resaved), dHash: dHash(resaved) },
+      [record],
+      10,
+    );
+    expect(match?.record.certificateNumber).toBe("JH-NU-2019-000123");
+    expect(
+      findPerceptualMatch({ pHash: pHash(other), dHash: dHash(other) }, [record], 10),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+import type { RegistryRecord } from "./verify";
+
+export type PerceptualHashes = {
+  pHash: string;
+  dHash: string;
+};
+
+export type PerceptualMatch = {
+  record: RegistryRecord;
+  pHashDistance: number;
+  dHashDistance: number;
+};
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Max differing bits (out of 64) for two images to count as the same
+// document. Re-saved or re-compressed copies usually land well under 10.
+let maxDistance = Number(
+  (typeof import.meta !== "undefined" && import.meta.env?.VITE_PHASH_THRESHOLD) || 10,
+);
+
+export function setPerceptualMatchThreshold(bits: number) {
+  maxDistance = bits;
+}
+
+export function getPerceptualMatchThreshold() {
+  return maxDistance;
+}
+
+function toGray({ data, width, height }: Pixels): Float64Array {
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Area-average downscale, so compression noise washes out
+function resize(
+  gray: Float64Array,
+  width: number,
+  height: number,
+  tw: number,
+  th: number,
+): Float64Array {
+  const out = new Float64Array(tw * th);
+  for (let ty = 0; ty < th; ty++) {
+    const y0 = Math.floor((ty * height) / th);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / th));
+    for (let tx = 0; tx < tw; tx++) {
+      const x0 = Math.floor((tx * width) / tw);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / tw));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += gray[y * width + x];
+      }
+      out[ty * tw + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+export function dHash(pixels: Pixels): string {
+  const small = resize(toGray(pixels), pixels.width, pixels.height, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(small[y * 9 + x] > small[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+}
+
+export function pHash(pixels: Pixels): string {
+  const N = 32;
+  const small = resize(toGray(pixels), pixels.width, pixels.height, N, N);
+
+  // Low-frequency 8x8 block of the 2D DCT-II
+  const coeffs: number[] = [];
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < N; y++) {
+        const cy = Math.cos(((2 * y + 1) * u * Math.PI) / (2 * N));
+        for (let x = 0; x < N; x++) {
+          sum += small[y * N + x] * cy * Math.cos(((2 * x + 1) * v * Math.PI) / (2 * N));
+        }
+      }
+      coeffs.push(sum);
+    }
+  }
+
+  // Compare against the median, ignoring the DC term
+  const median = [...coeffs.slice(1)].sort((a, b) => a - b)[31];
+  return bitsToHex(coeffs.map((c) => c > median));
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let dist = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (x) {
+      dist += x & 1;
+      x >>= 1;
+    }
+  }
+  return dist;
+}
+
+export function computePerceptualHashes(pixels: Pixels): PerceptualHashes {
+  return { pHash: pHash(pixels), dHash: dHash(pixels) };
+}
+
+export async function perceptualHashesFromFile(file: File): Promise<PerceptualHashes> {
+  const bitmap = await createImageBitmap(file);
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(bitmap.width, bitmap.height)
+      : Object.assign(document.createElement("canvas"), {
+          width: bitmap.width,
+          height: bitmap.height,
+        });
+  const ctx = canvas.getContext("2d") as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return computePerceptualHashes(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+// Closest record whose pHash is within the threshold. dHash breaks ties and
+// guards against pHash collisions on near-blank images.
+export function findPerceptualMatch(
+  hashes: PerceptualHashes,
+  records: RegistryRecord[],
+  threshold = maxDistance,
+): PerceptualMatch | null {
+  let best: PerceptualMatch | null = null;
+  for (const record of records) {
+    if (!record.pHash) continue;
+    const pHashDistance = hammingDistance(hashes.pHash, record.pHash);
+    const dHashDistance = record.dHash
+      ? hammingDistance(hashes.dHash, record.dHash)
+      : pHashDistance;
+    if (pHashDistance > threshold || dHashDistance > threshold * 2) continue;
+    if (
+      !best ||
+      pHashDistance + dHashDistance < best.pHashDistance + best.dHashDistance
+    ) {
+      best = { record, pHashDistance, dHashDistance };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRegisteredSteps,
+  isAbortError,
+  orderSteps,
+  registerStep,
+  runPipeline,
+  unregisterStep,
+  type StepContext,
+  type StepProgress,
+  type VerificationStep,
+} from "./pipeline";
+import { analyzeFile } from "./verify";
+
+function step(
+  id: string,
+  overrides: Partial<VerificationStep> = {},
+): VerificationStep {
+  return {
+    id,
+    label: id,
+    inputs: [],
+    outputs: [],
+    onFailure: "continue",
+    run: async () => {},
+    ...overrides,
+  };
+}
+
+function context(): StepContext {
+  return {
+    file: new File(["x"], "cert.png", { type: "image/png" }),
+    result: {
+      status: "invalid",
+      issues: [],
+      metadata: { fileName: "cert.png", size: 1, mime: "image/png", hashHex: "" },
+    },
+    state: {},
+    trace: [],
+  };
+}
+
+describe("orderSteps", () => {
+  it("runs dependencies first and keeps registration order otherwise", () => {
+    const ordered = orderSteps([
+      step("b", { dependsOn: ["c"] }),
+      step("a"),
+      step("c"),
+    ]);
+    expect(ordered.map((s) => s.id)).toEqual(["a", "c", "b"]);
+  });
+
+  it("runs decide steps after every check step, whatever the registration order", () => {
+    const ordered = orderSteps([
+      step("score", { phase: "decide" }),
+      step("hash"),
+      step("custom", { dependsOn: ["hash"] }),
+    ]);
+    expect(ordered.map((s) => s.id)).toEqual(["hash", "custom", "score"]);
+    expect(() => orderSteps([step("score", { phase: "decide" }), step("late", { dependsOn: ["score"] })])).toThrow(
+      /can't depend on decide step/,
+    );
+  });
+
+  it("rejects unknown and circular dependencies", () => {
+    expect(() => orderSteps([step("a", { dependsOn: ["missing"] })])).toThrow(
+      /unknown step/,
+    );
+    expect(() =>
+      orderSteps([
+        step("a", { dependsOn: ["b"] }),
+        step("b", { dependsOn: ["a"] }),
+      ]),
+    ).toThrow(/Circular/);
+  });
+});
+
+describe("runPipeline", () => {
+  it("skips dependents of a failed step and records the failure issue", async () => {
+    const ctx = context();
+    const trace = await runPipeline(ctx, [
+      step("upload", {
+        failureIssue: "Upload failed",
+        run: async () => {
+          throw new Error("offline");
+        },
+      }),
+      step("verify", { dependsOn: ["upload"] }),
+      step("local"),
+    ]);
+    expect(trace.map((t) => [t.id, t.status])).toEqual([
+      ["upload", "failed"],
+      ["verify", "skipped"],
+      ["local", "success"],
+    ]);
+    expect(ctx.result.issues).toEqual([
+      { code: "upload.failed", severity: "warning", source: "upload", message: "Upload failed" },
+    ]);
+  });
+
+  it("skips steps whose inputs are missing or that are not applicable", async () => {
+    const trace = await runPipeline(context(), [
+      step("ocr", { inputs: ["uploadId"] }),
+      step("pdf", { when: () => false }),
+    ]);
+    expect(trace.map((t) => t.reason)).toEqual([
+      'Missing input "uploadId"',
+      "Not applicable",
+    ]);
+  });
+
+  it("times out slow steps", async () => {
+    const trace = await runPipeline(context(), [
+      step("slow", {
+        timeoutMs: 10,
+        run: () => new Promise((resolve) => setTimeout(resolve, 200)),
+      }),
+    ]);
+    expect(trace[0].status).toBe("timeout");
+  });
+
+  it("aborts a timed-out step's signal and discards what it writes afterwards", async () => {
+    const ctx = context();
+    let stepSignal: AbortSignal | undefined;
+    let late: Promise<void> | undefined;
+    const trace = await runPipeline(ctx, [
+      step("slow", {
+        timeoutMs: 10,
+        run: ({ result, state, signal }) => {
+          stepSignal = signal;
+          result.issues.push({ code: "slow.early", severity: "info", source: "slow", message: "early" });
+          // Ignores the signal and keeps writing after the timeout
+          late = new Promise((resolve) =>
+            setTimeout(() => {
+              result.status = "valid";
+              result.issues.push({ code: "slow.late", severity: "info", source: "slow", message: "late" });
+              state.uploadId = "late";
+              resolve();
+            }, 50),
+          );
+          return late;
+        },
+      }),
+      step("next", {
+        run: async ({ result }) => {
+          result.metadata.hashHex = "next";
+        },
+      }),
+    ]);
+    await late;
+    expect(trace.map((t) => t.status)).toEqual(["timeout", "success"]);
+    expect(stepSignal?.aborted).toBe(true);
+    expect(ctx.result.status).toBe("invalid");
+    expect(ctx.result.issues).toEqual([]);
+    expect(ctx.result.metadata.hashHex).toBe("next");
+    expect(ctx.state.uploadId).toBeUndefined();
+  });
+
+  it("keeps what a step wrote before failing", async () => {
+    const ctx = context();
+    await runPipeline(ctx, [
+      step("partial", {
+        run: async ({ result }) => {
+          result.metadata.qrData = "found";
+          throw new Error("then broke");
+        },
+      }),
+    ]);
+    expect(ctx.result.metadata.qrData).toBe("found");
+  });
+
+  it("stops on abort failures", async () => {
+    await expect(
+      runPipeline(context(), [
+        step("hash", {
+          onFailure: "abort",
+          run: async () => {
+            throw new Error("boom");
+          },
+        }),
+        step("never"),
+      ]),
+    ).rejects.toThrow("boom");
+  });
+
+  it("emits pending, running and finished progress events", async () => {
+    const events: StepProgress[] = [];
+    await runPipeline(context(), [step("a"), step("b", { when: () => false })], {
+      onProgress: (p) => events.push(p),
+    });
+    expect(events.map((e) => `${e.id}:${e.status}`)).toEqual([
+      "a:pending",
+      "b:pending",
+      "a:running",
+      "a:success",
+      "b:skipped",
+    ]);
+  });
+
+  it("rejects with an AbortError when cancelled mid-step", async () => {
+    const controller = new AbortController();
+    const ctx = { ...context(), signal: controller.signal };
+    const run = runPipeline(ctx, [
+      step("slow", {
+        run: () => new Promise((resolve) => setTimeout(resolve, 200)),
+      }),
+      step("never"),
+    ]);
+    controller.abort();
+    const err = await run.catch((e) => e);
+    expect(isAbortError(err)).toBe(true);
+    expect(ctx.trace).toHaveLength(0);
+  });
+});
+
+describe("analyzeFile", () => {
+  it("returns the trace of every step that ran", async () => {
+    const builtIn = getRegisteredSteps();
+    builtIn.forEach((s) => unregisterStep(s.id));
+    registerStep(step("a", { run: async ({ result }) => void (result.metadata.hashHex = "ab") }));
+    registerStep(step("b", { dependsOn: ["a"] }));
+    try {
+      const result = await analyzeFile(new File(["x"], "cert.png", { type: "image/png" }));
+      expect(result.trace?.map((t) => [t.id, t.status])).toEqual([
+        ["a", "success"],
+        ["b", "success"],
+      ]);
+      expect(result.metadata.hashHex).toBe("ab");
+    } finally {
+      ["a", "b"].forEach(unregisterStep);
+      builtIn.forEach(registerStep);
+    }
+  });
+});
@@ -0,0 +1,282 @@
+import type { OcrWord } from "./ocrFields";
+import type { PerceptualHashes } from "./phash";
+import type { Preprocessed } from "./preprocess";
+import type { VerificationResult } from "./verify";
+
+// An image the QR/OCR/ML checks run on. PDFs yield one per rendered page.
+export type AnalysisImage = {
+  page?: number;
+  file: File;
+  // The untouched upload when `file` is a perspective-corrected copy
+  original?: File;
+};
+
+// Intermediate values passed between steps. Steps declare which keys they
+// read (inputs) and write (outputs); add keys here via declaration merging
+// when registering custom steps.
+export interface PipelineState {
+  buffer?: ArrayBuffer;
+  hashHex?: string;
+  images?: AnalysisImage[];
+  perceptualHashes?: PerceptualHashes;
+  uploadId?: string;
+  ocrText?: string;
+  // Only the in-browser engine reports where each word sits
+  ocrWords?: OcrWord[];
+  mlCompleted?: Set<AnalysisImage>;
+}
+
+export type StepContext = {
+  // The upload as received; hashes and evidence always refer to it
+  file: File;
+  preprocessed?: Preprocessed;
+  result: VerificationResult;
+  state: PipelineState;
+  trace: StepTrace[];
+  // Aborted when the user cancels; pass it on to network calls
+  signal?: AbortSignal;
+};
+
+// "continue" records the failure and carries on; "abort" stops the pipeline
+// and rejects analyzeFile.
+export type FailurePolicy = "continue" | "abort";
+
+// "check" steps gather evidence; "decide" steps run after every check step,
+// whatever the registration order, so they see all of it.
+export type StepPhase = "check" | "decide";
+
+export type VerificationStep = {
+  id: string;
+  label: string;
+  inputs: (keyof PipelineState)[];
+  outputs: (keyof PipelineState | `result.${string}`)[];
+  dependsOn?: string[];
+  // Defaults to "check"
+  phase?: StepPhase;
+  timeoutMs?: number;
+  onFailure: FailurePolicy;
+  // Message of the warning recorded on the result when the step fails or
+  // times out; its code is "<id>.failed" or "<id>.timeout"
+  failureIssue?: string;
+  // Extra applicability check, evaluated right before the step would run
+  when?: (ctx: StepContext) => boolean;
+  run: (ctx: StepContext) => Promise<void>;
+};
+
+export type StepStatus = "success" | "failed" | "timeout" | "skipped";
+
+export type StepTrace = {
+  id: string;
+  label: string;
+  status: StepStatus;
+  startedAt: string;
+  durationMs: number;
+  reason?: string;
+  error?: string;
+};
+
+// Live view of a step for progress UIs. "pending" is emitted once for every
+// step before the first one starts.
+export type StepProgress = {
+  id: string;
+  label: string;
+  status: "pending" | "running" | StepStatus;
+  durationMs?: number;
+  reason?: string;
+  error?: string;
+};
+
+export type PipelineOptions = {
+  onProgress?: (progress: StepProgress) => void;
+};
+
+export const DEFAULT_STEP_TIMEOUT_MS = 30_000;
+
+export class StepTimeoutError extends Error {
+  constructor(stepId: string, timeoutMs: number) {
+    super(`Step "${stepId}" timed out after ${timeoutMs}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+const registry: VerificationStep[] = [];
+
+export function registerStep(step: VerificationStep) {
+  const idx = registry.findIndex((s) => s.id === step.id);
+  if (idx >= 0) registry[idx] = step;
+  else registry.push(step);
+}
+
+export function unregisterStep(id: string) {
+  const idx = registry.findIndex((s) => s.id === id);
+  if (idx >= 0) registry.splice(idx, 1);
+}
+
+export function getRegisteredSteps(): VerificationStep[] {
+  return [...registry];
+}
+
+// Order steps so check steps run before decide steps and dependencies run
+// first, keeping registration order wherever dependencies allow.
+export function orderSteps(steps: VerificationStep[]): VerificationStep[] {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  for (const step of steps) {
+    for (const dep of step.dependsOn || []) {
+      if (!byId.has(dep)) {
+        throw new Error(`Step "${step.id}" depends on unknown step "${dep}"`);
+      }
+      if (step.phase !== "decide" && byId.get(dep)!.phase === "decide") {
+        throw new Error(`Check step "${step.id}" can't depend on decide step "${dep}"`);
+      }
+    }
+  }
+
+  const ordered: VerificationStep[] = [];
+  const done = new Set<string>();
+  const pending = [
+    ...steps.filter((s) => s.phase !== "decide"),
+    ...steps.filter((s) => s.phase === "decide"),
+  ];
+  while (pending.length > 0) {
+    const idx = pending.findIndex((s) =>
+      (s.dependsOn || []).every((dep) => done.has(dep)),
+    );
+    if (idx === -1) {
+      throw new Error(
+        `Circular step dependencies: ${pending.map((s) => s.id).join(", ")}`,
+      );
+    }
+    const [next] = pending.splice(idx, 1);
+    ordered.push(next);
+    done.add(next.id);
+  }
+  return ordered;
+}
+
+export function isAbortError(e: unknown) {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+function abortError() {
+  return new DOMException("Verification cancelled", "AbortError");
+}
+
+// Runs a step against its own copy of the result and state, with a signal
+// that fires on timeout as well as on cancellation. The copy is merged back
+// only when the step settles in time, so a step that keeps running after
+// its timeout can't change a result the pipeline has moved past.
+async function runStep(step: VerificationStep, ctx: StepContext) {
+  const timeoutMs = step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortError());
+  ctx.signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new StepTimeoutError(step.id, timeoutMs)), timeoutMs);
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+
+  const result = structuredClone(ctx.result);
+  const state = { ...ctx.state };
+  try {
+    await Promise.race([step.run({ ...ctx, result, state, signal: controller.signal }), aborted]);
+  } catch (e) {
+    // A failed step's partial findings are kept, as they always were
+    if (!controller.signal.aborted) commit(ctx, result, state);
+    throw controller.signal.aborted ? controller.signal.reason : e;
+  } finally {
+    clearTimeout(timer);
+    ctx.signal?.removeEventListener("abort", onAbort);
+  }
+  commit(ctx, result, state);
+}
+
+function commit(ctx: StepContext, result: VerificationResult, state: PipelineState) {
+  for (const key of Object.keys(ctx.result) as (keyof VerificationResult)[]) {
+    if (!(key in result)) delete ctx.result[key];
+  }
+  // The trace is the pipeline's, still growing in ctx.trace; the step's copy
+  // of it is stale
+  Object.assign(ctx.result, result, { trace: ctx.result.trace });
+  Object.assign(ctx.state, state);
+}
+
+function skipReason(step: VerificationStep, ctx: StepContext): string | null {
+  for (const dep of step.dependsOn || []) {
+    const depTrace = ctx.trace.find((t) => t.id === dep);
+    if (depTrace?.status !== "success") return `Dependency "${dep}" did not succeed`;
+  }
+  for (const input of step.inputs) {
+    if (ctx.state[input] === undefined) return `Missing input "${input}"`;
+  }
+  if (step.when && !step.when(ctx)) return "Not applicable";
+  return null;
+}
+
+export async function runPipeline(
+  ctx: StepContext,
+  steps: VerificationStep[] = getRegisteredSteps(),
+  { onProgress }: PipelineOptions = {},
+): Promise<StepTrace[]> {
+  const ordered = orderSteps(steps);
+  ordered.forEach((step) =>
+    onProgress?.({ id: step.id, label: step.label, status: "pending" }),
+  );
+
+  for (const step of ordered) {
+    if (ctx.signal?.aborted) throw abortError();
+
+    const startedAt = new Date();
+    const reason = skipReason(step, ctx);
+    if (reason) {
+      ctx.trace.push({
+        id: step.id,
+        label: step.label,
+        status: "skipped",
+        startedAt: startedAt.toISOString(),
+        durationMs: 0,
+        reason,
+      });
+      onProgress?.({ id: step.id, label: step.label, status: "skipped", reason });
+      continue;
+    }
+
+    const entry: StepTrace = {
+      id: step.id,
+      label: step.label,
+      status: "success",
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+    };
+    onProgress?.({ id: step.id, label: step.label, status: "running" });
+    try {
+      await runStep(step, ctx);
+    } catch (e) {
+      if (isAbortError(e) || ctx.signal?.aborted) throw abortError();
+      entry.status = e instanceof StepTimeoutError ? "timeout" : "failed";
+      entry.error = e instanceof Error ? e.message : String(e);
+      console.warn(`⚠️ Step "${step.id}" ${entry.status}:`, e);
+      if (step.failureIssue) {
+        ctx.result.issues.push({
+          code: `${step.id}.${entry.status}`,
+          severity: "warning",
+          source: step.id,
+          message: step.failureIssue,
+        });
+      }
+    }
+    entry.durationMs = Date.now() - startedAt.getTime();
+    ctx.trace.push(entry);
+    onProgress?.({
+      id: step.id,
+      label: step.label,
+      status: entry.status,
+      durationMs: entry.durationMs,
+      error: entry.error,
+    });
+
+    if (entry.status !== "success" && step.onFailure === "abort") {
+      throw new Error(entry.error || `Step "${step.id}" failed`);
+    }
+  }
+  return ctx.trace;
+}
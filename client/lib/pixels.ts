@@ -0,0 +1,38 @@
+// RGBA pixels, as in ImageData but structured-cloneable between workers
+export type Pixels = { data: ImageData["data"]; width: number; height: number };
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  return typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement("canvas"), { width, height });
+}
+
+export async function readPixels(image: Blob): Promise<Pixels> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d") as Canvas2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { data, width, height };
+}
+
+export async function encodePixels(pixels: Pixels, type: string, quality?: number): Promise<Blob> {
+  const canvas = createCanvas(pixels.width, pixels.height);
+  const ctx = canvas.getContext("2d") as Canvas2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return "convertToBlob" in canvas
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Image encoding failed"))), type, quality),
+      );
+}
+
+// Re-encodes the pixels as JPEG at the given quality and decodes them again
+export async function recompressJpeg(pixels: Pixels, quality: number): Promise<Pixels> {
+  return readPixels(await encodePixels(pixels, "image/jpeg", quality));
+}
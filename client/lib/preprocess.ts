@@ -0,0 +1,77 @@
+import {
+  handlePreprocess,
+  type PreprocessPlan,
+  type PreprocessRequest,
+  type Quad,
+} from "./perspective";
+import { createWorkerClient } from "./workerClient";
+
+export type { PreprocessPlan } from "./perspective";
+
+// A perspective-corrected copy of an uploaded photo. Image checks run on
+// `file`; the original upload stays the evidence (hash, metadata, ELA).
+export type Preprocessed = {
+  file: File;
+  quad: Quad;
+  skewDegrees: number;
+  // Corners adjusted by hand on the Preview page
+  manual: boolean;
+};
+
+const OUTPUT_TYPE = "image/jpeg";
+const OUTPUT_QUALITY = 0.92;
+
+const client = createWorkerClient<PreprocessRequest, PreprocessPlan | Blob>(
+  () => new Worker(new URL("./preprocessWorker.ts", import.meta.url), { type: "module" }),
+);
+
+function run(request: PreprocessRequest, signal?: AbortSignal) {
+  if (typeof Worker === "undefined") return handlePreprocess(request);
+  return client.request(request, { signal });
+}
+
+// Document outline and skew, to show on the Preview page for adjustment
+export async function planPreprocessing(image: Blob, signal?: AbortSignal): Promise<PreprocessPlan> {
+  return (await run({ kind: "plan", image }, signal)) as PreprocessPlan;
+}
+
+export async function preprocessImage(
+  original: File,
+  quad: Quad,
+  { skewDegrees = 0, manual = false, signal }: { skewDegrees?: number; manual?: boolean; signal?: AbortSignal } = {},
+): Promise<Preprocessed> {
+  const blob = (await run(
+    { kind: "warp", image: original, quad, type: OUTPUT_TYPE, quality: OUTPUT_QUALITY },
+    signal,
+  )) as Blob;
+  const name = original.name.replace(/\.[^.]+$/, "") + "-corrected.jpg";
+  return {
+    file: new File([blob], name, { type: OUTPUT_TYPE }),
+    quad,
+    skewDegrees,
+    manual,
+  };
+}
+
+// The Preview page hands its result to /verify through query parameters
+export function writePreprocessedParams(params: URLSearchParams, p: Preprocessed, url: string) {
+  params.set("processed", url);
+  params.set("quad", JSON.stringify(p.quad.map(({ x, y }) => [Math.round(x), Math.round(y)])));
+  params.set("skew", String(p.skewDegrees));
+  if (p.manual) params.set("manual", "1");
+}
+
+export function readPreprocessedParams(file: File, params: URLSearchParams): Preprocessed | undefined {
+  try {
+    const corners = JSON.parse(params.get("quad") || "null");
+    if (!Array.isArray(corners) || corners.length !== 4) return undefined;
+    return {
+      file,
+      quad: corners.map(([x, y]: [number, number]) => ({ x: Number(x), y: Number(y) })) as Quad,
+      skewDegrees: Number(params.get("skew")) || 0,
+      manual: params.get("manual") === "1",
+    };
+  } catch {
+    return undefined;
+  }
+}
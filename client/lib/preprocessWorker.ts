@@ -0,0 +1,4 @@
+import { handlePreprocess } from "./perspective";
+import { handleRequests } from "./workerClient";
+
+handleRequests(handlePreprocess);
@@ -0,0 +1,29 @@
+import { readPixels, type Pixels } from "./pixels";
+import { scanAllCodes } from "./barcodeScan";
+import type { DecodedCode, ScanOptions } from "./qrScan";
+import { createWorkerClient } from "./workerClient";
+
+export type { DecodedCode } from "./qrScan";
+
+const client = createWorkerClient<{ pixels: Pixels; options?: ScanOptions }, DecodedCode[]>(
+  () => new Worker(new URL("./qrWorker.ts", import.meta.url), { type: "module" }),
+);
+
+export const terminateQrWorker = client.terminate;
+
+async function decode(pixels: Pixels, options: ScanOptions, signal?: AbortSignal): Promise<DecodedCode[]> {
+  if (typeof Worker === "undefined") return scanAllCodes(pixels, options);
+  // The pixel buffer is transferred, not copied
+  return client.request({ pixels, options }, { transfer: [pixels.data.buffer], signal });
+}
+
+// Every QR code and barcode in the image, decoded off the main thread
+export async function decodeCodes(file: Blob, signal?: AbortSignal): Promise<DecodedCode[]> {
+  signal?.throwIfAborted();
+  return decode(await readPixels(file), {}, signal);
+}
+
+// Quick scan of a live camera frame; the next frame replaces it anyway
+export function decodeFrame(pixels: Pixels): Promise<DecodedCode[]> {
+  return decode(pixels, { quick: true });
+}
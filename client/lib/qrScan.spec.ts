@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import QRCode from "qrcode";
+import type { Pixels } from "./pixels";
+import { scanCodes } from "./qrScan";
+
+type Placement = { text: string; x: number; y: number; module: number };
+
+function render(
+  width: number,
+  height: number,
+  codes: Placement[],
+  { dark = 0, light = 255 } = {},
+): Pixels {
+  const data = new Uint8ClampedArray(width * height * 4).fill(light);
+  const set = (x: number, y: number, v: number) => {
+    const i = (y * width + x) * 4;
+    data[i] = data[i + 1] = data[i + 2] = v;
+  };
+  for (const { text, x, y, module } of codes) {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+    for (let r = 0; r < modules.size; r++) {
+      for (let c = 0; c < modules.size; c++) {
+        if (!modules.get(r, c)) continue;
+        for (let dy = 0; dy < module; dy++) {
+          for (let dx = 0; dx < module; dx++) set(x + c * module + dx, y + r * module + dy, dark);
+        }
+      }
+    }
+  }
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return { data, width, height };
+}
+
+describe("scanCodes", () => {
+  it("finds every code on the page with its position", () => {
+    const pixels = render(900, 500, [
+      { text: "JH-RU-2021-004567", x: 60, y: 80, module: 8 },
+      { text: "https://example.edu/doc/4567", x: 520, y: 120, module: 8 },
+    ]);
+    const codes = scanCodes(pixels);
+    expect(codes.map((c) => c.data).sort()).toEqual([
+      "JH-RU-2021-004567",
+      "https://example.edu/doc/4567",
+    ]);
+    const first = codes.find((c) => c.data === "JH-RU-2021-004567");
+    expect(first.format).toBe("qr_code");
+    // Location covers the symbol, corner centres excluded
+    expect(first.location.x).toBeGreaterThanOrEqual(55);
+    expect(first.location.x).toBeLessThan(80);
+    expect(first.location.y).toBeGreaterThanOrEqual(75);
+    expect(first.location.width).toBeGreaterThan(150);
+  });
+
+  it("finds a small code on a large photo", () => {
+    const pixels = render(2800, 2000, [{ text: "JH-NU-2019-000123", x: 2300, y: 1600, module: 2 }]);
+    const [code] = scanCodes(pixels);
+    expect(code?.data).toBe("JH-NU-2019-000123");
+    expect(code.location.x).toBeGreaterThan(2250);
+    expect(code.location.y).toBeGreaterThan(1550);
+  }, 20_000);
+
+  it("reads a faded, low-contrast print", () => {
+    const pixels = render(400, 400, [{ text: "JH-RU-2021-004567", x: 80, y: 80, module: 6 }], {
+      dark: 150,
+      light: 175,
+    });
+    expect(scanCodes(pixels).map((c) => c.data)).toEqual(["JH-RU-2021-004567"]);
+  });
+
+  it("returns nothing for a blank page", () => {
+    expect(scanCodes(render(300, 200, []))).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import jsQR from "jsqr";
+import type { Pixels } from "./pixels";
+
+// Axis-aligned box in source image pixels
+export type CodeLocation = { x: number; y: number; width: number; height: number };
+
+export type DecodedCode = {
+  data: string;
+  // BarcodeDetector format names, e.g. "qr_code", "code_128", "ean_13"
+  format: string;
+  location: CodeLocation;
+};
+
+export type ScanOptions = {
+  maxCodes?: number;
+  // Full-view passes only; for live camera frames, where the next frame
+  // is another chance anyway
+  quick?: boolean;
+};
+
+type Gray = { data: Uint8ClampedArray; width: number; height: number };
+type Rect = { x: number; y: number; width: number; height: number };
+
+// One way of looking at the image: a region, resampled and rotated
+type Pass = {
+  rect: Rect;
+  scale: number;
+  // Clockwise quarter turns
+  rotation: 0 | 1 | 2 | 3;
+  normalise: boolean;
+};
+
+type View = Gray & { toSource: (x: number, y: number) => [number, number] };
+
+// Largest side jsQR gets to see; bigger photos are downscaled first
+const MAX_VIEW = 1600;
+// Tiles smaller than this are upscaled 2x
+const MIN_UPSCALE_SIDE = 800;
+
+function toGray({ data, width, height }: Pixels): Gray {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height };
+}
+
+function toRgba({ data }: Gray): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(data.length * 4);
+  for (let i = 0; i < data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+// Stretch the 2nd-98th percentile to full range, so faded prints and
+// grey-on-grey photos get enough contrast for the binarizer
+function normalise(gray: Uint8ClampedArray) {
+  const histogram = new Uint32Array(256);
+  for (const v of gray) histogram[v]++;
+  const cut = gray.length * 0.02;
+  let lo = 0;
+  let hi = 255;
+  for (let acc = 0; lo < 255 && (acc += histogram[lo]) < cut; lo++);
+  for (let acc = 0; hi > 0 && (acc += histogram[hi]) < cut; hi--);
+  if (hi - lo < 8) return;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = ((gray[i] - lo) * 255) / (hi - lo);
+  }
+}
+
+function makeView(source: Gray, { rect, scale, rotation, normalise: norm }: Pass): View {
+  const sw = Math.max(1, Math.round(rect.width * scale));
+  const sh = Math.max(1, Math.round(rect.height * scale));
+  const scaled = new Uint8ClampedArray(sw * sh);
+  for (let y = 0; y < sh; y++) {
+    const y0 = rect.y + Math.floor(y / scale);
+    const y1 = Math.max(y0 + 1, Math.min(rect.y + rect.height, rect.y + Math.floor((y + 1) / scale)));
+    for (let x = 0; x < sw; x++) {
+      const x0 = rect.x + Math.floor(x / scale);
+      const x1 = Math.max(x0 + 1, Math.min(rect.x + rect.width, rect.x + Math.floor((x + 1) / scale)));
+      // Area average when shrinking, nearest neighbour when enlarging
+      let sum = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) sum += source.data[yy * source.width + xx];
+      }
+      scaled[y * sw + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  if (norm) normalise(scaled);
+
+  // Map rotated view coordinates back to the scaled crop, then to the source
+  const unrotate = (x: number, y: number): [number, number] => {
+    switch (rotation) {
+      case 1:
+        return [y, sh - 1 - x];
+      case 2:
+        return [sw - 1 - x, sh - 1 - y];
+      case 3:
+        return [sw - 1 - y, x];
+      default:
+        return [x, y];
+    }
+  };
+  const toSource = (x: number, y: number): [number, number] => {
+    const [ux, uy] = unrotate(x, y);
+    return [rect.x + ux / scale, rect.y + uy / scale];
+  };
+
+  if (rotation === 0) return { data: scaled, width: sw, height: sh, toSource };
+  const width = rotation === 2 ? sw : sh;
+  const height = rotation === 2 ? sh : sw;
+  const rotated = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [ux, uy] = unrotate(x, y);
+      rotated[y * width + x] = scaled[uy * sw + ux];
+    }
+  }
+  return { data: rotated, width, height, toSource };
+}
+
+function boundingBox(points: [number, number][], source: Gray): CodeLocation {
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const x = Math.max(0, Math.floor(Math.min(...xs)));
+  const y = Math.max(0, Math.floor(Math.min(...ys)));
+  return {
+    x,
+    y,
+    width: Math.min(source.width, Math.ceil(Math.max(...xs))) - x,
+    height: Math.min(source.height, Math.ceil(Math.max(...ys))) - y,
+  };
+}
+
+// Paint a found code white (plus its quiet zone) so the next attempt finds
+// whatever else is on the page
+function mask(source: Gray, { x, y, width, height }: CodeLocation) {
+  const pad = Math.round(Math.max(width, height) * 0.15);
+  const x0 = Math.max(0, x - pad);
+  const y0 = Math.max(0, y - pad);
+  const x1 = Math.min(source.width, x + width + pad);
+  const y1 = Math.min(source.height, y + height + pad);
+  for (let yy = y0; yy < y1; yy++) source.data.fill(255, yy * source.width + x0, yy * source.width + x1);
+}
+
+function passes(width: number, height: number): { main: Pass[]; tiles: Pass[]; rotations: Pass[] } {
+  const full = { x: 0, y: 0, width, height };
+  const fit = (rect: Rect) => Math.min(1, MAX_VIEW / Math.max(rect.width, rect.height));
+  const upscale = (rect: Rect) =>
+    Math.max(rect.width, rect.height) < MIN_UPSCALE_SIDE ? 2 : fit(rect);
+
+  const main: Pass[] = [
+    { rect: full, scale: fit(full), rotation: 0, normalise: false },
+    { rect: full, scale: fit(full), rotation: 0, normalise: true },
+  ];
+  if (Math.max(width, height) < MIN_UPSCALE_SIDE) {
+    main.push({ rect: full, scale: 2, rotation: 0, normalise: true });
+  }
+
+  // 3x3 half-size tiles, overlapping by half, so any code up to a quarter
+  // of the page fits whole in one of them
+  const tw = Math.ceil(width / 2);
+  const th = Math.ceil(height / 2);
+  const tiles: Pass[] = [];
+  for (const y of [0, Math.floor((height - th) / 2), height - th]) {
+    for (const x of [0, Math.floor((width - tw) / 2), width - tw]) {
+      const rect = { x, y, width: tw, height: th };
+      tiles.push({ rect, scale: upscale(rect), rotation: 0, normalise: true });
+    }
+  }
+
+  const rotations = ([1, 2, 3] as const).map((rotation) => ({
+    rect: full,
+    scale: fit(full),
+    rotation,
+    normalise: true,
+  }));
+  return { main, tiles, rotations };
+}
+
+// Every QR code in the image, each with its position in source pixels.
+// Runs a sequence of passes (full view, contrast-normalised, upscaled,
+// tiled, rotated) and masks each code once found.
+export function scanCodes(pixels: Pixels, { maxCodes = 8, quick = false }: ScanOptions = {}): DecodedCode[] {
+  const source = toGray(pixels);
+  const found = new Map<string, DecodedCode>();
+  const { main, tiles, rotations } = passes(source.width, source.height);
+
+  // Decodes and masks one code in the pass; true when it's a new one
+  const attempt = (pass: Pass): boolean => {
+    const view = makeView(source, pass);
+    const code = jsQR(toRgba(view), view.width, view.height, {
+      inversionAttempts: pass.normalise ? "attemptBoth" : "dontInvert",
+    });
+    if (!code) return false;
+    const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = code.location;
+    const location = boundingBox(
+      [topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner].map((p) =>
+        view.toSource(p.x, p.y),
+      ),
+      source,
+    );
+    mask(source, location);
+    // A repeat only counts as progress once, or a bad mask would loop forever
+    if (found.has(code.data)) return false;
+    found.set(code.data, { data: code.data, format: "qr_code", location });
+    return true;
+  };
+
+  // Two codes side by side can confuse jsQR's finder-pattern search, so
+  // after every hit the cheap full-image passes get another go
+  const ordered = quick ? main : [...main, ...tiles];
+  for (let i = 0; i < ordered.length && found.size < maxCodes; ) {
+    i = attempt(ordered[i]) ? 0 : i + 1;
+  }
+  // jsQR copes with most rotations itself; turning the image is a last resort
+  if (found.size === 0 && !quick) {
+    for (const pass of rotations) {
+      while (found.size < maxCodes && attempt(pass));
+    }
+  }
+
+  // Reading order: top to bottom, then left to right
+  return [...found.values()].sort(
+    (a, b) => a.location.y - b.location.y || a.location.x - b.location.x,
+  );
+}
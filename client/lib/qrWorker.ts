@@ -0,0 +1,6 @@
+import type { Pixels } from "./pixels";
+import { scanAllCodes } from "./barcodeScan";
+import type { ScanOptions } from "./qrScan";
+import { handleRequests } from "./workerClient";
+
+handleRequests(({ pixels, options }: { pixels: Pixels; options?: ScanOptions }) => scanAllCodes(pixels, options));
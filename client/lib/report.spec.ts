@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { checkReportDigest, reportFileName, sealReport } from "./report";
+import { renderReportPdf } from "./reportPdf";
+import type { VerificationResult } from "./verify";
+
+const result: VerificationResult = {
+  status: "suspect",
+  issues: [
+    { code: "ocr-fields.mismatch", severity: "warning", source: "ocr-field-match", message: "Name “Asha Kumari” differs" },
+    { code: "forensics.tampering", severity: "error", source: "forensics", message: "Possible tampering in 1 region (score 72%)" },
+  ],
+  metadata: { fileName: "asha (final).jpg", size: 48213, mime: "image/jpeg", hashHex: "ab".repeat(32) },
+  matchedRecord: {
+    certificateNumber: "JH-RU-2021-000123",
+    hashHex: "cd".repeat(32),
+    name: "Asha Kumari",
+    institution: "Ranchi University",
+    course: "B.Sc Physics",
+    year: 2021,
+  },
+  trace: [
+    { id: "hash", label: "File hash", status: "success", startedAt: "2026-10-18T09:00:00.000Z", durationMs: 3 },
+    { id: "ml", label: "ML detection", status: "skipped", startedAt: "2026-10-18T09:00:00.003Z", durationMs: 0, reason: "ML service offline" },
+  ],
+};
+
+const now = new Date("2026-10-18T09:00:01Z");
+
+describe("verification report", () => {
+  it("seals the report with a digest that survives a JSON round trip", async () => {
+    const sealed = await sealReport(result, now);
+    expect(sealed.digest.value).toMatch(/^[0-9a-f]{64}$/);
+    expect(sealed.report.file.sha256).toBe("ab".repeat(32));
+    const copy = JSON.parse(JSON.stringify(sealed, null, 2));
+    expect(await checkReportDigest(copy)).toBe(true);
+  });
+
+  it("detects an edited report", async () => {
+    const sealed = await sealReport(result, now);
+    const edited = JSON.parse(JSON.stringify(sealed));
+    edited.report.status = "valid";
+    expect(await checkReportDigest(edited)).toBe(false);
+  });
+
+  it("renders a PDF with a consistent cross-reference table", async () => {
+    const sealed = await sealReport(result, now);
+    const pdf = new TextDecoder("latin1").decode(await renderReportPdf(sealed).arrayBuffer());
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(Verdict: SUSPECT)");
+    // Most severe first
+    const tampering = pdf.indexOf("(- Problem: Possible tampering in 1 region \\(score 72%\\))");
+    expect(tampering).toBeGreaterThan(0);
+    expect(pdf.indexOf("(- Warning: Name \"Asha Kumari\" differs)")).toBeGreaterThan(tampering);
+    expect(pdf).toContain(sealed.digest.value);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it("names files after the certificate", async () => {
+    const { report } = await sealReport(result, now);
+    expect(reportFileName(report, "pdf")).toBe("asha (final)-verification-2026-10-18.pdf");
+  });
+});
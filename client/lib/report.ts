@@ -0,0 +1,175 @@
+import { canonicalJson, utf8Encode } from "@shared/encoding";
+import type { Issue } from "@shared/issues";
+import type { ReportSeal } from "@shared/verifications";
+import { sha256Hex } from "./hash";
+import type { StepTrace } from "./pipeline";
+import type { TrustScore } from "./trustScore";
+import type { RegistryRecord, VerificationResult } from "./verify";
+
+// A hand-over copy of a verification outcome. The digest is SHA-256 over
+// the RFC 8785 canonical JSON of `report`, so anyone holding the JSON can
+// recompute it; the PDF prints the same digest for cross-checking. Being
+// unkeyed, it only catches careless edits: whoever edits a report can
+// recompute it. Reports stored behind a permalink also carry the server's
+// seal, which is what shows they weren't changed.
+
+// 2: issues are structured Issue objects rather than strings
+export const REPORT_VERSION = 2;
+
+export type VerificationReport = {
+  version: typeof REPORT_VERSION;
+  generatedAt: string;
+  generator: string;
+  file: {
+    name: string;
+    size: number;
+    mime: string;
+    sha256: string;
+    // Perspective-corrected copy the image checks ran on
+    correctedSha256?: string;
+    pageCount?: number;
+  };
+  status: VerificationResult["status"];
+  issues: Issue[];
+  trust?: TrustScore;
+  matchedRecord?: RegistryRecord;
+  checks: {
+    qrCodes?: number;
+    signedQr?: { valid: boolean; issuer?: string; kid?: string; error?: string; mismatches: string[] };
+    credential?: { valid: boolean; format: string; issuer?: string; issuerName?: string; error?: string };
+    pdfSignatures?: {
+      signerName?: string;
+      signingTime?: string;
+      timestampTime?: string;
+      digestValid: boolean;
+      signatureValid: boolean;
+      chainValid: boolean;
+      modifiedAfterSigning: boolean;
+    }[];
+    revocation?: { reason: string; revokedAt: string };
+    perceptualMatch?: { certificateNumber: string; pHashDistance: number; dHashDistance: number };
+    forensics?: { score: number; regions: number; methods: string[] };
+    fields?: { field: string; match: string }[];
+    metadataFindings?: string[];
+  };
+  ml?: {
+    isFake: boolean;
+    confidence: number;
+    authenticityScore: number;
+    page?: number;
+    models: { model: string; prediction: number; confidence: number; error?: string }[];
+  };
+  trace: StepTrace[];
+};
+
+export type ReportDigest = {
+  algorithm: "SHA-256";
+  canonicalization: "RFC 8785";
+  value: string;
+};
+
+export type SealedReport = {
+  report: VerificationReport;
+  digest: ReportDigest;
+  // Added by the server when it stores the report
+  seal?: ReportSeal;
+};
+
+const GENERATOR = "Jharkhand Credential Trust verifier";
+
+export function buildReport(result: VerificationResult, now = new Date()): VerificationReport {
+  const m = result.metadata;
+  const ml = m.mlDetection;
+  return {
+    version: REPORT_VERSION,
+    generatedAt: now.toISOString(),
+    generator: GENERATOR,
+    file: {
+      name: m.fileName,
+      size: m.size,
+      mime: m.mime,
+      sha256: m.hashHex,
+      correctedSha256: m.preprocessing?.hashHex,
+      pageCount: m.pageCount,
+    },
+    status: result.status,
+    issues: result.issues,
+    trust: result.trust,
+    matchedRecord: result.matchedRecord,
+    checks: {
+      qrCodes: m.qrCodes?.length,
+      signedQr: m.signedQr && {
+        valid: m.signedQr.valid,
+        issuer: m.signedQr.issuer,
+        kid: m.signedQr.kid,
+        error: m.signedQr.errorMessage,
+        mismatches: m.signedQr.mismatches,
+      },
+      credential: m.credential && {
+        valid: m.credential.valid,
+        format: m.credential.format,
+        issuer: m.credential.issuer,
+        issuerName: m.credential.issuerName,
+        error: m.credential.errorMessage,
+      },
+      pdfSignatures: m.pdfSignatures?.map((s) => ({
+        signerName: s.signerName,
+        signingTime: s.signingTime,
+        timestampTime: s.timestampTime,
+        digestValid: s.digestValid,
+        signatureValid: s.signatureValid,
+        chainValid: s.chainValid,
+        modifiedAfterSigning: s.modifiedAfterSigning,
+      })),
+      revocation: result.revocation && { reason: result.revocation.reason, revokedAt: result.revocation.revokedAt },
+      perceptualMatch: m.perceptualMatch,
+      forensics: m.forensics && {
+        score: m.forensics.score,
+        regions: m.forensics.regions.length,
+        methods: m.forensics.methods,
+      },
+      fields: m.fieldComparison?.map((c) => ({ field: c.field, match: c.status })),
+      metadataFindings: m.documentMetadata?.findings.map((f) => f.message),
+    },
+    ml: ml && {
+      isFake: ml.is_fake,
+      confidence: ml.confidence,
+      authenticityScore: ml.authenticity_score,
+      page: m.mlPage,
+      models: ml.individual_predictions.map(({ model, prediction, confidence, error }) => ({
+        model,
+        prediction,
+        confidence,
+        error,
+      })),
+    },
+    trace: result.trace ?? [],
+  };
+}
+
+export async function digestReport(report: VerificationReport): Promise<ReportDigest> {
+  // Round-trip first so the digest covers exactly what the JSON file holds
+  const plain = JSON.parse(JSON.stringify(report));
+  return {
+    algorithm: "SHA-256",
+    canonicalization: "RFC 8785",
+    value: await sha256Hex(utf8Encode(canonicalJson(plain)).buffer),
+  };
+}
+
+export async function sealReport(result: VerificationResult, now = new Date()): Promise<SealedReport> {
+  const report = buildReport(result, now);
+  return { report, digest: await digestReport(report) };
+}
+
+// True when the digest matches the content. Not proof against deliberate
+// edits; see checkReportSeal for that.
+export async function checkReportDigest(sealed: SealedReport): Promise<boolean> {
+  if (sealed.digest?.algorithm !== "SHA-256" || sealed.digest.canonicalization !== "RFC 8785") return false;
+  return (await digestReport(sealed.report)).value === sealed.digest.value;
+}
+
+export function reportFileName(report: VerificationReport, extension: "pdf" | "json"): string {
+  const base = report.file.name.replace(/\.[^.]+$/, "") || "certificate";
+  return `${base}-verification-${report.generatedAt.slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,285 @@
+import { compareSeverity, type IssueSeverity } from "@shared/issues";
+import type { SealedReport } from "./report";
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_Y = 30;
+
+type Font = "regular" | "bold" | "mono";
+
+const FONTS: Record<Font, { ref: string; base: string; width: number }> = {
+  // Average glyph widths in em, erring wide so wrapped lines never overflow
+  regular: { ref: "F1", base: "Helvetica", width: 0.55 },
+  bold: { ref: "F2", base: "Helvetica-Bold", width: 0.6 },
+  mono: { ref: "F3", base: "Courier", width: 0.6 },
+};
+
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  error: "Problem",
+  warning: "Warning",
+  info: "Note",
+  pass: "Passed",
+};
+
+type Line = { text: string; font: Font; size: number; indent: number; space: number };
+
+// The standard fonts only cover WinAnsi; emoji and other symbols are dropped
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "")
+    .trim();
+}
+
+function escapePdf(text: string): string {
+  return text.replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function wrap(text: string, font: Font, size: number, width: number): string[] {
+  const perLine = Math.max(10, Math.floor(width / (size * FONTS[font].width)));
+  const lines: string[] = [];
+  let line = "";
+  for (let word of text.split(/\s+/).filter(Boolean)) {
+    // Hashes and URLs are broken anywhere
+    while (word.length > perLine) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, perLine));
+      word = word.slice(perLine);
+      line = "";
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= perLine) line += ` ${word}`;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+class Layout {
+  lines: Line[] = [];
+
+  heading(text: string) {
+    this.add(text, { font: "bold", size: 12, space: 14 });
+  }
+
+  text(text: string, { font = "regular", size = 9.5, indent = 0 }: { font?: Font; size?: number; indent?: number } = {}) {
+    this.add(text, { font, size, indent, space: 2 });
+  }
+
+  field(label: string, value: string | number | boolean | undefined, mono = false) {
+    if (value === undefined || value === "") return;
+    this.text(`${label}: ${value}`, { font: mono ? "mono" : "regular", size: mono ? 8.5 : 9.5 });
+  }
+
+  bullet(text: string) {
+    this.text(`- ${text}`, { indent: 8 });
+  }
+
+  add(text: string, { font, size, indent = 0, space }: { font: Font; size: number; indent?: number; space: number }) {
+    wrap(toWinAnsi(text), font, size, PAGE_WIDTH - 2 * MARGIN - indent).forEach((t, i) =>
+      this.lines.push({ text: t, font, size, indent, space: i === 0 ? space : 0 }),
+    );
+  }
+}
+
+function layoutReport({ report, digest, seal }: SealedReport): Layout {
+  const doc = new Layout();
+  doc.add("Certificate verification report", { font: "bold", size: 18, space: 0 });
+  doc.text(`Generated ${new Date(report.generatedAt).toUTCString()} by ${report.generator}`);
+  doc.add(`Verdict: ${report.status.toUpperCase()}`, { font: "bold", size: 14, space: 10 });
+
+  doc.heading("File");
+  doc.field("Name", report.file.name);
+  doc.field("Size", `${report.file.size.toLocaleString("en-US")} bytes`);
+  doc.field("Type", report.file.mime || "unknown");
+  doc.field("Pages", report.file.pageCount);
+  doc.field("SHA-256", report.file.sha256, true);
+  doc.field("Corrected copy SHA-256", report.file.correctedSha256, true);
+
+  if (report.trust) {
+    const { score, thresholds, override, signals } = report.trust;
+    doc.heading("Trust score");
+    doc.text(`${score}/100 (valid from ${thresholds.valid}, suspect from ${thresholds.suspect})`);
+    if (override) doc.text(`Decided by rule "${override.rule}": ${override.detail}`);
+    signals.forEach((s) => doc.bullet(`${s.label}: ${s.points > 0 ? "+" : ""}${s.points} (${s.detail})`));
+  }
+
+  doc.heading("Issues");
+  if (report.issues.length === 0) doc.text("None");
+  [...report.issues]
+    .sort((a, b) => compareSeverity(a.severity, b.severity))
+    .forEach((issue) => doc.bullet(`${SEVERITY_LABELS[issue.severity]}: ${issue.message}`));
+
+  doc.heading("Matched record");
+  const record = report.matchedRecord;
+  if (!record) doc.text("No registry record matched");
+  else {
+    doc.field("Certificate number", record.certificateNumber);
+    doc.field("Name", record.name);
+    doc.field("Institution", record.institution);
+    doc.field("Course", record.course);
+    doc.field("Year", record.year);
+    doc.field("Registered SHA-256", record.hashHex, true);
+  }
+
+  const { checks } = report;
+  doc.heading("Checks");
+  doc.field("QR codes found", checks.qrCodes ?? 0);
+  if (checks.signedQr) {
+    doc.field(
+      "Signed QR",
+      checks.signedQr.valid
+        ? `valid (${checks.signedQr.issuer ?? "unknown issuer"})`
+        : `invalid: ${checks.signedQr.error ?? "unknown error"}`,
+    );
+  }
+  if (checks.credential) {
+    doc.field(
+      "Verifiable credential",
+      checks.credential.valid
+        ? `valid ${checks.credential.format} from ${checks.credential.issuerName ?? checks.credential.issuer ?? "unknown issuer"}`
+        : `invalid: ${checks.credential.error ?? "unknown error"}`,
+    );
+  }
+  checks.pdfSignatures?.forEach((s, i) =>
+    doc.field(
+      `PDF signature ${i + 1}`,
+      `${s.signerName ?? "unknown signer"}; digest ${s.digestValid ? "ok" : "bad"}, signature ${s.signatureValid ? "ok" : "bad"}, chain ${s.chainValid ? "trusted" : "untrusted"}${s.modifiedAfterSigning ? ", modified after signing" : ""}`,
+    ),
+  );
+  if (checks.revocation) {
+    doc.field("Revoked", `${checks.revocation.reason} (${checks.revocation.revokedAt})`);
+  }
+  if (checks.perceptualMatch) {
+    doc.field(
+      "Visual match",
+      `${checks.perceptualMatch.certificateNumber} (pHash distance ${checks.perceptualMatch.pHashDistance}, dHash ${checks.perceptualMatch.dHashDistance})`,
+    );
+  }
+  if (checks.forensics) {
+    doc.field(
+      "Tamper forensics",
+      `score ${(checks.forensics.score * 100).toFixed(0)}%, ${checks.forensics.regions} suspect region(s)`,
+    );
+  }
+  if (checks.fields?.length) {
+    doc.field("OCR fields", checks.fields.map((f) => `${f.field} ${f.match}`).join(", "));
+  }
+  checks.metadataFindings?.forEach((finding) => doc.field("Metadata", finding));
+
+  if (report.ml) {
+    doc.heading("ML analysis");
+    doc.field("Verdict", report.ml.isFake ? "likely fake" : "likely authentic");
+    doc.field("Confidence", `${(report.ml.confidence * 100).toFixed(1)}%`);
+    doc.field("Authenticity score", report.ml.authenticityScore.toFixed(3));
+    doc.field("Page", report.ml.page);
+    report.ml.models.forEach((m) =>
+      doc.bullet(
+        m.error
+          ? `${m.model}: failed (${m.error})`
+          : `${m.model}: prediction ${m.prediction}, ${(m.confidence * 100).toFixed(1)}% confidence`,
+      ),
+    );
+  }
+
+  doc.heading("Step trace");
+  report.trace.forEach((t) =>
+    doc.text(
+      `${t.status.padEnd(9)} ${t.label} (${t.durationMs} ms)${t.reason ? ` - ${t.reason}` : ""}${t.error ? ` - ${t.error}` : ""}`,
+      { font: "mono", size: 8 },
+    ),
+  );
+
+  doc.heading("Report digest");
+  doc.text(
+    `${digest.algorithm} over the ${digest.canonicalization} canonical JSON of the report. Anyone can recompute it, so it only catches accidental changes; the server seal, checked on the verification link, confirms the content.`,
+  );
+  doc.text(digest.value, { font: "mono", size: 8.5 });
+  if (seal) {
+    doc.text(`Server seal (${seal.algorithm}):`);
+    doc.text(seal.value, { font: "mono", size: 8.5 });
+  }
+  return doc;
+}
+
+function paginate(lines: Line[]): Line[][] {
+  const pages: Line[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of lines) {
+    const height = line.size * 1.3 + line.space;
+    if (y - height < FOOTER_Y + 20 && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+      line.space = 0;
+    }
+    pages[pages.length - 1].push(line);
+    y -= line.size * 1.3 + line.space;
+  }
+  return pages;
+}
+
+function contentStream(lines: Line[], footer: string): string {
+  let y = PAGE_HEIGHT - MARGIN;
+  const ops = lines.map((line) => {
+    y -= line.size * 1.3 + line.space;
+    const { ref } = FONTS[line.font];
+    return `BT /${ref} ${line.size} Tf ${MARGIN + line.indent} ${y.toFixed(2)} Td (${escapePdf(line.text)}) Tj ET`;
+  });
+  ops.push(`BT /F1 7.5 Tf ${MARGIN} ${FOOTER_Y} Td (${escapePdf(footer)}) Tj ET`);
+  return ops.join("\n");
+}
+
+// PDF date string, D:YYYYMMDDHHmmSSZ
+function pdfDate(iso: string): string {
+  return `D:${iso.replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+// Text-only PDF using the standard 14 fonts, so nothing has to be embedded
+export function renderReportPdf(sealed: SealedReport): Blob {
+  const pages = paginate(layoutReport(sealed).lines);
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  const firstPage = 6;
+  const kids = pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(" ");
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  for (const font of Object.values(FONTS)) {
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.base} /Encoding /WinAnsiEncoding >>`);
+  }
+  pages.forEach((lines, i) => {
+    const footer = `Page ${i + 1} of ${pages.length} - ${sealed.report.file.name} - digest ${sealed.digest.value.slice(0, 16)}...`;
+    const stream = contentStream(lines, toWinAnsi(footer));
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`,
+    );
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  const info = objects.length + 1;
+  add(
+    `<< /Title (${escapePdf(toWinAnsi(`Verification report - ${sealed.report.file.name}`))}) ` +
+      `/Producer (${escapePdf(sealed.report.generator)}) /CreationDate (${pdfDate(sealed.report.generatedAt)}) >>`,
+  );
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  // Every character is WinAnsi, one byte each
+  return new Blob([Uint8Array.from(pdf, (c) => c.charCodeAt(0))], { type: "application/pdf" });
+}
@@ -0,0 +1,99 @@
+import { apiClient } from "@shared/api";
+import {
+  decodeStatusList,
+  getStatusBit,
+  type BulkRevocationRequest,
+  type BulkRevocationResponse,
+  type StatusAssignmentResponse,
+  type StatusIndexResponse,
+  type StatusList,
+} from "@shared/statusList";
+
+export type RevocationStatus = {
+  issuer: string;
+  statusListIndex: number;
+  reason: string;
+  revokedAt: string;
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const listCache = new Map<string, { fetchedAt: number; list: StatusList; bits: Uint8Array }>();
+
+async function getJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Status list error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export async function fetchStatusList(issuer: string, signal?: AbortSignal) {
+  const cached = listCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached;
+  const list = await getJson<StatusList>(
+    `/api/status-lists/${encodeURIComponent(issuer)}`,
+    signal,
+  );
+  const entry = { fetchedAt: Date.now(), list, bits: await decodeStatusList(list.encodedList) };
+  listCache.set(issuer, entry);
+  return entry;
+}
+
+// Returns null when the certificate is not revoked (or has no status entry)
+export async function checkRevocation(
+  issuer: string,
+  certificateNumber: string,
+  statusListIndex?: number,
+  signal?: AbortSignal,
+): Promise<RevocationStatus | null> {
+  let index = statusListIndex;
+  if (index === undefined) {
+    const lookup = await getJson<StatusIndexResponse>(
+      `/api/status-lists/${encodeURIComponent(issuer)}/entries/${encodeURIComponent(certificateNumber)}`,
+      signal,
+    );
+    if (lookup.statusListIndex === null) return null;
+    index = lookup.statusListIndex;
+  }
+
+  const { list, bits } = await fetchStatusList(issuer, signal);
+  if (!getStatusBit(bits, index)) return null;
+  const detail = list.details[index];
+  return {
+    issuer,
+    statusListIndex: index,
+    reason: detail?.reason || "Unspecified",
+    revokedAt: detail?.revokedAt || list.validFrom,
+  };
+}
+
+// Run at issuance; the indexes belong in each certificate's signed QR
+export async function assignStatusIndexes(
+  issuer: string,
+  certificateNumbers: string[],
+): Promise<StatusAssignmentResponse> {
+  const response = await fetch(`/api/status-lists/${encodeURIComponent(issuer)}/entries`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+    body: JSON.stringify({ certificateNumbers }),
+  });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || `Status assignment failed: ${response.status}`);
+  return body;
+}
+
+export async function revokeCertificates(
+  issuer: string,
+  request: BulkRevocationRequest,
+): Promise<BulkRevocationResponse> {
+  const response = await fetch(`/api/status-lists/${encodeURIComponent(issuer)}/revoke`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+    body: JSON.stringify(request),
+  });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || `Revocation failed: ${response.status}`);
+  listCache.delete(issuer);
+  return body;
+}
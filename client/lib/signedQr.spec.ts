@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { base64UrlEncode, utf8Encode } from "@shared/encoding";
+import type { TrustedKey, TrustList } from "@shared/trustList";
+import {
+  compareClaimsWithRecord,
+  verifySignedQr,
+  type SignedCertificateClaims,
+} from "./signedQr";
+
+const claims: SignedCertificateClaims = {
+  iss: "nilamber-pitamber",
+  sub: "JH-NU-2019-000123",
+  name: "Aarav Kumar",
+  institution: "Nilamber-Pitamber University",
+  course: "B.Sc",
+  year: 2019,
+};
+
+async function sign(
+  payload: object,
+  alg: "EdDSA" | "ES256",
+  kid: string,
+): Promise<{ token: string; key: TrustedKey }> {
+  const params =
+    alg === "EdDSA"
+      ? { gen: { name: "Ed25519" }, sign: { name: "Ed25519" } }
+      : {
+          gen: { name: "ECDSA", namedCurve: "P-256" },
+          sign: { name: "ECDSA", hash: "SHA-256" },
+        };
+  const pair = (await crypto.subtle.generateKey(params.gen, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const header = base64UrlEncode(utf8Encode(JSON.stringify({ alg, kid })));
+  const body = base64UrlEncode(utf8Encode(JSON.stringify(payload)));
+  const sig = new Uint8Array(
+    await crypto.subtle.sign(params.sign, pair.privateKey, utf8Encode(`${header}.${body}`)),
+  );
+  const jwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  return {
+    token: `${header}.${body}.${base64UrlEncode(sig)}`,
+    key: { kid, alg, jwk, notBefore: "2015-01-01T00:00:00Z", status: "active" },
+  };
+}
+
+function trustList(keys: TrustedKey[], id = "nilamber-pitamber"): TrustList {
+  return {
+    version: 1,
+    updatedAt: "2025-01-01T00:00:00Z",
+    institutions: [{ id, name: "Nilamber-Pitamber University", keys }],
+  };
+}
+
+describe("verifySignedQr", () => {
+  it("accepts Ed25519 and ES256 signatures from known issuer keys", async () => {
+    for (const alg of ["EdDSA", "ES256"] as const) {
+      const { token, key } = await sign(claims, alg, `np-${alg}`);
+      const check = await verifySignedQr(token, trustList([key]));
+      expect(check.valid).toBe(true);
+      expect(check.claims?.sub).toBe(claims.sub);
+    }
+  });
+
+  it("rejects tampered payloads", async () => {
+    const { token, key } = await sign(claims, "EdDSA", "np-1");
+    const [h, , s] = token.split(".");
+    const forged = base64UrlEncode(
+      utf8Encode(JSON.stringify({ ...claims, name: "Someone Else" })),
+    );
+    const check = await verifySignedQr(`${h}.${forged}.${s}`, trustList([key]));
+    expect(check.valid).toBe(false);
+    expect(check.error).toBe("bad-signature");
+  });
+
+  it("rejects unknown keys and keys of another issuer", async () => {
+    const { token, key } = await sign(claims, "EdDSA", "np-1");
+    expect((await verifySignedQr(token, trustList([]))).error).toBe("unknown-key");
+    expect(
+      (await verifySignedQr(token, trustList([key], "ranchi"))).error,
+    ).toBe("issuer-mismatch");
+  });
+
+  it("honours key revocation and rotation windows", async () => {
+    const { token, key } = await sign({ ...claims, iat: 1700000000 }, "EdDSA", "np-1");
+    const revoked = { ...key, status: "revoked" as const, revokedAt: "2020-01-01T00:00:00Z" };
+    expect((await verifySignedQr(token, trustList([revoked]))).error).toBe("revoked-key");
+
+    // Retired keys still verify what they signed inside their window
+    const retired = { ...key, status: "retired" as const, notAfter: "2024-01-01T00:00:00Z" };
+    expect((await verifySignedQr(token, trustList([retired]))).valid).toBe(true);
+    const expiredWindow = { ...key, notAfter: "2022-01-01T00:00:00Z" };
+    expect((await verifySignedQr(token, trustList([expiredWindow]))).error).toBe(
+      "key-not-valid",
+    );
+  });
+
+  it("rejects revoked keys whatever signing time the token claims", async () => {
+    // Whoever holds the compromised key can backdate iat to before the revocation
+    const { token, key } = await sign({ ...claims, iat: 1500000000 }, "EdDSA", "np-1");
+    const revoked = { ...key, status: "revoked" as const, revokedAt: "2020-01-01T00:00:00Z" };
+    expect((await verifySignedQr(token, trustList([revoked]))).error).toBe("revoked-key");
+  });
+
+  it("rejects expired payloads", async () => {
+    const { token, key } = await sign({ ...claims, exp: 1 }, "EdDSA", "np-1");
+    expect((await verifySignedQr(token, trustList([key]))).error).toBe("expired");
+  });
+
+  it("reports malformed tokens", async () => {
+    expect((await verifySignedQr("a.b.c", trustList([]))).error).toBe("malformed");
+  });
+});
+
+describe("compareClaimsWithRecord", () => {
+  it("lists fields that differ, ignoring case and spacing", () => {
+    expect(
+      compareClaimsWithRecord(claims, {
+        certificateNumber: "JH-NU-2019-000123",
+        hashHex: "",
+        name: "aarav  kumar",
+        institution: "Nilamber-Pitamber University",
+        course: "B.Tech",
+        year: 2019,
+      }),
+    ).toEqual(["course"]);
+  });
+});
@@ -0,0 +1,137 @@
+import { findInstitution, findTrustedKey, type TrustList } from "@shared/trustList";
+import { looksLikeCompactJws, parseCompactJws, verifyJwsSignature } from "./jws";
+import type { RegistryRecord } from "./verify";
+
+// Claims carried in a signed certificate QR code (compact JWS payload)
+export type SignedCertificateClaims = {
+  iss: string;
+  sub: string;
+  name: string;
+  institution: string;
+  course: string;
+  year: number;
+  // SHA-256 of the issued file, when the issuer embeds it
+  hash?: string;
+  // Position in the issuer's revocation status list
+  statusListIndex?: number;
+  iat?: number;
+  exp?: number;
+};
+
+export type SignedQrError =
+  | "malformed"
+  | "unknown-key"
+  | "revoked-key"
+  | "key-not-valid"
+  | "issuer-mismatch"
+  | "bad-signature"
+  | "expired";
+
+export type SignedQrCheck = {
+  valid: boolean;
+  alg?: string;
+  kid?: string;
+  issuer?: string;
+  claims?: SignedCertificateClaims;
+  error?: SignedQrError;
+  errorMessage?: string;
+  // Claim names that disagree with the matched registry record
+  mismatches: string[];
+};
+
+export const isSignedQrPayload = looksLikeCompactJws;
+
+function fail(
+  check: SignedQrCheck,
+  error: SignedQrError,
+  errorMessage: string,
+): SignedQrCheck {
+  return { ...check, valid: false, error, errorMessage };
+}
+
+export async function verifySignedQr(
+  token: string,
+  trustList: TrustList,
+  now: Date = new Date(),
+): Promise<SignedQrCheck> {
+  const check: SignedQrCheck = { valid: false, mismatches: [] };
+
+  let jws;
+  try {
+    jws = parseCompactJws(token);
+  } catch (e) {
+    return fail(check, "malformed", e instanceof Error ? e.message : String(e));
+  }
+
+  const claims = jws.payload as SignedCertificateClaims;
+  check.alg = jws.header.alg;
+  check.kid = jws.header.kid;
+  check.issuer = claims.iss;
+  check.claims = claims;
+  if (!claims.iss || !claims.sub) {
+    return fail(check, "malformed", "Payload is missing issuer or certificate number");
+  }
+
+  // Keys are checked against when the payload was signed, so certificates
+  // signed before a key was rotated out keep verifying
+  const signedAt = claims.iat ? new Date(claims.iat * 1000) : now;
+  const lookup = findTrustedKey(trustList, jws.header.kid || "", signedAt);
+  if (lookup.ok === false) return fail(check, lookup.reason, lookup.message);
+  if (findInstitution(trustList, claims.iss) !== lookup.institution) {
+    return fail(check, "issuer-mismatch", `Key "${lookup.key.kid}" does not belong to issuer "${claims.iss}"`);
+  }
+
+  let ok = false;
+  try {
+    ok = await verifyJwsSignature(jws, lookup.key.jwk);
+  } catch (e) {
+    return fail(check, "bad-signature", e instanceof Error ? e.message : String(e));
+  }
+  if (!ok) return fail(check, "bad-signature", "Signature does not match payload");
+
+  if (claims.exp && claims.exp * 1000 < now.getTime()) {
+    return fail(check, "expired", "Signed payload has expired");
+  }
+
+  return { ...check, valid: true };
+}
+
+const normalise = (v: unknown) => String(v ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Field names where `claimed` disagrees with `record`; missing claims are ignored
+export function compareRecords(
+  claimed: Partial<RegistryRecord>,
+  record: RegistryRecord,
+): string[] {
+  const pairs: [string, unknown, unknown][] = [
+    ["certificate number", claimed.certificateNumber, record.certificateNumber],
+    ["name", claimed.name, record.name],
+    ["institution", claimed.institution, record.institution],
+    ["course", claimed.course, record.course],
+    ["year", claimed.year, record.year],
+  ];
+  return pairs
+    .filter(([, a, b]) => a !== undefined && normalise(a) !== normalise(b))
+    .map(([field]) => field);
+}
+
+export function compareClaimsWithRecord(
+  claims: SignedCertificateClaims,
+  record: RegistryRecord,
+): string[] {
+  return compareRecords(claimsToRecord(claims, ""), record);
+}
+
+export function claimsToRecord(
+  claims: SignedCertificateClaims,
+  hashHex: string,
+): RegistryRecord {
+  return {
+    certificateNumber: claims.sub,
+    hashHex: claims.hash || hashHex,
+    name: claims.name,
+    institution: claims.institution,
+    course: claims.course,
+    year: claims.year,
+  };
+}
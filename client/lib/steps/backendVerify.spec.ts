@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { backendIssue } from "./backendVerify";
+
+describe("backendIssue", () => {
+  it("gives known backend messages specific codes and severities", () => {
+    expect(backendIssue("Certificate number found but file hash does not match registry record")).toEqual({
+      code: "registry.hash-mismatch",
+      severity: "warning",
+      source: "backend-verify",
+      message: "Certificate number found but file hash does not match registry record",
+    });
+    expect(backendIssue("⚠️ AI detected this certificate as FAKE (91.0% confidence)")).toMatchObject({
+      code: "ml.fake",
+      severity: "error",
+    });
+    expect(backendIssue("✅ AI verified certificate as AUTHENTIC (97.2% confidence)")).toMatchObject({
+      code: "ml.authentic",
+      severity: "pass",
+    });
+    expect(backendIssue("Empty file content").severity).toBe("error");
+  });
+
+  it("falls back to a generic warning for anything else", () => {
+    expect(backendIssue("Issuer seal looks unusual")).toMatchObject({
+      code: "backend-verify.message",
+      severity: "warning",
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { apiClient } from "@shared/api";
+import { issueFromText, type Issue, type IssueSeverity } from "@shared/issues";
+import type { VerificationStep } from "../pipeline";
+
+// Messages the backend is known to send, under the codes the local
+// registry check uses for the same finding
+const KNOWN_MESSAGES: { pattern: RegExp; code: string; severity: IssueSeverity }[] = [
+  { pattern: /hash does not match/i, code: "registry.hash-mismatch", severity: "warning" },
+  { pattern: /duplicate certificate number/i, code: "registry.duplicate-number", severity: "warning" },
+  {
+    pattern: /no registry match|record not found|not found in (the )?registry/i,
+    code: "registry.no-match",
+    severity: "warning",
+  },
+  { pattern: /\brevoked\b/i, code: "registry.revoked", severity: "error" },
+  { pattern: /AI detected .*\bFAKE\b/i, code: "ml.fake", severity: "error" },
+  { pattern: /AI verified .*\bAUTHENTIC\b/i, code: "ml.authentic", severity: "pass" },
+  { pattern: /missing file type/i, code: "registry.missing-type", severity: "info" },
+  { pattern: /empty file/i, code: "registry.empty-file", severity: "error" },
+];
+
+// Structured issue for one of the backend's free-text messages; unknown
+// ones fall back to reading the emoji marker
+export function backendIssue(text: string): Issue {
+  const issue = issueFromText(text, "backend-verify");
+  const known = KNOWN_MESSAGES.find(({ pattern }) => pattern.test(issue.message));
+  return known ? { ...issue, code: known.code, severity: known.severity } : issue;
+}
+
+export const backendVerifyStep: VerificationStep = {
+  id: "backend-verify",
+  label: "Verify against institutional registry",
+  inputs: ["uploadId", "hashHex"],
+  outputs: ["result.metadata.backendVerification", "result.matchedRecord"],
+  dependsOn: ["upload"],
+  timeoutMs: 60_000,
+  onFailure: "continue",
+  async run({ state, result, signal }) {
+    const verificationResult = await apiClient.verifyCertificate(state.uploadId, { signal });
+    result.metadata.backendVerification = verificationResult;
+    console.log("✅ Backend verification:", verificationResult);
+
+    // The backend still reports free text
+    result.issues.push(...verificationResult.issues.map(backendIssue));
+
+    if (verificationResult.matched_record) {
+      result.matchedRecord = {
+        certificateNumber: verificationResult.matched_record.certificate_number,
+        hashHex: state.hashHex,
+        name: verificationResult.matched_record.name,
+        institution: verificationResult.matched_record.institution,
+        course: verificationResult.matched_record.course,
+        year: verificationResult.matched_record.year,
+      };
+    }
+  },
+};
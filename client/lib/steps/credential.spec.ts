@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import type { CredentialCheck } from "../credential";
+import type { StepContext } from "../pipeline";
+import type { VerificationResult } from "../verify";
+import { MOCK_REGISTRY } from "./localRegistry";
+import { credentialMatchStep } from "./credential";
+
+const aarav = MOCK_REGISTRY[0];
+
+const check = (overrides: Partial<CredentialCheck> = {}): CredentialCheck => ({
+  format: "jwt",
+  source: "file",
+  valid: true,
+  proofType: "EdDSA",
+  issuer: "nilamber-pitamber",
+  types: ["VerifiableCredential"],
+  record: aarav,
+  mismatches: [],
+  ...overrides,
+});
+
+async function run(credential: CredentialCheck, matchedRecord?: VerificationResult["matchedRecord"]) {
+  const result: VerificationResult = {
+    status: "invalid",
+    issues: [],
+    metadata: { fileName: "cert.jwt", size: 10, mime: "application/jwt", hashHex: "", credential },
+    matchedRecord,
+  };
+  await credentialMatchStep.run({ result } as StepContext);
+  return result;
+}
+
+describe("credentialMatchStep", () => {
+  it("passes an uploaded credential with a complete subject", async () => {
+    const result = await run(check());
+    expect(result.matchedRecord).toBe(aarav);
+    expect(result.issues.map((i) => i.code)).toEqual(["credential.verified"]);
+  });
+
+  it("doesn't pass an uploaded credential without a complete subject", async () => {
+    const result = await run(check({ record: undefined }));
+    expect(result.matchedRecord).toBeUndefined();
+    expect(result.issues).toEqual([]);
+  });
+
+  it("doesn't pass an uploaded credential that disagrees with the registry", async () => {
+    const result = await run(check({ record: { ...aarav, name: "Someone Else" } }), aarav);
+    expect(result.issues.map((i) => i.code)).toEqual(["credential.record-mismatch"]);
+  });
+});
@@ -0,0 +1,90 @@
+import { utf8Decode } from "@shared/encoding";
+import { isCredentialFile, looksLikeCredential, verifyCredential } from "../credential";
+import type { VerificationStep } from "../pipeline";
+import { compareRecords } from "../signedQr";
+import { loadTrustList } from "../trustList";
+
+export const credentialStep: VerificationStep = {
+  id: "credential",
+  label: "Verify verifiable credential",
+  inputs: ["buffer", "hashHex"],
+  outputs: ["result.metadata.credential"],
+  dependsOn: ["hash", "qr"],
+  onFailure: "continue",
+  failureIssue: "Failed to verify verifiable credential",
+  when: ({ file, result }) =>
+    isCredentialFile(file) || looksLikeCredential(result.metadata.qrData),
+  async run({ file, state, result }) {
+    const fromFile = isCredentialFile(file);
+    const input = fromFile ? utf8Decode(new Uint8Array(state.buffer)) : result.metadata.qrData;
+    const check = await verifyCredential(input, await loadTrustList(), {
+      source: fromFile ? "file" : "qr",
+      hashHex: state.hashHex,
+    });
+    result.metadata.credential = check;
+    if (!check.valid) {
+      const error = check.error ?? "invalid";
+      result.issues.push({
+        code: `credential.${error}`,
+        severity: check.error === "malformed" ? "warning" : "error",
+        source: "credential",
+        message: `Credential proof could not be verified: ${check.errorMessage}`,
+        params: { error },
+      });
+    } else if (!check.record) {
+      result.issues.push({
+        code: "credential.incomplete-subject",
+        severity: "warning",
+        source: "credential",
+        message: "Credential subject is missing a name or certificate number",
+      });
+    }
+  },
+};
+
+// Runs after the registry checks, like signed-qr-match, so a credential on
+// a scanned certificate can be compared with whatever record was found
+export const credentialMatchStep: VerificationStep = {
+  id: "credential-match",
+  label: "Compare credential with registry",
+  inputs: [],
+  outputs: ["result.matchedRecord"],
+  dependsOn: ["credential"],
+  onFailure: "continue",
+  when: ({ result }) => !!result.metadata.credential,
+  async run({ result }) {
+    const check = result.metadata.credential;
+
+    // The trust score weighs failed proofs; there is nothing to compare
+    if (!check.valid) return;
+
+    if (result.matchedRecord && check.record) {
+      check.mismatches = compareRecords(check.record, result.matchedRecord);
+      check.mismatches.forEach((field) =>
+        result.issues.push({
+          code: "credential.record-mismatch",
+          severity: "warning",
+          source: "credential-match",
+          message: `Credential ${field} differs from registry record`,
+          params: { field },
+          evidence: [{ kind: "record", ref: result.matchedRecord.certificateNumber }],
+        }),
+      );
+    }
+
+    // An uploaded credential file is only as good as its proof; a credential
+    // in a QR code stands in for the backend when it is unavailable. Either
+    // way it needs a complete subject that agrees with any registry record.
+    if (!check.record || check.mismatches.length > 0) return;
+    if (check.source === "file" || !result.metadata.backendVerification) {
+      result.matchedRecord ??= check.record;
+      result.issues.push({
+        code: "credential.verified",
+        severity: "pass",
+        source: "credential-match",
+        message: `Credential issued by ${check.issuerName || check.issuer} verified (${check.proofType})`,
+        params: { issuer: check.issuer, proofType: check.proofType },
+      });
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import { isCredentialFile } from "../credential";
+import { metadataFindings, parseDocumentMetadata } from "../documentMetadata";
+import type { VerificationStep } from "../pipeline";
+import type { VerificationResult } from "../verify";
+
+// The most specific issue date any matched source claims. A registry
+// record only has a year, so its last day is used.
+function claimedIssueDate(result: VerificationResult): Date | undefined {
+  const { credential, signedQr } = result.metadata;
+  if (credential?.valid && credential.issuedAt) return new Date(credential.issuedAt);
+  if (signedQr?.valid && signedQr.claims?.iat) return new Date(signedQr.claims.iat * 1000);
+  if (result.matchedRecord?.year) return new Date(Date.UTC(result.matchedRecord.year, 11, 31));
+  return undefined;
+}
+
+// Runs after the registry checks so the claimed issue date is known
+export const documentMetadataStep: VerificationStep = {
+  id: "document-metadata",
+  label: "Analyse document metadata",
+  inputs: ["buffer"],
+  outputs: ["result.metadata.documentMetadata"],
+  dependsOn: ["hash"],
+  onFailure: "continue",
+  when: ({ file }) => !isCredentialFile(file),
+  async run({ state, result }) {
+    const meta = parseDocumentMetadata(new Uint8Array(state.buffer));
+    if (!meta) return;
+    meta.findings = metadataFindings(meta, { issuedAt: claimedIssueDate(result) });
+    result.metadata.documentMetadata = meta;
+
+    meta.findings.forEach((f) =>
+      result.issues.push({
+        code: `metadata.${f.code}`,
+        severity: f.severity,
+        source: "document-metadata",
+        message: f.message,
+        evidence: [{ kind: "metadata", ref: "documentMetadata" }],
+      }),
+    );
+  },
+};
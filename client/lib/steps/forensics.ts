@@ -0,0 +1,76 @@
+import type { ForensicMethod, ForensicsResult } from "../forensics";
+import { runForensics } from "../forensicsClient";
+import type { VerificationStep } from "../pipeline";
+import { loadTrustPolicy } from "../trustPolicy";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+const METHOD_NAMES: Record<ForensicMethod, string> = {
+  ela: "compression",
+  noise: "noise",
+};
+
+// Works without the backend
+export const forensicsStep: VerificationStep = {
+  id: "forensics",
+  label: "Tamper forensics",
+  inputs: ["images"],
+  outputs: ["result.metadata.forensics"],
+  dependsOn: ["pages"],
+  timeoutMs: 60_000,
+  onFailure: "continue",
+  async run({ state, result, signal }) {
+    // Region score at which a page is reported as possibly edited
+    const threshold = (await loadTrustPolicy()).forensicsSuspicion;
+    for (const image of state.images) {
+      signal?.throwIfAborted();
+      let forensics: ForensicsResult;
+      try {
+        // A corrected copy has been resampled and re-encoded; only the
+        // original still carries the traces
+        forensics = await runForensics(image.original ?? image.file, signal);
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn("⚠️ Tamper forensics failed:", e);
+        result.issues.push({
+          code: "forensics.unavailable",
+          severity: "warning",
+          source: "forensics",
+          message: `Tamper forensics unavailable${pageSuffix(image.page)}`,
+          ...pageEvidence(image.page),
+        });
+        continue;
+      }
+      const entry = pageEntry(result, image.page);
+      if (entry) entry.forensics = forensics;
+      // Surface the most suspicious page at the top level
+      if (!result.metadata.forensics || forensics.score > result.metadata.forensics.score) {
+        result.metadata.forensics = forensics;
+        result.metadata.forensicsPage = image.page;
+      }
+
+      if (forensics.score < threshold) continue;
+      const suspicious = forensics.regions.filter((r) => r.score >= threshold);
+      const methods = [...new Set<ForensicMethod>(suspicious.flatMap((r) => r.methods))].map(
+        (m) => METHOD_NAMES[m],
+      );
+      const { params } = pageEvidence(image.page);
+      result.issues.push({
+        code: "forensics.tampering",
+        severity: "warning",
+        source: "forensics",
+        message: `Possible tampering: ${suspicious.length} region(s) with inconsistent ${methods.join(" and ")} (${(forensics.score * 100).toFixed(0)}% suspicion)${pageSuffix(image.page)}`,
+        params: { ...params, regions: suspicious.length, methods: methods.join(","), score: forensics.score },
+        evidence: suspicious.map((r) => ({
+          kind: "region",
+          page: image.page,
+          box: {
+            x: r.x / forensics.width,
+            y: r.y / forensics.height,
+            width: r.width / forensics.width,
+            height: r.height / forensics.height,
+          },
+        })),
+      });
+    }
+  },
+};
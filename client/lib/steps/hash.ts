@@ -0,0 +1,15 @@
+import { sha256Hex } from "../hash";
+import type { VerificationStep } from "../pipeline";
+
+export const hashStep: VerificationStep = {
+  id: "hash",
+  label: "Compute file hash",
+  inputs: [],
+  outputs: ["buffer", "hashHex", "result.metadata.hashHex"],
+  onFailure: "abort",
+  async run({ file, state, result }) {
+    state.buffer = await file.arrayBuffer();
+    state.hashHex = await sha256Hex(state.buffer);
+    result.metadata.hashHex = state.hashHex;
+  },
+};
@@ -0,0 +1,47 @@
+import { registerStep, type VerificationStep } from "../pipeline";
+import { backendVerifyStep } from "./backendVerify";
+import { credentialMatchStep, credentialStep } from "./credential";
+import { documentMetadataStep } from "./documentMetadata";
+import { forensicsStep } from "./forensics";
+import { hashStep } from "./hash";
+import { localRegistryStep } from "./localRegistry";
+import { mlStep, mlWithOcrStep } from "./ml";
+import { ocrStep } from "./ocr";
+import { ocrFieldMatchStep, ocrFieldsStep } from "./ocrFields";
+import { offlineOcrStep } from "./offlineOcr";
+import { pagesStep } from "./pages";
+import { pdfSignatureStep } from "./pdfSignature";
+import { phashStep } from "./phash";
+import { qrStep } from "./qr";
+import { revocationStep } from "./revocation";
+import { signedQrMatchStep, signedQrStep } from "./signedQr";
+import { trustScoreStep } from "./trustScore";
+import { uploadStep } from "./upload";
+
+// Built-in steps, in the order they run when dependencies allow
+export const DEFAULT_STEPS: VerificationStep[] = [
+  hashStep,
+  pdfSignatureStep,
+  pagesStep,
+  phashStep,
+  qrStep,
+  signedQrStep,
+  credentialStep,
+  mlStep,
+  uploadStep,
+  ocrStep,
+  offlineOcrStep,
+  ocrFieldsStep,
+  mlWithOcrStep,
+  backendVerifyStep,
+  localRegistryStep,
+  signedQrMatchStep,
+  credentialMatchStep,
+  ocrFieldMatchStep,
+  documentMetadataStep,
+  forensicsStep,
+  revocationStep,
+  trustScoreStep,
+];
+
+for (const step of DEFAULT_STEPS) registerStep(step);
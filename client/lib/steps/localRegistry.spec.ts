@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRUST_LIST, type TrustList } from "@shared/trustList";
+import type { VerificationResult } from "../verify";
+import { localVerification, MOCK_REGISTRY } from "./localRegistry";
+
+// Ranchi numbers carry a Luhn check digit here; JH-RU-2021-004567 fails it
+const luhnList: TrustList = {
+  ...DEFAULT_TRUST_LIST,
+  institutions: DEFAULT_TRUST_LIST.institutions.map((i) =>
+    i.id === "ranchi"
+      ? { ...i, certificateNumberFormats: [{ pattern: "JH-RU-\\d{4}-\\d{6,}", checksum: "luhn" }] }
+      : i,
+  ),
+};
+
+const ishita = MOCK_REGISTRY[1];
+const lookalike = { pHash: ishita.pHash!, dHash: ishita.dHash! };
+
+const result = (metadata: Partial<VerificationResult["metadata"]> = {}): VerificationResult => ({
+  status: "invalid",
+  issues: [],
+  metadata: { fileName: "scan.png", size: 10, mime: "image/png", hashHex: "edited", ...metadata },
+});
+
+const file = new File(["x"], "scan.png", { type: "image/png" });
+
+describe("localVerification", () => {
+  it("rejects a bad check digit even when the image looks like a registry record", () => {
+    const r = result({ ocrFields: { certificateNumber: "JH-RU-2021-004567" } });
+    localVerification(r, file, luhnList, lookalike);
+    expect(r.metadata.registryMatch).toBe("bad-checksum");
+    expect(r.matchedRecord).toBeUndefined();
+    expect(r.issues.map((i) => i.code)).toContain("registry.bad-checksum");
+  });
+
+  it("keeps the record a certificate number names over a look-alike template", () => {
+    const r = result({ ocrFields: { certificateNumber: "JH-NU-2019-000123" } });
+    localVerification(r, file, DEFAULT_TRUST_LIST, lookalike);
+    expect(r.matchedRecord?.name).toBe("Aarav Kumar");
+    expect(r.metadata.registryMatch).toBe("number");
+    expect(r.metadata.perceptualMatch).toBeUndefined();
+  });
+
+  it("never picks a record from the image alone", () => {
+    const r = result();
+    localVerification(r, file, DEFAULT_TRUST_LIST, lookalike);
+    expect(r.matchedRecord).toBeUndefined();
+    expect(r.metadata.registryMatch).toBe("none");
+  });
+
+  it("notes a look-alike image as support for the record it found", () => {
+    const r = result({ ocrFields: { certificateNumber: "JH-RU-2021-004567" } });
+    localVerification(r, file, DEFAULT_TRUST_LIST, lookalike);
+    expect(r.metadata.registryMatch).toBe("number");
+    expect(r.metadata.perceptualMatch?.certificateNumber).toBe("JH-RU-2021-004567");
+    expect(r.issues).toContainEqual(expect.objectContaining({ code: "registry.visual-match", severity: "info" }));
+  });
+});
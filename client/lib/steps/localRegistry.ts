@@ -0,0 +1,182 @@
+import { matchCertificateNumber, type CertificateNumberMatch } from "@shared/certificateNumber";
+import type { IssueEvidence, IssueParams, IssueSeverity } from "@shared/issues";
+import type { TrustList } from "@shared/trustList";
+import { isCredentialFile } from "../credential";
+import { namesMatch } from "../ocrFields";
+import { findPerceptualMatch, type PerceptualHashes } from "../phash";
+import type { VerificationStep } from "../pipeline";
+import type { RegistryRecord, VerificationResult } from "../verify";
+import { loadTrustList } from "../trustList";
+
+// Fallback mock registry for offline mode
+export const MOCK_REGISTRY: RegistryRecord[] = [
+  {
+    certificateNumber: "JH-NU-2019-000123",
+    hashHex: "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    name: "Aarav Kumar",
+    institution: "Nilamber-Pitamber University",
+    course: "B.Sc",
+    year: 2019,
+    pHash: "d1c4b3a96e4e31b1",
+    dHash: "0f1b3371e1c18f0f",
+  },
+  {
+    certificateNumber: "JH-RU-2021-004567",
+    hashHex: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+    name: "Ishita Singh",
+    institution: "Ranchi University",
+    course: "B.Tech",
+    year: 2021,
+    pHash: "9b64e4c3a3783c1e",
+    dHash: "e0c89ab2b0b0c8e0",
+  },
+];
+
+// Uses the numbering formats institutions registered in the trust list
+export function extractCertificateNumber(
+  input: string | null | undefined,
+  trustList: TrustList,
+): CertificateNumberMatch | null {
+  return matchCertificateNumber(input, trustList);
+}
+
+const CHECKSUM_NAMES = { none: "", luhn: "Luhn", mod97: "mod-97" };
+
+// Local verification fallback
+export function localVerification(
+  result: VerificationResult,
+  file: File,
+  trustList: TrustList,
+  hashes?: PerceptualHashes,
+) {
+  // Try to infer certificate number from filename or QR
+  const fromName = extractCertificateNumber(file.name, trustList);
+  // A plain document QR may carry the number even when the primary code doesn't
+  const fromQr = [result.metadata.qrData, ...(result.metadata.qrCodes ?? []).map((c) => c.data)]
+    .map((data) => extractCertificateNumber(data, trustList))
+    .find(Boolean);
+  const signedQr = result.metadata.signedQr;
+  const fromSignedQr = signedQr?.valid ? signedQr.claims.sub : null;
+  const credential = result.metadata.credential;
+  const fromCredential = credential?.valid ? credential.record?.certificateNumber : null;
+  const fromOcr = result.metadata.ocrFields?.certificateNumber;
+  const certificateNumber =
+    fromSignedQr ||
+    fromCredential ||
+    fromQr?.certificateNumber ||
+    fromOcr ||
+    fromName?.certificateNumber;
+
+  // Numbers from signed sources are checked against the formats too
+  const format = extractCertificateNumber(certificateNumber, trustList);
+  if (format) {
+    result.metadata.certificateNumber = {
+      value: format.certificateNumber,
+      institution: format.institution.name,
+      checksum: format.format.checksum,
+      checksumValid: format.checksumValid,
+    };
+  }
+  const badChecksum = format && !format.checksumValid;
+
+  // Cross-verify against mock registry
+  const directHashMatch = MOCK_REGISTRY.find((r) => r.hashHex === result.metadata.hashHex);
+  const visualMatch =
+    !directHashMatch && hashes ? findPerceptualMatch(hashes, MOCK_REGISTRY) : null;
+  const numberMatches = certificateNumber
+    ? MOCK_REGISTRY.filter((r) => r.certificateNumber === certificateNumber)
+    : [];
+  // Last resort: the holder's name as read from the document itself
+  const ocrName = result.metadata.ocrFields?.name;
+  const nameMatch = ocrName ? MOCK_REGISTRY.find((r) => namesMatch(ocrName, r.name)) : undefined;
+
+  const issue = (
+    code: string,
+    severity: IssueSeverity,
+    message: string,
+    extra: { params?: IssueParams; evidence?: IssueEvidence[] } = {},
+  ) => result.issues.push({ code: `registry.${code}`, severity, source: "local-registry", message, ...extra });
+  if (directHashMatch) {
+    result.matchedRecord = directHashMatch;
+    result.metadata.registryMatch = "hash";
+  } else if (badChecksum) {
+    // A number that fails its check digit was made up, however much the
+    // document looks like a registry template
+    result.metadata.registryMatch = "bad-checksum";
+    issue(
+      "bad-checksum",
+      "error",
+      `Certificate number ${format.certificateNumber} matches the ${format.institution.name} format but fails its ${CHECKSUM_NAMES[format.format.checksum]} check digit`,
+      { params: { certificateNumber: format.certificateNumber, checksum: format.format.checksum } },
+    );
+  } else if (numberMatches.length > 0) {
+    result.matchedRecord = numberMatches[0];
+    result.metadata.registryMatch = numberMatches.length > 1 ? "duplicate-number" : "number";
+    issue("hash-mismatch", "warning", "Certificate number found but file hash does not match registry record", {
+      evidence: [{ kind: "record", ref: certificateNumber }],
+    });
+    if (numberMatches.length > 1) {
+      issue("duplicate-number", "warning", "Duplicate certificate number detected in registry (possible clone)", {
+        params: { matches: numberMatches.length },
+        evidence: [{ kind: "record", ref: certificateNumber }],
+      });
+    }
+  } else if (nameMatch) {
+    result.matchedRecord = nameMatch;
+    result.metadata.registryMatch = "name";
+    issue(
+      "name-only-match",
+      "warning",
+      `Name on document matches registry record ${nameMatch.certificateNumber}, but no certificate number could be confirmed`,
+      { evidence: [{ kind: "record", ref: nameMatch.certificateNumber }] },
+    );
+  } else {
+    result.metadata.registryMatch = "none";
+    issue("no-match", "warning", "No registry match. Please contact issuing institution for manual validation");
+  }
+
+  // Many certificates share one institution template, so looking like a
+  // registry image only supports a record found by number or name; it
+  // never picks one.
+  if (visualMatch && visualMatch.record === result.matchedRecord) {
+    result.metadata.perceptualMatch = {
+      certificateNumber: visualMatch.record.certificateNumber,
+      pHashDistance: visualMatch.pHashDistance,
+      dHashDistance: visualMatch.dHashDistance,
+    };
+    issue(
+      "visual-match",
+      "info",
+      `Looks like the issued image of registry record ${visualMatch.record.certificateNumber} (${visualMatch.pHashDistance}/64 bits apart)`,
+      {
+        params: { pHashDistance: visualMatch.pHashDistance, dHashDistance: visualMatch.dHashDistance },
+        evidence: [{ kind: "record", ref: visualMatch.record.certificateNumber }],
+      },
+    );
+  }
+
+  // Basic validation
+  if (!file.type) issue("missing-type", "info", "Missing file type metadata");
+  if (file.size === 0) issue("empty-file", "error", "Empty file content");
+}
+
+export const localRegistryStep: VerificationStep = {
+  id: "local-registry",
+  label: "Check local registry",
+  inputs: ["hashHex"],
+  outputs: ["result.matchedRecord", "result.metadata.registryMatch"],
+  dependsOn: ["hash"],
+  onFailure: "continue",
+  // Only needed when the backend could not give a verdict
+  when: ({ file, result }) => !result.metadata.backendVerification && !isCredentialFile(file),
+  async run({ file, result, state }) {
+    console.warn("⚠️ Backend verification failed, falling back to local registry");
+    result.issues.push({
+      code: "registry.backend-unavailable",
+      severity: "info",
+      source: "local-registry",
+      message: "Backend verification unavailable - using local verification",
+    });
+    localVerification(result, file, await loadTrustList(), state.perceptualHashes);
+  },
+};
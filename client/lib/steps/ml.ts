@@ -0,0 +1,130 @@
+import { apiClient, type MLDetectionResponse } from "@shared/api";
+import type { AnalysisImage, StepContext, VerificationStep } from "../pipeline";
+import type { VerificationResult } from "../verify";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+function recordMlResult(
+  result: VerificationResult,
+  mlResult: MLDetectionResponse,
+  source: string,
+  page?: number,
+) {
+  const entry = pageEntry(result, page);
+  if (entry) entry.mlDetection = mlResult;
+
+  // Surface the most suspicious page at the top level
+  const current = result.metadata.mlDetection;
+  const moreSuspicious =
+    !current ||
+    (mlResult.is_fake && !current.is_fake) ||
+    (mlResult.is_fake === current.is_fake &&
+      mlResult.is_fake &&
+      mlResult.confidence > current.confidence);
+  if (moreSuspicious) {
+    result.metadata.mlDetection = mlResult;
+    result.metadata.mlPage = page;
+  }
+
+  const { params, evidence } = pageEvidence(page);
+  const confidence = `${(mlResult.confidence * 100).toFixed(1)}%`;
+  if (mlResult.success) {
+    result.issues.push(
+      mlResult.is_fake
+        ? {
+            code: "ml.fake",
+            severity: "error",
+            source,
+            message: `AI detected this certificate as FAKE (${confidence} confidence)${pageSuffix(page)}`,
+            params: { ...params, confidence: mlResult.confidence },
+            evidence,
+          }
+        : {
+            code: "ml.authentic",
+            severity: "pass",
+            source,
+            message: `AI verified certificate as AUTHENTIC (${confidence} confidence)${pageSuffix(page)}`,
+            params: { ...params, confidence: mlResult.confidence },
+            evidence,
+          },
+    );
+  } else if (mlResult.error_message) {
+    result.issues.push({
+      code: "ml.error",
+      severity: "warning",
+      source,
+      message: `ML Detection error: ${mlResult.error_message}${pageSuffix(page)}`,
+      params: { ...params, error: mlResult.error_message },
+      evidence,
+    });
+  }
+}
+
+async function detectPages(
+  { state, result, signal }: StepContext,
+  images: AnalysisImage[],
+  withOcr: boolean,
+) {
+  const source = withOcr ? "ml-ocr" : "ml";
+  state.mlCompleted ??= new Set();
+  for (const image of images) {
+    signal?.throwIfAborted();
+    try {
+      console.log(withOcr ? "🤖 Attempting ML Detection with OCR text..." : "🤖 Attempting ML Detection...");
+      const pageText = withOcr
+        ? image.page
+          ? pageEntry(result, image.page)?.ocrText
+          : state.ocrText
+        : undefined;
+      const mlResult = await apiClient.detectFakeCertificate(
+        image.file,
+        pageText,
+        withOcr ? state.uploadId : undefined,
+        { signal },
+      );
+      console.log("✅ ML Detection completed:", mlResult);
+      state.mlCompleted.add(image);
+      recordMlResult(result, mlResult, source, image.page);
+    } catch (mlError) {
+      console.warn("⚠️ ML Detection failed:", mlError);
+      result.issues.push({
+        code: `${source}.unavailable`,
+        severity: "warning",
+        source,
+        message: `AI-powered fake detection${withOcr ? " with OCR" : ""} unavailable${pageSuffix(image.page)}`,
+        ...pageEvidence(image.page),
+      });
+    }
+  }
+}
+
+// First pass runs before upload so AI results exist even when the backend
+// upload fails.
+export const mlStep: VerificationStep = {
+  id: "ml",
+  label: "AI fake detection",
+  inputs: ["images"],
+  outputs: ["mlCompleted", "result.metadata.mlDetection"],
+  dependsOn: ["pages"],
+  timeoutMs: 120_000,
+  onFailure: "continue",
+  run: (ctx) => detectPages(ctx, ctx.state.images, false),
+};
+
+// Retry pages that failed the first pass, now with OCR text as context
+export const mlWithOcrStep: VerificationStep = {
+  id: "ml-ocr",
+  label: "AI fake detection with OCR text",
+  inputs: ["images", "uploadId"],
+  outputs: ["mlCompleted", "result.metadata.mlDetection"],
+  dependsOn: ["ocr"],
+  timeoutMs: 120_000,
+  onFailure: "continue",
+  when: ({ state }) =>
+    state.images.some((image) => !state.mlCompleted?.has(image)),
+  run: (ctx) =>
+    detectPages(
+      ctx,
+      ctx.state.images.filter((image) => !ctx.state.mlCompleted?.has(image)),
+      true,
+    ),
+};
@@ -0,0 +1,40 @@
+import { apiClient } from "@shared/api";
+import type { VerificationStep } from "../pipeline";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+export const ocrStep: VerificationStep = {
+  id: "ocr",
+  label: "Extract text (OCR)",
+  inputs: ["images", "uploadId"],
+  outputs: ["ocrText", "result.metadata.ocrText"],
+  dependsOn: ["upload", "pages"],
+  timeoutMs: 120_000,
+  onFailure: "continue",
+  async run({ state, result, signal }) {
+    const texts: string[] = [];
+    for (const image of state.images) {
+      signal?.throwIfAborted();
+      try {
+        const ocrResult = await apiClient.extractText(image.file, { signal });
+        const entry = pageEntry(result, image.page);
+        if (entry) entry.ocrText = ocrResult.extracted_text;
+        texts.push(ocrResult.extracted_text);
+        console.log("✅ OCR completed:", ocrResult);
+      } catch (ocrError) {
+        console.warn("⚠️ OCR failed:", ocrError);
+        result.issues.push({
+          code: "ocr.failed",
+          severity: "info",
+          source: "ocr",
+          message: `OCR text extraction failed${pageSuffix(image.page)}`,
+          ...pageEvidence(image.page),
+        });
+      }
+    }
+    if (texts.length > 0) {
+      state.ocrText = texts.join("\n\n");
+      result.metadata.ocrText = state.ocrText;
+      result.metadata.ocrSource = "backend";
+    }
+  },
+};
@@ -0,0 +1,44 @@
+import { compareFieldsWithRecord, extractFields } from "../ocrFields";
+import type { VerificationStep } from "../pipeline";
+import { loadTrustList } from "../trustList";
+
+export const ocrFieldsStep: VerificationStep = {
+  id: "ocr-fields",
+  label: "Extract certificate fields",
+  inputs: ["ocrText"],
+  outputs: ["result.metadata.ocrFields"],
+  // No dependency on a particular OCR step: either the backend or the
+  // offline engine supplies ocrText
+  onFailure: "continue",
+  async run({ state, result }) {
+    result.metadata.ocrFields = extractFields(state.ocrText, await loadTrustList());
+  },
+};
+
+// Runs once every registry check has had its say on matchedRecord
+export const ocrFieldMatchStep: VerificationStep = {
+  id: "ocr-field-match",
+  label: "Compare document fields with registry",
+  // ocrWords is optional: without it fields just aren't located
+  inputs: [],
+  outputs: ["result.metadata.fieldComparison"],
+  dependsOn: ["ocr-fields"],
+  onFailure: "continue",
+  when: ({ result }) => !!result.metadata.ocrFields,
+  async run({ state, result }) {
+    const comparison = compareFieldsWithRecord(result.metadata.ocrFields, result.matchedRecord, state.ocrWords);
+    result.metadata.fieldComparison = comparison;
+
+    const mismatches = comparison.filter((c) => c.status === "mismatch");
+    mismatches.forEach((c) =>
+      result.issues.push({
+        code: "ocr-fields.mismatch",
+        severity: "warning",
+        source: "ocr-field-match",
+        message: `${c.label} on document differs from registry ("${c.extracted}" vs "${c.expected}")`,
+        params: { field: c.field, extracted: c.extracted ?? "", expected: c.expected ?? "" },
+        evidence: [{ kind: "field", ref: c.field }],
+      }),
+    );
+  },
+};
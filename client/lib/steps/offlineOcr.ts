@@ -0,0 +1,52 @@
+import type { OcrWord } from "../ocrFields";
+import type { VerificationStep } from "../pipeline";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+// Below this mean confidence the text is mostly noise
+const MIN_CONFIDENCE = 30;
+
+// Registered after the backend "ocr" step and only runs when that produced
+// nothing, e.g. in offline mode.
+export const offlineOcrStep: VerificationStep = {
+  id: "offline-ocr",
+  label: "Extract text in browser (OCR)",
+  inputs: ["images"],
+  outputs: ["ocrText", "ocrWords", "result.metadata.ocrText"],
+  dependsOn: ["pages"],
+  timeoutMs: 180_000,
+  onFailure: "continue",
+  failureIssue: "Offline text extraction failed",
+  when: ({ state }) => !state.ocrText && state.images.length > 0,
+  async run({ state, result, signal }) {
+    // tesseract.js and its WASM core are only loaded when needed
+    const { recognizeOffline } = await import("../offlineOcr");
+    const texts: string[] = [];
+    const words: OcrWord[] = [];
+    for (const image of state.images) {
+      signal?.throwIfAborted();
+      console.log("🔤 Running offline OCR...");
+      const { text, confidence, words: pageWords } = await recognizeOffline(image.file, signal);
+      if (confidence < MIN_CONFIDENCE || !text.trim()) {
+        result.issues.push({
+          code: "offline-ocr.unreadable",
+          severity: "info",
+          source: "offline-ocr",
+          message: `Offline OCR could not read the text reliably${pageSuffix(image.page)}`,
+          ...pageEvidence(image.page),
+        });
+        continue;
+      }
+      const entry = pageEntry(result, image.page);
+      if (entry) entry.ocrText = text;
+      texts.push(text);
+      words.push(...pageWords.map((w) => ({ ...w, page: image.page })));
+      console.log(`✅ Offline OCR completed (${confidence.toFixed(0)}% confidence)`);
+    }
+    if (texts.length > 0) {
+      state.ocrText = texts.join("\n\n");
+      state.ocrWords = words;
+      result.metadata.ocrText = state.ocrText;
+      result.metadata.ocrSource = "offline";
+    }
+  },
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import type { RenderedPage } from "../pdf";
+import type { VerificationResult } from "../verify";
+import { recordPdfPages } from "./pages";
+
+const result = (): VerificationResult => ({
+  status: "invalid",
+  issues: [],
+  metadata: { fileName: "transcript.pdf", size: 10, mime: "application/pdf", hashHex: "abc" },
+});
+
+const rendered = (count: number): RenderedPage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    page: i + 1,
+    width: 10,
+    height: 10,
+    image: new File([`page ${i + 1}`], `transcript-page-${i + 1}.png`, { type: "image/png" }),
+  }));
+
+describe("recordPdfPages", () => {
+  it("records every page when all were rendered", async () => {
+    const r = result();
+    const images = await recordPdfPages(r, { pageCount: 3, pages: rendered(3) });
+    expect(images.map((i) => i.page)).toEqual([1, 2, 3]);
+    expect(r.metadata.pageCount).toBe(3);
+    expect(r.metadata.pages).toHaveLength(3);
+    expect(r.issues).toEqual([]);
+  });
+
+  it("reports the real page count and warns about pages it skipped", async () => {
+    const r = result();
+    const images = await recordPdfPages(r, { pageCount: 14, pages: rendered(10) });
+    expect(images).toHaveLength(10);
+    expect(r.metadata.pageCount).toBe(14);
+    expect(r.metadata.pages).toHaveLength(10);
+    expect(r.issues).toEqual([
+      expect.objectContaining({ code: "pages.skipped", severity: "warning", params: { checked: 10, pageCount: 14 } }),
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { IssueEvidence } from "@shared/issues";
+import { sha256Hex } from "../hash";
+import type { RenderedPdf } from "../pdf";
+import type { AnalysisImage, VerificationStep } from "../pipeline";
+import type { VerificationResult } from "../verify";
+
+export function isPdf(file: File): boolean {
+  return file.type === "application/pdf" || /\.pdf$/i.test(file.name || "");
+}
+
+export function pageSuffix(page?: number) {
+  return page ? ` (page ${page})` : "";
+}
+
+// Evidence pointing at a rendered PDF page, and the page as a message param
+export function pageEvidence(page?: number): { params?: { page: number }; evidence?: IssueEvidence[] } {
+  return page ? { params: { page }, evidence: [{ kind: "page", page }] } : {};
+}
+
+export function pageEntry(result: VerificationResult, page?: number) {
+  if (!page) return undefined;
+  return result.metadata.pages?.find((p) => p.page === page);
+}
+
+// Records what was rendered, and warns when pages past the render limit
+// were left out of the image checks
+export async function recordPdfPages(result: VerificationResult, { pageCount, pages }: RenderedPdf): Promise<AnalysisImage[]> {
+  result.metadata.pageCount = pageCount;
+  result.metadata.pages = [];
+  for (const r of pages) {
+    result.metadata.pages.push({
+      page: r.page,
+      hashHex: await sha256Hex(await r.image.arrayBuffer()),
+    });
+  }
+  if (pages.length < pageCount) {
+    result.issues.push({
+      code: "pages.skipped",
+      severity: "warning",
+      source: "pages",
+      message: `Only the first ${pages.length} of ${pageCount} pages were checked for QR codes, text and tampering`,
+      params: { checked: pages.length, pageCount },
+    });
+  }
+  return pages.map((r) => ({ page: r.page, file: r.image }));
+}
+
+export const pagesStep: VerificationStep = {
+  id: "pages",
+  label: "Prepare pages",
+  inputs: [],
+  outputs: ["images", "result.metadata.pages", "result.metadata.preprocessing"],
+  timeoutMs: 60_000,
+  onFailure: "continue",
+  failureIssue: "Failed to render PDF pages for analysis",
+  async run({ file, preprocessed, state, result, signal }) {
+    if (file.type.startsWith("image/")) {
+      if (!preprocessed) {
+        state.images = [{ file }];
+        return;
+      }
+      const { quad, skewDegrees, manual } = preprocessed;
+      result.metadata.preprocessing = {
+        quad,
+        skewDegrees,
+        manual,
+        hashHex: await sha256Hex(await preprocessed.file.arrayBuffer()),
+      };
+      state.images = [{ file: preprocessed.file, original: file }];
+      return;
+    }
+    if (!isPdf(file)) {
+      state.images = [];
+      return;
+    }
+
+    // pdf.js is large, so only load it when a PDF actually shows up
+    const { renderPdfPages } = await import("../pdf");
+    state.images = await recordPdfPages(result, await renderPdfPages(file, { signal }));
+  },
+};
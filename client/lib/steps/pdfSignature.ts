@@ -0,0 +1,73 @@
+import { trustAnchorPems } from "@shared/trustList";
+import type { VerificationStep } from "../pipeline";
+import type { PdfSignatureCheck } from "../pdfSignature";
+import type { VerificationResult } from "../verify";
+import { loadTrustList } from "../trustList";
+import { isPdf } from "./pages";
+
+function recordSignatureIssues(
+  result: VerificationResult,
+  signatures: PdfSignatureCheck[],
+) {
+  signatures.forEach((sig, idx) => {
+    const label = signatures.length > 1 ? `Digital signature ${idx + 1}` : "Digital signature";
+    const signer = sig.signerName ? ` by ${sig.signerName}` : "";
+    const ref = {
+      source: "pdf-signature",
+      params: sig.signerName ? { signature: idx + 1, signer: sig.signerName } : { signature: idx + 1 },
+      evidence: [{ kind: "signature" as const, ref: String(idx) }],
+    };
+    if (!sig.digestValid) {
+      result.issues.push({
+        code: "pdf-signature.digest-mismatch",
+        severity: "error",
+        message: `${label}${signer} does not match the document contents`,
+        ...ref,
+      });
+    } else if (!sig.signatureValid) {
+      result.issues.push({
+        code: "pdf-signature.invalid",
+        severity: "error",
+        message: `${label}${signer} failed cryptographic verification`,
+        ...ref,
+      });
+    }
+    if (sig.modifiedAfterSigning) {
+      result.issues.push({
+        code: "pdf-signature.modified-after-signing",
+        severity: "warning",
+        message: `Document was modified after ${label.toLowerCase()}${signer} was applied`,
+        ...ref,
+      });
+    }
+    sig.chainErrors.forEach((err) =>
+      result.issues.push({
+        code: "pdf-signature.chain",
+        severity: "warning",
+        message: `${label}${signer}: ${err}`,
+        ...ref,
+        params: { ...ref.params, error: err },
+      }),
+    );
+  });
+}
+
+export const pdfSignatureStep: VerificationStep = {
+  id: "pdf-signature",
+  label: "Check embedded PDF signatures",
+  inputs: ["buffer"],
+  outputs: ["result.metadata.pdfSignatures"],
+  dependsOn: ["hash"],
+  onFailure: "continue",
+  failureIssue: "Failed to read embedded PDF signatures",
+  when: ({ file }) => isPdf(file),
+  async run({ state, result }) {
+    const { verifyPdfSignatures } = await import("../pdfSignature");
+    const trustList = await loadTrustList();
+    const signatures = await verifyPdfSignatures(state.buffer, trustAnchorPems(trustList));
+    if (signatures.length > 0) {
+      result.metadata.pdfSignatures = signatures;
+      recordSignatureIssues(result, signatures);
+    }
+  },
+};
@@ -0,0 +1,35 @@
+import { perceptualHashesFromFile } from "../phash";
+import type { VerificationStep } from "../pipeline";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+export const phashStep: VerificationStep = {
+  id: "phash",
+  label: "Compute perceptual hashes",
+  inputs: ["images"],
+  outputs: ["perceptualHashes", "result.metadata.perceptualHashes"],
+  dependsOn: ["pages"],
+  onFailure: "continue",
+  async run({ state, result, signal }) {
+    for (const image of state.images) {
+      signal?.throwIfAborted();
+      try {
+        const hashes = await perceptualHashesFromFile(image.file);
+        const entry = pageEntry(result, image.page);
+        if (entry) entry.perceptualHashes = hashes;
+        // The first page stands for the document as a whole
+        if (!state.perceptualHashes) {
+          state.perceptualHashes = hashes;
+          result.metadata.perceptualHashes = hashes;
+        }
+      } catch (e) {
+        result.issues.push({
+          code: "phash.failed",
+          severity: "info",
+          source: "phash",
+          message: `Failed to compute perceptual hash${pageSuffix(image.page)}`,
+          ...pageEvidence(image.page),
+        });
+      }
+    }
+  },
+};
@@ -0,0 +1,52 @@
+import { looksLikeCredential } from "../credential";
+import type { VerificationStep } from "../pipeline";
+import { decodeCodes, type DecodedCode } from "../qrDecoder";
+import { isSignedQrPayload } from "../signedQr";
+import { pageEntry, pageEvidence, pageSuffix } from "./pages";
+
+// Certificates often carry a verification QR next to a plain document or
+// URL code; the signed one is what the later steps should check
+function isVerificationPayload(data: string) {
+  return isSignedQrPayload(data) || looksLikeCredential(data);
+}
+
+export const qrStep: VerificationStep = {
+  id: "qr",
+  label: "Decode QR codes",
+  inputs: ["images"],
+  outputs: ["result.metadata.qrData", "result.metadata.qrCodes"],
+  dependsOn: ["pages"],
+  onFailure: "continue",
+  async run({ state, result, signal }) {
+    const all: (DecodedCode & { page?: number })[] = [];
+    for (const image of state.images) {
+      let codes: DecodedCode[];
+      try {
+        codes = await decodeCodes(image.file, signal);
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        result.issues.push({
+          code: "qr.unreadable",
+          severity: "info",
+          source: "qr",
+          message: `Failed to read QR code from image${pageSuffix(image.page)}`,
+          ...pageEvidence(image.page),
+        });
+        continue;
+      }
+      if (codes.length === 0) continue;
+      const entry = pageEntry(result, image.page);
+      if (entry) {
+        entry.qrCodes = codes;
+        entry.qrData = (codes.find((c) => isVerificationPayload(c.data)) ?? codes[0]).data;
+      }
+      all.push(...codes.map((c) => ({ ...c, page: image.page })));
+    }
+    if (all.length === 0) return;
+
+    result.metadata.qrCodes = all;
+    const primary = all.find((c) => isVerificationPayload(c.data)) ?? all[0];
+    result.metadata.qrData = primary.data;
+    result.metadata.qrPage = primary.page;
+  },
+};
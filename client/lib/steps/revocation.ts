@@ -0,0 +1,40 @@
+import { findInstitution } from "@shared/trustList";
+import type { VerificationStep } from "../pipeline";
+import { checkRevocation } from "../revocation";
+import { loadTrustList } from "../trustList";
+
+export const revocationStep: VerificationStep = {
+  id: "revocation",
+  label: "Check revocation status",
+  inputs: [],
+  outputs: ["result.revocation"],
+  dependsOn: ["hash"],
+  timeoutMs: 15_000,
+  onFailure: "continue",
+  failureIssue: "Revocation status could not be checked",
+  when: ({ result }) => !!result.matchedRecord || !!result.metadata.signedQr?.valid,
+  async run({ result, signal }) {
+    const signed = result.metadata.signedQr?.valid ? result.metadata.signedQr.claims : undefined;
+    const record = result.matchedRecord;
+    const trustList = await loadTrustList();
+    const institution = findInstitution(trustList, signed?.iss ?? record.institution);
+    if (!institution) return;
+
+    const revocation = await checkRevocation(
+      institution.id,
+      signed?.sub ?? record.certificateNumber,
+      signed?.statusListIndex ?? record?.statusListIndex,
+      signal,
+    );
+    if (!revocation) return;
+
+    result.revocation = revocation;
+    result.issues.push({
+      code: "revocation.revoked",
+      severity: "error",
+      source: "revocation",
+      message: `Certificate was revoked by ${institution.name} on ${new Date(revocation.revokedAt).toLocaleDateString()}: ${revocation.reason}`,
+      params: { institution: institution.name, revokedAt: revocation.revokedAt, reason: revocation.reason },
+    });
+  },
+};
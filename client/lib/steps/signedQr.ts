@@ -0,0 +1,92 @@
+import { looksLikeCredential } from "../credential";
+import type { VerificationStep } from "../pipeline";
+import {
+  claimsToRecord,
+  compareClaimsWithRecord,
+  isSignedQrPayload,
+  verifySignedQr,
+} from "../signedQr";
+import { loadTrustList } from "../trustList";
+
+export const signedQrStep: VerificationStep = {
+  id: "signed-qr",
+  label: "Verify signed QR payload",
+  inputs: [],
+  outputs: ["result.metadata.signedQr"],
+  dependsOn: ["qr"],
+  onFailure: "continue",
+  failureIssue: "Failed to verify signed QR payload",
+  // VC-JWTs are also compact JWS; the credential step handles those
+  when: ({ result }) =>
+    isSignedQrPayload(result.metadata.qrData) && !looksLikeCredential(result.metadata.qrData),
+  async run({ result }) {
+    const check = await verifySignedQr(result.metadata.qrData, await loadTrustList());
+    result.metadata.signedQr = check;
+    if (!check.valid) {
+      const error = check.error ?? "invalid";
+      result.issues.push({
+        code: `signed-qr.${error}`,
+        severity: check.error === "malformed" ? "warning" : "error",
+        source: "signed-qr",
+        message: `QR code signature could not be verified: ${check.errorMessage}`,
+        params: { error },
+      });
+    }
+  },
+};
+
+// Runs after the registry checks so the signed claims can be compared with
+// whatever record they produced.
+export const signedQrMatchStep: VerificationStep = {
+  id: "signed-qr-match",
+  label: "Compare signed QR with registry",
+  inputs: ["hashHex"],
+  outputs: ["result.matchedRecord"],
+  dependsOn: ["signed-qr"],
+  onFailure: "continue",
+  when: ({ result }) => !!result.metadata.signedQr,
+  async run({ state, result }) {
+    const check = result.metadata.signedQr;
+
+    // The trust score weighs a bad signature; there is nothing to compare
+    if (!check.valid) return;
+
+    const claims = check.claims;
+    if (claims.hash && claims.hash !== state.hashHex) {
+      result.issues.push({
+        code: "signed-qr.hash-mismatch",
+        severity: "warning",
+        source: "signed-qr-match",
+        message: "File hash differs from the hash signed into the QR code",
+        params: { expected: claims.hash, actual: state.hashHex },
+      });
+    }
+
+    if (result.matchedRecord) {
+      check.mismatches = compareClaimsWithRecord(claims, result.matchedRecord);
+      check.mismatches.forEach((field) =>
+        result.issues.push({
+          code: "signed-qr.record-mismatch",
+          severity: "warning",
+          source: "signed-qr-match",
+          message: `Signed QR ${field} differs from registry record`,
+          params: { field },
+          evidence: [{ kind: "record", ref: result.matchedRecord.certificateNumber }],
+        }),
+      );
+    }
+
+    // Without a backend verdict the issuer's signature is the strongest
+    // evidence available
+    if (!result.metadata.backendVerification && check.mismatches.length === 0) {
+      result.matchedRecord ??= claimsToRecord(claims, state.hashHex);
+      result.issues.push({
+        code: "signed-qr.verified",
+        severity: "pass",
+        source: "signed-qr-match",
+        message: `Issuer signature on QR code verified offline (${claims.iss}, key ${check.kid})`,
+        params: { issuer: claims.iss, kid: check.kid },
+      });
+    }
+  },
+};
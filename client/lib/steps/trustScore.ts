@@ -0,0 +1,18 @@
+import type { VerificationStep } from "../pipeline";
+import { loadTrustPolicy } from "../trustPolicy";
+import { scoreResult } from "../trustScore";
+
+// Runs in the decide phase, after every check step (built-in or custom), so
+// it sees all the evidence; its decision is the result's status
+export const trustScoreStep: VerificationStep = {
+  id: "trust-score",
+  label: "Compute trust score",
+  phase: "decide",
+  inputs: [],
+  outputs: ["result.trust", "result.status"],
+  onFailure: "continue",
+  async run({ result }) {
+    result.trust = scoreResult(result, await loadTrustPolicy());
+    result.status = result.trust.decision;
+  },
+};
@@ -0,0 +1,21 @@
+import { apiClient } from "@shared/api";
+import { isCredentialFile } from "../credential";
+import type { VerificationStep } from "../pipeline";
+
+export const uploadStep: VerificationStep = {
+  id: "upload",
+  label: "Upload to verification backend",
+  inputs: [],
+  outputs: ["uploadId", "result.metadata.uploadId"],
+  timeoutMs: 60_000,
+  onFailure: "continue",
+  // Credential files are verified locally from their proof
+  when: ({ file }) => !isCredentialFile(file),
+  async run({ file, state, result, signal }) {
+    console.log("🚀 Attempting backend verification...");
+    const uploadResult = await apiClient.uploadCertificate(file, { signal });
+    state.uploadId = uploadResult.id;
+    result.metadata.uploadId = uploadResult.id;
+    console.log("✅ File uploaded:", uploadResult);
+  },
+};
@@ -0,0 +1,47 @@
+import { apiClient } from "@shared/api";
+import { DEFAULT_TRUST_LIST, type TrustList } from "@shared/trustList";
+import { storedCache } from "./cache";
+
+const CACHE_KEY = "trust-list:cache";
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const cache = storedCache<TrustList>(CACHE_KEY);
+
+// Cached for an hour; falls back to the last cached copy (or the built-in
+// default) when the server can't be reached, so offline checks still work.
+export async function loadTrustList({ force = false } = {}): Promise<TrustList> {
+  const cached = cache.read();
+  if (!force && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.value;
+  }
+  try {
+    const response = await fetch("/api/trust-list");
+    if (!response.ok) {
+      throw new Error(`Trust list error: ${response.status} ${response.statusText}`);
+    }
+    const list: TrustList = await response.json();
+    cache.write(list);
+    return list;
+  } catch (e) {
+    console.warn("⚠️ Trust list unavailable, using cached copy:", e);
+    return cached?.value ?? DEFAULT_TRUST_LIST;
+  }
+}
+
+export async function saveTrustList(list: TrustList): Promise<TrustList> {
+  const response = await fetch("/api/trust-list", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+    body: JSON.stringify(list),
+  });
+  const body = await response.json();
+  if (response.status === 409) {
+    cache.write(body.current);
+    throw new Error("Trust list was changed by someone else. Reload and try again.");
+  }
+  if (!response.ok) {
+    throw new Error(body.error || `Trust list error: ${response.status}`);
+  }
+  cache.write(body);
+  return body;
+}
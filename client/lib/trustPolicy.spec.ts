@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRUST_POLICY } from "@shared/trustPolicy";
+import { historyEntry, type HistoryEntry } from "./history";
+import { dryRunPolicy } from "./trustPolicy";
+import { scoreResult } from "./trustScore";
+import type { VerificationResult } from "./verify";
+
+const entry = (id: string, registryMatch: VerificationResult["metadata"]["registryMatch"]) => {
+  const result: VerificationResult = {
+    status: "invalid",
+    issues: [],
+    metadata: { fileName: `${id}.png`, size: 10, mime: "image/png", hashHex: id, registryMatch },
+  };
+  result.trust = scoreResult(result);
+  result.status = result.trust.decision;
+  return historyEntry(result, { id, userId: "u1", verifiedAt: "2026-01-01T00:00:00.000Z" });
+};
+
+describe("dryRunPolicy", () => {
+  it("reports only verifications whose score or verdict would change", () => {
+    const entries = [entry("a", "hash"), entry("b", "number")];
+    expect(dryRunPolicy(entries, DEFAULT_TRUST_POLICY).changes).toEqual([]);
+
+    const strict = { ...DEFAULT_TRUST_POLICY, thresholds: { valid: 95, suspect: 70 } };
+    const { replayed, changes } = dryRunPolicy(entries, strict);
+    expect(replayed).toBe(2);
+    expect(changes).toEqual([
+      expect.objectContaining({ id: "b", before: "suspect", after: "invalid", beforeScore: 50, afterScore: 50 }),
+    ]);
+  });
+
+  it("skips synced entries that carry no result", () => {
+    const { result, ...summary } = entry("c", "hash");
+    const run = dryRunPolicy([summary as HistoryEntry], DEFAULT_TRUST_POLICY);
+    expect(run).toEqual({ replayed: 0, skipped: 1, changes: [] });
+  });
+});
@@ -0,0 +1,98 @@
+import { apiClient } from "@shared/api";
+import { DEFAULT_TRUST_POLICY, type TrustPolicy } from "@shared/trustPolicy";
+import { storedCache } from "./cache";
+import type { HistoryEntry } from "./history";
+import { scoreResult } from "./trustScore";
+import type { VerificationResult } from "./verify";
+
+const CACHE_KEY = "trust-policy:cache";
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const cache = storedCache<TrustPolicy>(CACHE_KEY);
+
+// Cached for a few minutes so policy edits reach verifiers quickly; falls
+// back to the last cached copy (or the built-in default) when offline.
+export async function loadTrustPolicy({ force = false } = {}): Promise<TrustPolicy> {
+  const cached = cache.read();
+  if (!force && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.value;
+  }
+  try {
+    const response = await fetch("/api/trust-policy");
+    if (!response.ok) {
+      throw new Error(`Verification policy error: ${response.status} ${response.statusText}`);
+    }
+    const policy: TrustPolicy = await response.json();
+    cache.write(policy);
+    return policy;
+  } catch (e) {
+    console.warn("⚠️ Verification policy unavailable, using cached copy:", e);
+    return cached?.value ?? DEFAULT_TRUST_POLICY;
+  }
+}
+
+export async function saveTrustPolicy(policy: TrustPolicy): Promise<TrustPolicy> {
+  const response = await fetch("/api/trust-policy", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...apiClient.authHeaders() },
+    body: JSON.stringify(policy),
+  });
+  const body = await response.json();
+  if (response.status === 409) {
+    cache.write(body.current);
+    throw new Error("Verification policy was changed by someone else. Reload and try again.");
+  }
+  if (!response.ok) {
+    throw new Error(body.error || `Verification policy error: ${response.status}`);
+  }
+  cache.write(body);
+  return body;
+}
+
+// Newest first
+export async function loadTrustPolicyVersions(): Promise<TrustPolicy[]> {
+  const response = await fetch("/api/trust-policy/versions");
+  if (!response.ok) {
+    throw new Error(`Verification policy error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+export type DryRunChange = {
+  id: string;
+  fileName: string;
+  verifiedAt: string;
+  before: VerificationResult["status"];
+  after: VerificationResult["status"];
+  beforeScore?: number;
+  afterScore: number;
+};
+
+export type DryRun = {
+  replayed: number;
+  // Entries synced from other devices carry no result to replay
+  skipped: number;
+  changes: DryRunChange[];
+};
+
+// Re-scores locally stored verifications under a draft policy without
+// saving it. Only this browser keeps full results, so it's a sample, not
+// the whole deployment.
+export function dryRunPolicy(entries: HistoryEntry[], draft: TrustPolicy): DryRun {
+  const replayable = entries.filter((e) => e.result);
+  const changes: DryRunChange[] = [];
+  for (const entry of replayable) {
+    const trust = scoreResult(entry.result!, draft);
+    if (trust.decision === entry.status && trust.score === entry.result!.trust?.score) continue;
+    changes.push({
+      id: entry.id,
+      fileName: entry.fileName,
+      verifiedAt: entry.verifiedAt,
+      before: entry.status,
+      after: trust.decision,
+      beforeScore: entry.result!.trust?.score,
+      afterScore: trust.score,
+    });
+  }
+  return { replayed: replayable.length, skipped: entries.length - replayable.length, changes };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRUST_POLICY } from "@shared/trustPolicy";
+import type { MLDetectionResponse } from "@shared/api";
+import { scoreResult } from "./trustScore";
+import type { VerificationResult } from "./verify";
+
+const result = (metadata: Partial<VerificationResult["metadata"]> = {}): VerificationResult => ({
+  status: "invalid",
+  issues: [],
+  metadata: { fileName: "cert.png", size: 10, mime: "image/png", hashHex: "abc", ...metadata },
+});
+
+const ml = (is_fake: boolean, confidence: number) =>
+  ({ success: true, is_fake, confidence }) as MLDetectionResponse;
+
+describe("scoreResult", () => {
+  it("trusts a byte-identical registry match", () => {
+    const trust = scoreResult(result({ registryMatch: "hash" }));
+    expect(trust.score).toBe(100);
+    expect(trust.decision).toBe("valid");
+    expect(trust.signals.map((s) => [s.signal, s.points])).toEqual([
+      ["registry", 25],
+      ["hash", 25],
+    ]);
+  });
+
+  it("leaves a certificate the registry doesn't know as suspect", () => {
+    const trust = scoreResult(result({ registryMatch: "none" }));
+    expect(trust.score).toBe(45);
+    expect(trust.decision).toBe("suspect");
+  });
+
+  it("adds every signal's points to the base score", () => {
+    const trust = scoreResult(
+      result({
+        registryMatch: "number",
+        mlDetection: ml(true, 0.5),
+        fieldComparison: [
+          { field: "name", label: "Name", status: "match" },
+          { field: "year", label: "Year", status: "mismatch" },
+        ],
+      }),
+    );
+    const total = trust.signals.reduce((sum, s) => sum + s.points, DEFAULT_TRUST_POLICY.baseScore);
+    expect(trust.score).toBe(Math.round(total));
+    expect(trust.signals.find((s) => s.signal === "ml")?.points).toBe(-10);
+    // 50 + 12.5 - 12.5 - 10 + 0 lands exactly on the suspect threshold
+    expect(trust.score).toBe(40);
+    expect(trust.decision).toBe("suspect");
+  });
+
+  it("lets fatal rules override the score", () => {
+    const trust = scoreResult(result({ registryMatch: "hash", mlDetection: ml(true, 0.9) }));
+    expect(trust.score).toBeGreaterThanOrEqual(70);
+    expect(trust.decision).toBe("invalid");
+    expect(trust.override?.rule).toBe("ml-fake");
+
+    const lenient = scoreResult(result({ registryMatch: "hash", mlDetection: ml(true, 0.9) }), {
+      ...DEFAULT_TRUST_POLICY,
+      fatal: [],
+    });
+    expect(lenient.decision).toBe("valid");
+  });
+
+  it("reports revoked certificates as revoked whatever the evidence", () => {
+    const revoked = { ...result({ registryMatch: "hash" }), revocation: { reason: "Withdrawn", revokedAt: "2026-01-01" } };
+    expect(scoreResult(revoked as VerificationResult).decision).toBe("revoked");
+  });
+
+  it("decides with the policy's thresholds", () => {
+    const strict = { ...DEFAULT_TRUST_POLICY, thresholds: { valid: 95, suspect: 60 } };
+    expect(scoreResult(result({ registryMatch: "number" }), strict).decision).toBe("invalid");
+    expect(scoreResult(result({ registryMatch: "number" })).decision).toBe("suspect");
+  });
+
+  it("holds back a valid verdict when a required check is missing", () => {
+    const policy = { ...DEFAULT_TRUST_POLICY, requiredChecks: { ...DEFAULT_TRUST_POLICY.requiredChecks, image: ["qr" as const] } };
+    const trust = scoreResult(result({ registryMatch: "hash" }), policy);
+    expect(trust.score).toBe(100);
+    expect(trust.missing).toEqual(["qr"]);
+    expect(trust.decision).toBe("suspect");
+  });
+});
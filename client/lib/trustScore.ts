@@ -0,0 +1,238 @@
+import {
+  DEFAULT_TRUST_POLICY,
+  TRUST_SIGNALS,
+  TRUST_SIGNAL_LABELS,
+  type DocumentType,
+  type FatalRule,
+  type TrustPolicy,
+  type TrustSignal,
+} from "@shared/trustPolicy";
+import type { VerificationResult } from "./verify";
+
+// What one piece of evidence did to the score. `value` runs from -1
+// (strong evidence of forgery) to 1 (strong evidence of authenticity).
+export type SignalContribution = {
+  signal: TrustSignal;
+  label: string;
+  value: number;
+  weight: number;
+  points: number;
+  detail: string;
+};
+
+export type TrustScore = {
+  // 0-100
+  score: number;
+  decision: VerificationResult["status"];
+  signals: SignalContribution[];
+  // Set when a rule decided the verdict regardless of the score
+  override?: { rule: FatalRule | "revoked"; detail: string };
+  documentType: DocumentType;
+  // Required checks that produced no evidence; the verdict can't be valid
+  missing: TrustSignal[];
+  thresholds: TrustPolicy["thresholds"];
+  policyVersion: number;
+};
+
+type Evidence = { value: number; detail: string };
+
+const FORGERY_ERRORS = ["bad-signature", "issuer-mismatch", "revoked-key"];
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+// A signature whose digest or signature value fails means the signed
+// bytes were altered.
+export function hasBrokenSignature(result: VerificationResult) {
+  return (result.metadata.pdfSignatures || []).some(
+    (sig) => !sig.digestValid || !sig.signatureValid,
+  );
+}
+
+const SIGNALS: Record<TrustSignal, (result: VerificationResult, policy: TrustPolicy) => Evidence | null> = {
+  registry({ metadata: m }) {
+    const backend = m.backendVerification?.status;
+    if (backend === "valid") return { value: 1, detail: "Institutional registry confirmed the certificate" };
+    if (backend === "suspect") return { value: 0, detail: "Institutional registry could not confirm the certificate" };
+    if (backend) return { value: -1, detail: `Institutional registry reported the certificate as ${backend}` };
+    switch (m.registryMatch) {
+      case "hash":
+        return { value: 1, detail: "File is identical to a registry record" };
+      case "visual":
+        return { value: 0.5, detail: "Looks like a registry record" };
+      case "number":
+        return { value: 0.5, detail: "Certificate number is in the registry" };
+      case "duplicate-number":
+        return { value: 0.25, detail: "Certificate number appears more than once in the registry" };
+      case "name":
+        return { value: 0.25, detail: "Only the holder's name matched a registry record" };
+      case "bad-checksum":
+        return { value: -1, detail: "Certificate number fails its check digit" };
+      case "none":
+        return { value: -0.2, detail: "No registry record found" };
+      default:
+        return null;
+    }
+  },
+  // Only the local registry holds file hashes to compare with
+  hash({ metadata: m }) {
+    if (m.registryMatch === "hash") return { value: 1, detail: "SHA-256 matches the registry record" };
+    if (!m.registryMatch || m.registryMatch === "none" || m.registryMatch === "bad-checksum") return null;
+    return { value: -0.5, detail: "SHA-256 differs from the registry record" };
+  },
+  signature({ metadata: m }) {
+    const signatures = m.pdfSignatures;
+    if (!signatures?.length) return null;
+    if (signatures.some((s) => !s.digestValid || !s.signatureValid)) {
+      return { value: -1, detail: "A signature no longer matches the document" };
+    }
+    if (signatures.some((s) => s.modifiedAfterSigning)) {
+      return { value: -0.5, detail: "Document was changed after signing" };
+    }
+    if (signatures.every((s) => s.chainValid)) return { value: 1, detail: "Signed by a trusted issuer" };
+    return { value: 0.5, detail: "Signature is intact but its certificate chain isn't trusted" };
+  },
+  qr({ metadata: m }) {
+    const check = m.signedQr;
+    if (!check) return null;
+    if (!check.valid) {
+      return FORGERY_ERRORS.includes(check.error ?? "")
+        ? { value: -1, detail: `Signature is forged (${check.error})` }
+        : { value: -0.3, detail: `Signature couldn't be checked (${check.error ?? "invalid"})` };
+    }
+    if (check.claims.hash && check.claims.hash !== m.hashHex) {
+      return { value: -0.5, detail: "Signed file hash differs from this file" };
+    }
+    if (check.mismatches.length > 0) {
+      return { value: -0.5, detail: `Signed ${check.mismatches.join(", ")} differ from the registry` };
+    }
+    return { value: 1, detail: `Issuer signature verified (${check.claims.iss})` };
+  },
+  credential({ metadata: m }) {
+    const check = m.credential;
+    if (!check) return null;
+    if (!check.valid) {
+      if (FORGERY_ERRORS.includes(check.error ?? "")) return { value: -1, detail: `Proof is forged (${check.error})` };
+      // A QR that merely looked like a credential says nothing either way
+      if (check.error === "malformed" && check.source === "qr") return null;
+      return { value: -0.3, detail: `Proof couldn't be checked (${check.error ?? "invalid"})` };
+    }
+    if (!check.record) return { value: 0, detail: "Proof verified, but the subject is incomplete" };
+    if (check.mismatches.length > 0) {
+      return { value: -0.5, detail: `Credential ${check.mismatches.join(", ")} differ from the registry` };
+    }
+    return { value: 1, detail: `Issued by ${check.issuerName || check.issuer}` };
+  },
+  ml({ metadata: m }) {
+    const ml = m.mlDetection;
+    if (!ml?.success) return null;
+    return ml.is_fake
+      ? { value: -ml.confidence, detail: `Classified as fake (${pct(ml.confidence)} confidence)` }
+      : { value: ml.confidence, detail: `Classified as authentic (${pct(ml.confidence)} confidence)` };
+  },
+  forensics({ metadata: m }, { forensicsSuspicion }) {
+    const forensics = m.forensics;
+    if (!forensics) return null;
+    if (forensics.score < forensicsSuspicion) return { value: 0, detail: "No tampering traces found" };
+    return { value: -forensics.score, detail: `Possible edits (${pct(forensics.score)} suspicion)` };
+  },
+  metadata({ metadata: m, matchedRecord }) {
+    const meta = m.documentMetadata;
+    if (!meta) return null;
+    const warnings = meta.findings.filter((f) => f.severity === "warning").length;
+    if (warnings === 0) return { value: 0, detail: "Nothing unusual" };
+    // The registry's own file is whatever the issuer produced it with
+    if (matchedRecord?.hashHex === m.hashHex) {
+      return { value: 0, detail: `${warnings} warning(s), ignored for the registry's own file` };
+    }
+    return { value: -Math.min(1, warnings / 2), detail: `${warnings} warning(s)` };
+  },
+  fields({ metadata: m }) {
+    const compared = m.fieldComparison?.filter((c) => ["match", "fuzzy", "mismatch"].includes(c.status)) ?? [];
+    if (compared.length === 0) return null;
+    const mismatches = compared.filter((c) => c.status === "mismatch").length;
+    // Close matches count as agreeing; OCR slips are expected
+    const fuzzy = compared.filter((c) => c.status === "fuzzy").length;
+    return {
+      value: (compared.length - 2 * mismatches) / compared.length,
+      detail:
+        `${compared.length - mismatches} of ${compared.length} fields match the registry` +
+        (fuzzy > 0 ? ` (${fuzzy} approximately)` : ""),
+    };
+  },
+};
+
+const FATAL_CHECKS: Record<FatalRule, (result: VerificationResult, policy: TrustPolicy) => string | null> = {
+  "pdf-signature-broken": (result) =>
+    hasBrokenSignature(result) ? "A PDF signature doesn't match the document contents" : null,
+  "signed-qr-forged": ({ metadata: m }) =>
+    m.signedQr && !m.signedQr.valid && FORGERY_ERRORS.includes(m.signedQr.error ?? "")
+      ? "The QR code's signature is forged"
+      : null,
+  "credential-forged": ({ metadata: m }) =>
+    m.credential && !m.credential.valid && FORGERY_ERRORS.includes(m.credential.error ?? "")
+      ? "The credential's proof is forged"
+      : null,
+  "ml-fake": ({ metadata: m }, { mlFakeConfidence }) =>
+    m.mlDetection?.success && m.mlDetection.is_fake && m.mlDetection.confidence > mlFakeConfidence
+      ? `AI detection is over ${pct(mlFakeConfidence)} sure the certificate is fake`
+      : null,
+};
+
+function overrideFor(result: VerificationResult, policy: TrustPolicy): TrustScore["override"] {
+  if (result.revocation) return { rule: "revoked", detail: `Revoked: ${result.revocation.reason}` };
+  if (result.metadata.backendVerification?.status === "revoked") {
+    return { rule: "revoked", detail: "The institutional registry lists the certificate as revoked" };
+  }
+  for (const rule of policy.fatal) {
+    const detail = FATAL_CHECKS[rule](result, policy);
+    if (detail) return { rule, detail };
+  }
+  return undefined;
+}
+
+export function documentTypeOf(result: VerificationResult): DocumentType {
+  const m = result.metadata;
+  if (m.credential?.source === "file") return "credential";
+  return m.mime === "application/pdf" || /\.pdf$/i.test(m.fileName) ? "pdf" : "image";
+}
+
+// Combines the evidence gathered by the steps into one explainable score
+export function scoreResult(result: VerificationResult, p: TrustPolicy = DEFAULT_TRUST_POLICY): TrustScore {
+  const signals: SignalContribution[] = [];
+  for (const signal of TRUST_SIGNALS) {
+    const evidence = SIGNALS[signal](result, p);
+    if (!evidence) continue;
+    const weight = p.weights[signal];
+    signals.push({
+      signal,
+      label: TRUST_SIGNAL_LABELS[signal],
+      ...evidence,
+      weight,
+      points: Math.round(evidence.value * weight * 10) / 10,
+    });
+  }
+  const total = signals.reduce((sum, s) => sum + s.points, p.baseScore);
+  const score = Math.round(Math.min(100, Math.max(0, total)));
+  const override = overrideFor(result, p);
+  const documentType = documentTypeOf(result);
+  const missing = p.requiredChecks[documentType].filter((r) => !signals.some((s) => s.signal === r));
+  let decision: TrustScore["decision"] = override
+    ? override.rule === "revoked"
+      ? "revoked"
+      : "invalid"
+    : score >= p.thresholds.valid
+      ? "valid"
+      : score >= p.thresholds.suspect
+        ? "suspect"
+        : "invalid";
+  if (decision === "valid" && missing.length > 0) decision = "suspect";
+  return {
+    score,
+    decision,
+    signals,
+    override,
+    documentType,
+    missing,
+    thresholds: p.thresholds,
+    policyVersion: p.version,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from "vitest";
+import { createWorkerClient } from "./workerClient";
+
+// Stands in for a worker that echoes each payload once `reply` is called
+function fakeWorker() {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  const received: { id: number; payload: string }[] = [];
+  const worker = {
+    addEventListener: (type: string, listener: (event: MessageEvent) => void) => {
+      if (type === "message") listeners.push(listener);
+    },
+    postMessage: (message: { id: number; payload: string }) => received.push(message),
+    terminate: vi.fn(),
+  };
+  const reply = () => {
+    for (const { id, payload } of received.splice(0)) {
+      listeners.forEach((l) => l({ data: { id, result: payload.toUpperCase() } } as MessageEvent));
+    }
+  };
+  return { worker: worker as unknown as Worker, terminate: worker.terminate, reply };
+}
+
+describe("createWorkerClient", () => {
+  it("rejects only the aborted request and keeps the shared worker", async () => {
+    const fake = fakeWorker();
+    const client = createWorkerClient<string, string>(() => fake.worker);
+    const controller = new AbortController();
+    const aborted = client.request("a", { signal: controller.signal });
+    const other = client.request("b");
+
+    controller.abort(new DOMException("Step timed out", "AbortError"));
+    await expect(aborted).rejects.toThrow("Step timed out");
+    fake.reply();
+    await expect(other).resolves.toBe("B");
+    expect(fake.terminate).not.toHaveBeenCalled();
+  });
+});
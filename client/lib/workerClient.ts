@@ -0,0 +1,75 @@
+// Minimal request/response protocol for the analysis workers (QR decoding,
+// tamper forensics): one long-lived worker per kind, requests matched by id.
+type Request<T> = { id: number; payload: T };
+type Response<R> = { id: number; result: R } | { id: number; error: string };
+
+export type WorkerClient<T, R> = {
+  // Aborting rejects just this request and drops its late reply; the
+  // worker, and other callers' requests on it, carry on
+  request(payload: T, options?: { transfer?: Transferable[]; signal?: AbortSignal }): Promise<R>;
+  terminate(reason?: Error): void;
+};
+
+export function createWorkerClient<T, R>(spawn: () => Worker): WorkerClient<T, R> {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (result: R) => void; reject: (e: Error) => void }>();
+
+  function terminate(reason: Error = new DOMException("Verification cancelled", "AbortError")) {
+    worker?.terminate();
+    worker = null;
+    for (const { reject } of pending.values()) reject(reason);
+    pending.clear();
+  }
+
+  function getWorker(): Worker {
+    if (worker) return worker;
+    worker = spawn();
+    worker.addEventListener("message", (event: MessageEvent<Response<R>>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if ("error" in event.data) request.reject(new Error(event.data.error));
+      else request.resolve(event.data.result);
+    });
+    worker.addEventListener("error", (event) => {
+      terminate(new Error(event.message || "Worker failed"));
+    });
+    return worker;
+  }
+
+  async function request(payload: T, { transfer = [], signal }: { transfer?: Transferable[]; signal?: AbortSignal } = {}) {
+    signal?.throwIfAborted();
+    const id = nextId++;
+    const onAbort = () => {
+      pending.get(id)?.reject(signal!.reason);
+      pending.delete(id);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        const message: Request<T> = { id, payload };
+        getWorker().postMessage(message, transfer);
+      });
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  return { request, terminate };
+}
+
+// Worker side of the protocol
+export function handleRequests<T, R>(handler: (payload: T) => R | Promise<R>) {
+  addEventListener("message", async (event: MessageEvent<Request<T>>) => {
+    const { id, payload } = event.data;
+    let response: Response<R>;
+    try {
+      response = { id, result: await handler(payload) };
+    } catch (e) {
+      response = { id, error: e instanceof Error ? e.message : String(e) };
+    }
+    postMessage(response);
+  });
+}
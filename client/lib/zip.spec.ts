@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { utf8Encode } from "@shared/encoding";
+import { readZip } from "./zip";
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// CRCs are left zeroed; the reader doesn't check them
+async function zip(
+  entries: { name: string; data: string; deflated?: boolean; declaredSize?: number }[],
+): Promise<Blob> {
+  const locals: Uint8Array<ArrayBuffer>[] = [];
+  const centrals: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+  for (const { name, data, deflated, declaredSize } of entries) {
+    const nameBytes = utf8Encode(name);
+    const raw = utf8Encode(data);
+    const body = deflated ? await deflate(raw) : raw;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, deflated ? 8 : 0, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, declaredSize ?? raw.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    locals.push(new Uint8Array(local.buffer), nameBytes, body);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, deflated ? 8 : 0, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, declaredSize ?? raw.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centrals.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + body.length;
+  }
+  const centralSize = centrals.reduce((n, part) => n + part.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+  return new Blob([...locals, ...centrals, new Uint8Array(eocd.buffer)]);
+}
+
+describe("readZip", () => {
+  it("extracts stored and deflated files with their types", async () => {
+    const archive = await zip([
+      { name: "batch/", data: "" },
+      { name: "batch/alice.json", data: '{"name":"Alice"}' },
+      { name: "batch/bob.pdf", data: "%PDF-1.4 ".repeat(50), deflated: true },
+      { name: "__MACOSX/batch/._bob.pdf", data: "fork" },
+      { name: "batch/.DS_Store", data: "junk" },
+    ]);
+    const files = await readZip(archive);
+    expect(files.map((f) => [f.name, f.type])).toEqual([
+      ["batch/alice.json", "application/json"],
+      ["batch/bob.pdf", "application/pdf"],
+    ]);
+    expect(await files[1].text()).toBe("%PDF-1.4 ".repeat(50));
+  });
+
+  it("stops inflating an entry that outgrows its declared size", async () => {
+    // A bomb: 4 MiB of zeros deflate to a few KiB, but claim to be 1 KiB
+    const archive = await zip([
+      { name: "bomb.pdf", data: "\0".repeat(4 * 1024 * 1024), deflated: true, declaredSize: 1024 },
+    ]);
+    await expect(readZip(archive)).rejects.toThrow("bomb.pdf is larger than the ZIP says");
+  });
+
+  it("rejects files that aren't archives", async () => {
+    await expect(readZip(new Blob(["not a zip at all, just some text"]))).rejects.toThrow("Not a ZIP archive");
+  });
+});
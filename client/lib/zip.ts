@@ -0,0 +1,107 @@
+// Minimal ZIP reader for batch uploads: stored and deflated entries, no
+// ZIP64, no encryption. Inflating uses the browser's DecompressionStream.
+
+// Guards against archive bombs; a hiring cycle's certificates fit easily
+const MAX_ENTRIES = 2000;
+const MAX_TOTAL_SIZE = 1024 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  json: "application/json",
+  jsonld: "application/ld+json",
+  jwt: "application/jwt",
+};
+
+export function isZip(file: File): boolean {
+  return /\.zip$/i.test(file.name) || /^application\/(x-)?zip(-compressed)?$/i.test(file.type);
+}
+
+function mimeFromName(name: string): string {
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[ext] ?? "";
+}
+
+// Stops as soon as the output outgrows the size the directory declared, so
+// an entry that understates it can't inflate without bound
+async function inflate(data: Uint8Array<ArrayBuffer>, size: number, name: string): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > size) {
+      await reader.cancel();
+      throw new Error(`${name} is larger than the ZIP says`);
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(length);
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.length;
+  }
+  return out;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The comment after the record is at most 64 KiB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let at = view.byteLength - 22; at >= stop; at--) {
+    if (view.getUint32(at, true) === EOCD_SIGNATURE) return at;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+// Every file in the archive, in directory order. Folders, dotfiles and
+// macOS resource forks are skipped; names keep their folder path.
+export async function readZip(archive: Blob): Promise<File[]> {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let at = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || at === 0xffffffff) throw new Error("ZIP64 archives aren't supported");
+  if (count > MAX_ENTRIES) throw new Error(`ZIP has ${count} entries; the limit is ${MAX_ENTRIES}`);
+
+  const decoder = new TextDecoder();
+  const files: File[] = [];
+  let total = 0;
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(at, true) !== CENTRAL_SIGNATURE) throw new Error("Corrupt ZIP central directory");
+    const flags = view.getUint16(at + 8, true);
+    const method = view.getUint16(at + 10, true);
+    const compressedSize = view.getUint32(at + 20, true);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+
+    const base = name.split("/").pop() ?? "";
+    if (name.endsWith("/") || base === "" || base.startsWith(".") || name.startsWith("__MACOSX/")) continue;
+    if (flags & 1) throw new Error(`${name} is encrypted`);
+    if (method !== 0 && method !== 8) throw new Error(`${name} uses an unsupported compression method`);
+    total += size;
+    if (total > MAX_TOTAL_SIZE) throw new Error("ZIP contents are too large");
+
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry ${name}`);
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    const data = method === 8 ? await inflate(raw, size, name) : raw.slice();
+    files.push(new File([data], name, { type: mimeFromName(name) }));
+  }
+  return files;
+}
@@ -31,6 +31,9 @@ import {
 import { useEffect, useState } from "react";
 import BackendStatus from "@/components/BackendStatus";
 import AuthStatus from "@/components/AuthStatus";
+import TrustListPanel from "@/components/admin/TrustListPanel";
+import RevocationPanel from "@/components/admin/RevocationPanel";
+import PolicyPanel from "@/components/admin/PolicyPanel";
 import { apiClient } from "@shared/api";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/contexts/AuthContext";
@@ -175,11 +178,14 @@ export default function Admin() {
         </div>
 
         <Tabs defaultValue="bulk-upload" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="bulk-upload">Bulk Upload</TabsTrigger>
             <TabsTrigger value="manual-entry">Manual Entry</TabsTrigger>
             <TabsTrigger value="users">User Management</TabsTrigger>
             <TabsTrigger value="samples">Sample Docs</TabsTrigger>
+            <TabsTrigger value="trust-list">Trust List</TabsTrigger>
+            <TabsTrigger value="revocation">Revocation</TabsTrigger>
+            <TabsTrigger value="policy">Verification Policy</TabsTrigger>
           </TabsList>
 
           <TabsContent value="bulk-upload" className="space-y-6">
@@ -383,6 +389,18 @@ export default function Admin() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="trust-list">
+            <TrustListPanel />
+          </TabsContent>
+
+          <TabsContent value="revocation">
+            <RevocationPanel />
+          </TabsContent>
+
+          <TabsContent value="policy">
+            <PolicyPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </main>
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import Reveal from "@/components/anim/Reveal";
+import StatusChip from "@/components/StatusChip";
+import { useAuth } from "@/contexts/AuthContext";
+import { filterHistory, type HistoryEntry, type HistoryFilter } from "@/lib/history";
+import {
+  GUEST_USER,
+  deleteHistoryEntry,
+  listHistory,
+  onHistoryChange,
+  syncHistory,
+} from "@/lib/historyStore";
+import { FileText, Loader2, RotateCcw, Search, Trash2 } from "lucide-react";
+
+export default function History() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const userId = user?.id ?? GUEST_USER;
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({ status: "all" });
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    if (loading) return;
+    let active = true;
+    const refresh = () =>
+      listHistory(userId)
+        .then((list) => active && setEntries(list))
+        .catch((e) => {
+          console.warn("⚠️ Couldn't read verification history:", e);
+          if (active) setEntries([]);
+        });
+    void refresh();
+    const unsubscribe = onHistoryChange(refresh);
+    if (userId !== GUEST_USER) {
+      setSyncing(true);
+      syncHistory(userId)
+        .catch((e) => console.warn("⚠️ History sync failed:", e))
+        .finally(() => active && setSyncing(false));
+    }
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId, loading]);
+
+  const shown = useMemo(() => filterHistory(entries ?? [], filter), [entries, filter]);
+  const update = (patch: Partial<HistoryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+
+  return (
+    <section className="relative overflow-hidden">
+      <div className="absolute inset-0 -z-10 bg-[radial-gradient(700px_circle_at_20%_10%,hsl(var(--primary)/.15),transparent_45%),radial-gradient(600px_circle_at_85%_0%,hsl(var(--accent)/.12),transparent_45%)]" />
+      <main className="container mx-auto px-4 py-16">
+        <Reveal className="max-w-4xl mx-auto space-y-6">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">Verification history</h1>
+            <p className="text-sm text-muted-foreground">
+              {user
+                ? "Certificates you've verified, synced across your devices."
+                : "Certificates verified in this browser. Sign in to keep them across devices."}
+              {syncing && (
+                <span className="inline-flex items-center gap-1 ml-2">
+                  <Loader2 className="h-3 w-3 animate-spin" /> Syncing…
+                </span>
+              )}
+            </p>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-[1fr_auto_auto_auto]">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8"
+                placeholder="Search file, institution, certificate number…"
+                value={filter.query ?? ""}
+                onChange={(e) => update({ query: e.target.value })}
+              />
+            </div>
+            <Select value={filter.status} onValueChange={(v) => update({ status: v as HistoryFilter["status"] })}>
+              <SelectTrigger className="sm:w-32" aria-label="Status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="valid">Valid</SelectItem>
+                <SelectItem value="suspect">Suspect</SelectItem>
+                <SelectItem value="invalid">Invalid</SelectItem>
+                <SelectItem value="revoked">Revoked</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="From"
+              value={filter.from ?? ""}
+              onChange={(e) => update({ from: e.target.value || undefined })}
+            />
+            <Input
+              type="date"
+              aria-label="To"
+              value={filter.to ?? ""}
+              onChange={(e) => update({ to: e.target.value || undefined })}
+            />
+          </div>
+
+          {entries === null ? (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading history…
+            </p>
+          ) : shown.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">
+              {entries.length === 0 ? (
+                <>
+                  Nothing here yet.{" "}
+                  <Link to="/verify" className="text-primary underline underline-offset-4">
+                    Verify a certificate
+                  </Link>
+                </>
+              ) : (
+                "No verifications match these filters."
+              )}
+            </p>
+          ) : (
+            <ul className="grid gap-2">
+              {shown.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-3 rounded-lg border bg-card p-3">
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" className="h-14 w-14 rounded object-cover shrink-0" />
+                  ) : (
+                    <div className="h-14 w-14 rounded bg-muted grid place-items-center shrink-0">
+                      <FileText className="h-5 w-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <Link to={`/verify/${entry.id}`} className="block truncate font-medium hover:underline">
+                      {entry.fileName}
+                    </Link>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[entry.institution, entry.certificateNumber, new Date(entry.verifiedAt).toLocaleString()]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <StatusChip status={entry.status} />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title={entry.file ? "Verify again" : "The file isn't stored in this browser"}
+                    disabled={!entry.file}
+                    onClick={() => navigate("/verify", { state: { reverify: entry.file } })}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    onClick={() =>
+                      deleteHistoryEntry(userId, entry.id).catch((e) =>
+                        console.warn("⚠️ Couldn't delete history entry:", e),
+                      )
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Reveal>
+      </main>
+    </section>
+  );
+}
@@ -1,7 +1,20 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import Reveal from "@/components/anim/Reveal";
+import QuadEditor from "@/components/QuadEditor";
+import { isFullFrame, type Quad } from "@/lib/perspective";
+import {
+  planPreprocessing,
+  preprocessImage,
+  writePreprocessedParams,
+  type PreprocessPlan,
+  type Preprocessed,
+} from "@/lib/preprocess";
+import { isAbortError } from "@/lib/verify";
+import { Loader2, RotateCcw } from "lucide-react";
 
 export default function Preview() {
   const { search } = useLocation();
@@ -11,23 +24,129 @@ export default function Preview() {
   const name = params.get("name") || "uploaded.jpg";
   const type = params.get("type") || "image/jpeg";
 
+  const [original, setOriginal] = useState<File | null>(null);
+  const [plan, setPlan] = useState<PreprocessPlan | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  // The quad the corrected preview was last rendered for
+  const [committed, setCommitted] = useState<Quad | null>(null);
+  const [manual, setManual] = useState(false);
+  const [corrected, setCorrected] = useState<Preprocessed | null>(null);
+  const [correctedUrl, setCorrectedUrl] = useState<string | null>(null);
+  const [useCorrected, setUseCorrected] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [failed, setFailed] = useState(false);
+
   useEffect(() => {
     if (!src || !/image\/jpeg|image\/jpg/i.test(type)) {
       navigate("/verify", { replace: true });
     }
   }, [src, type, navigate]);
 
+  // Detect the page outline once the photo is loaded
+  useEffect(() => {
+    if (!src) return;
+    const controller = new AbortController();
+    setWorking(true);
+    fetch(src, { signal: controller.signal })
+      .then((r) => r.blob())
+      .then(async (blob) => {
+        const file = new File([blob], name, { type });
+        const p = await planPreprocessing(file, controller.signal);
+        setOriginal(file);
+        setPlan(p);
+        setQuad(p.quad);
+        setCommitted(p.quad);
+        // Nothing to correct on a flat, already cropped scan
+        setUseCorrected(!isFullFrame(p.quad, p.width, p.height));
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setFailed(true);
+        setWorking(false);
+      });
+    return () => controller.abort();
+  }, [src, name, type]);
+
+  // Re-render the corrected image after each adjustment
+  useEffect(() => {
+    if (!original || !plan || !committed) return;
+    const controller = new AbortController();
+    setWorking(true);
+    preprocessImage(original, committed, {
+      skewDegrees: manual ? 0 : plan.skewDegrees,
+      manual,
+      signal: controller.signal,
+    })
+      .then((p) => {
+        setCorrected(p);
+        setWorking(false);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setFailed(true);
+        setWorking(false);
+      });
+    return () => controller.abort();
+  }, [original, plan, committed, manual]);
+
+  useEffect(() => {
+    if (!corrected) return;
+    const url = URL.createObjectURL(corrected.file);
+    setCorrectedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [corrected]);
+
   if (!src) return null;
 
+  const adjust = (q: Quad) => {
+    setQuad(q);
+    setManual(true);
+  };
+
+  const reset = () => {
+    if (!plan) return;
+    setManual(false);
+    setQuad(plan.quad);
+    setCommitted(plan.quad);
+  };
+
+  const onContinue = () => {
+    const next = new URLSearchParams(params);
+    if (useCorrected && corrected) {
+      // The URL is left alive for the verify page to load
+      writePreprocessedParams(next, corrected, URL.createObjectURL(corrected.file));
+    }
+    navigate(`/verify?${next.toString()}`);
+  };
+
   return (
     <section className="relative overflow-hidden">
       <div className="absolute inset-0 -z-10 bg-[radial-gradient(700px_circle_at_20%_10%,hsl(var(--primary)/.15),transparent_45%),radial-gradient(600px_circle_at_85%_0%,hsl(var(--accent)/.12),transparent_45%)]" />
       <main className="container mx-auto px-4 py-12">
         <div className="grid lg:grid-cols-2 gap-8 items-start">
-          <Reveal>
+          <Reveal className="space-y-4">
             <div className="rounded-2xl overflow-hidden border bg-black/40">
-              <img src={src} alt={name} className="w-full h-auto object-contain" />
+              {plan && quad ? (
+                <QuadEditor
+                  src={src}
+                  alt={name}
+                  width={plan.width}
+                  height={plan.height}
+                  quad={quad}
+                  onChange={adjust}
+                  onCommit={setCommitted}
+                />
+              ) : (
+                <img src={src} alt={name} className="w-full h-auto object-contain" />
+              )}
             </div>
+            {useCorrected && correctedUrl && (
+              <div className="rounded-2xl overflow-hidden border bg-black/40">
+                <img src={correctedUrl} alt={`${name} (corrected)`} className="w-full h-auto object-contain" />
+              </div>
+            )}
           </Reveal>
 
           <Reveal delay={0.05} className="space-y-4">
@@ -36,9 +155,45 @@ export default function Preview() {
             <div className="rounded-xl border p-4 text-sm">
               <div className="flex items-center justify-between"><span className="text-muted-foreground">File name</span><span className="font-medium truncate max-w-[60%]" title={name}>{name}</span></div>
               <div className="flex items-center justify-between"><span className="text-muted-foreground">Type</span><span className="font-medium">{type}</span></div>
+              {plan && (
+                <div className="flex items-center justify-between"><span className="text-muted-foreground">Page outline</span><span className="font-medium">{manual ? "Adjusted by hand" : plan.detected ? "Detected" : "Not found"}</span></div>
+              )}
+              {plan && !manual && plan.skewDegrees !== 0 && (
+                <div className="flex items-center justify-between"><span className="text-muted-foreground">Skew</span><span className="font-medium">{plan.skewDegrees.toFixed(2)}°</span></div>
+              )}
             </div>
+            {failed ? (
+              <p className="text-sm text-muted-foreground">Couldn't prepare a corrected image; the original will be verified.</p>
+            ) : (
+              <div className="rounded-xl border p-4 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="use-corrected" className="text-sm">Use corrected image</Label>
+                  <Switch id="use-corrected" checked={useCorrected} onCheckedChange={setUseCorrected} disabled={!plan} />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Drag the corners onto the edges of the certificate. The original photo is kept as evidence; checks that read the page run on the corrected copy.
+                </p>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  {working && (
+                    <span className="inline-flex items-center gap-1"><Loader2 className="h-3.5 w-3.5 animate-spin" /> Processing…</span>
+                  )}
+                  {manual && (
+                    <Button size="sm" variant="ghost" className="h-7 px-2" onClick={reset}>
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" /> Reset corners
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
             <div className="flex flex-wrap gap-3">
-              <Button size="lg" className="rounded-full px-6" onClick={() => navigate(`/verify?${params.toString()}`)}>Continue</Button>
+              <Button
+                size="lg"
+                className="rounded-full px-6"
+                disabled={useCorrected && !failed && (working || !corrected || quad !== committed)}
+                onClick={onContinue}
+              >
+                Continue
+              </Button>
               <Button size="lg" variant="secondary" className="rounded-full px-6" onClick={() => navigate("/verify")}>Choose another</Button>
               <Button size="lg" variant="ghost" className="rounded-full px-6" onClick={() => navigate(-1)}>Back</Button>
             </div>
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import Reveal from "@/components/anim/Reveal";
+import StoredVerificationCard from "@/components/StoredVerificationCard";
+import { checkReportSeal, loadVerification, type StoredReport } from "@/lib/permalinks";
+import { isAbortError } from "@/lib/verify";
+import { Loader2 } from "lucide-react";
+
+// Read-only view of a stored verification, for sharing by link
+export default function VerificationView() {
+  const { id = "" } = useParams();
+  const [stored, setStored] = useState<StoredReport | null>(null);
+  const [state, setState] = useState<"loading" | "ready" | "missing">("loading");
+  // Null until checked, and when there's no seal or the server is unreachable
+  const [sealValid, setSealValid] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState("loading");
+    setSealValid(null);
+    loadVerification(id, controller.signal)
+      .then(async (found) => {
+        setStored(found);
+        setState(found ? "ready" : "missing");
+        if (found) setSealValid(await checkReportSeal(found, controller.signal));
+      })
+      .catch((e) => {
+        if (!isAbortError(e)) setState("missing");
+      });
+    return () => controller.abort();
+  }, [id]);
+
+  return (
+    <section className="relative overflow-hidden">
+      <div className="absolute inset-0 -z-10 bg-[radial-gradient(700px_circle_at_20%_10%,hsl(var(--primary)/.15),transparent_45%),radial-gradient(600px_circle_at_85%_0%,hsl(var(--accent)/.12),transparent_45%)]" />
+      <main className="container mx-auto px-4 py-16">
+        <Reveal className="max-w-3xl mx-auto">
+          {state === "loading" && (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Loading verification…
+            </p>
+          )}
+          {state === "missing" && (
+            <div className="text-center space-y-2">
+              <h1 className="text-2xl font-semibold">Verification not found</h1>
+              <p className="text-sm text-muted-foreground">
+                The link may be mistyped, or the report was only saved in the browser that produced it.
+              </p>
+              <Link to="/verify" className="text-sm text-primary underline underline-offset-4">
+                Verify a certificate
+              </Link>
+            </div>
+          )}
+          {stored && <StoredVerificationCard stored={stored} sealValid={sealValid} />}
+        </Reveal>
+      </main>
+    </section>
+  );
+}
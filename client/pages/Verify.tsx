@@ -31,7 +31,8 @@ export default function Verify() {
           <Reveal delay={0.1} className="text-center">
             <p className="text-xs text-muted-foreground">
               We never store your file. All verification runs locally, with
-              optional server validation when institutions are connected.
+              optional server validation when institutions are connected. Only
+              the result report is kept, so it can be shared by link.
             </p>
           </Reveal>
         </div>
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { RequestHandler, Response } from "express";
+
+export type RequestUser = {
+  id: string;
+  email?: string;
+  role: "user" | "admin";
+};
+
+// Bearer tokens are the HS256 JWTs the backend issues at Google sign-in.
+// AUTH_JWT_SECRET must be the key it signs them with; without it no token
+// is accepted, so protected routes fail closed.
+export function verifyToken(token: string, secret = process.env.AUTH_JWT_SECRET): RequestUser | null {
+  if (!secret) return null;
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+  try {
+    if (JSON.parse(Buffer.from(header, "base64url").toString()).alg !== "HS256") return null;
+    const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.exp === "number" && claims.exp * 1000 <= Date.now()) return null;
+    if (typeof claims.sub !== "string" || !claims.sub) return null;
+    return {
+      id: claims.sub,
+      email: typeof claims.email === "string" ? claims.email : undefined,
+      role: claims.role === "admin" ? "admin" : "user",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Set by requireUser/requireAdmin for the handlers behind them
+export function requestUser(res: Response): RequestUser {
+  return res.locals.user;
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+  const user = match && verifyToken(match[1]);
+  if (!user) {
+    res.status(401).json({ error: "Sign in required" });
+    return;
+  }
+  res.locals.user = user;
+  next();
+};
+
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  requireUser(req, res, () => {
+    if (requestUser(res).role !== "admin") {
+      res.status(403).json({ error: "Admin access required" });
+      return;
+    }
+    next();
+  });
+};
@@ -1,7 +1,23 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import { requireAdmin, requireUser } from "./auth";
 import { handleDemo } from "./routes/demo";
+import { getTrustList, putTrustList } from "./routes/trust-list";
+import { getTrustPolicy, getTrustPolicyVersions, putTrustPolicy } from "./routes/trust-policy";
+import {
+  assignStatusIndexes,
+  getStatusIndex,
+  getStatusList,
+  revokeCertificates,
+} from "./routes/status-lists";
+import { checkVerificationSeal, getVerification, putVerification } from "./routes/verifications";
+import {
+  deleteHistoryEntry,
+  getHistory,
+  putHistoryEntry,
+  requireOwnHistory,
+} from "./routes/history";
 
 export function createServer() {
   const app = express();
@@ -19,5 +35,30 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Issuer trust list
+  app.get("/api/trust-list", getTrustList);
+  app.put("/api/trust-list", requireAdmin, putTrustList);
+
+  // Verification policy (signal weights and thresholds), with its versions
+  app.get("/api/trust-policy", getTrustPolicy);
+  app.get("/api/trust-policy/versions", getTrustPolicyVersions);
+  app.put("/api/trust-policy", requireAdmin, putTrustPolicy);
+
+  // Revocation status lists, one per issuer
+  app.get("/api/status-lists/:issuer", getStatusList);
+  app.get("/api/status-lists/:issuer/entries/:certificateNumber", getStatusIndex);
+  app.post("/api/status-lists/:issuer/entries", requireAdmin, assignStatusIndexes);
+  app.post("/api/status-lists/:issuer/revoke", requireAdmin, revokeCertificates);
+
+  // Sealed verification reports behind /verify/:id permalinks
+  app.get("/api/verifications/:id", getVerification);
+  app.put("/api/verifications/:id", requireUser, putVerification);
+  app.post("/api/verifications/:id/check", checkVerificationSeal);
+
+  // Per-user verification history summaries
+  app.get("/api/history/:userId", requireUser, requireOwnHistory, getHistory);
+  app.put("/api/history/:userId/:id", requireUser, requireOwnHistory, putHistoryEntry);
+  app.delete("/api/history/:userId/:id", requireUser, requireOwnHistory, deleteHistoryEntry);
+
   return app;
 }
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { HistorySummary } from "../../shared/history";
+import { startTestServer, testToken } from "../testing";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+const asUser = (id: string) => ({ Authorization: `Bearer ${testToken({ id, role: "user" })}` });
+
+const summary: HistorySummary = {
+  id: "abc-123",
+  verifiedAt: "2026-03-01T10:00:00.000Z",
+  fileName: "degree.pdf",
+  size: 10,
+  mime: "application/pdf",
+  hashHex: "abc123",
+  status: "valid",
+  issues: [],
+};
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+function request(path: string, init: RequestInit & { headers?: Record<string, string> } = {}) {
+  return fetch(`${server.url}/api/history/${path}`, init);
+}
+
+describe("history routes", () => {
+  it("requires a signed-in user", async () => {
+    expect((await request("u1")).status).toBe(401);
+  });
+
+  it("serves and changes only the caller's own history", async () => {
+    const put = await request("u1/abc-123", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...asUser("u1") },
+      body: JSON.stringify(summary),
+    });
+    expect(put.status).toBe(200);
+
+    expect((await request("u1", { headers: asUser("u2") })).status).toBe(403);
+    expect((await request("u1/abc-123", { method: "DELETE", headers: asUser("u2") })).status).toBe(403);
+    expect(
+      (
+        await request("u1/abc-123", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", ...asUser("u2") },
+          body: JSON.stringify({ ...summary, status: "invalid" }),
+        })
+      ).status,
+    ).toBe(403);
+
+    const own = await request("u1", { headers: asUser("u1") });
+    expect(await own.json()).toEqual([summary]);
+  });
+});
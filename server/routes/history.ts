@@ -0,0 +1,42 @@
+import { RequestHandler } from "express";
+import { historySummarySchema, type HistorySummary } from "../../shared/history";
+import { requestUser } from "../auth";
+
+// Kept in memory, per user, newest first
+const MAX_PER_USER = 1000;
+const histories = new Map<string, HistorySummary[]>();
+
+// Behind requireUser: callers only ever reach their own history
+export const requireOwnHistory: RequestHandler = (req, res, next) => {
+  if (String(req.params.userId) !== requestUser(res).id) {
+    res.status(403).json({ error: "Not your history" });
+    return;
+  }
+  next();
+};
+
+export const getHistory: RequestHandler = (req, res) => {
+  res.status(200).json(histories.get(String(req.params.userId)) ?? []);
+};
+
+export const putHistoryEntry: RequestHandler = (req, res) => {
+  const parsed = historySummarySchema.safeParse(req.body);
+  if (!parsed.success || parsed.data.id !== req.params.id) {
+    res.status(400).json({ error: "Invalid history entry", issues: parsed.error?.issues });
+    return;
+  }
+  const userId = String(req.params.userId);
+  const entry = parsed.data as HistorySummary;
+  const entries = (histories.get(userId) ?? []).filter((e) => e.id !== entry.id);
+  entries.push(entry);
+  entries.sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt));
+  histories.set(userId, entries.slice(0, MAX_PER_USER));
+  res.status(200).json(entry);
+};
+
+export const deleteHistoryEntry: RequestHandler = (req, res) => {
+  const userId = String(req.params.userId);
+  const entries = histories.get(userId) ?? [];
+  histories.set(userId, entries.filter((e) => e.id !== req.params.id));
+  res.status(204).end();
+};
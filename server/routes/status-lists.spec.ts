@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { decodeStatusList, getStatusBit } from "../../shared/statusList";
+import { startTestServer, testToken } from "../testing";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+const admin = { Authorization: `Bearer ${testToken({ id: "a1", role: "admin" })}` };
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+function post(path: string, body: unknown, headers: Record<string, string> = admin) {
+  return fetch(`${server.url}/api/status-lists/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("status list routes", () => {
+  it("only lets admins assign indexes or revoke", async () => {
+    const user = { Authorization: `Bearer ${testToken({ id: "u1", role: "user" })}` };
+    expect((await post("nu/entries", { certificateNumbers: ["A"] }, {})).status).toBe(401);
+    expect((await post("nu/revoke", { certificateNumbers: ["A"], reason: "x" }, user)).status).toBe(403);
+  });
+
+  it("revokes the index assigned at issuance, whatever the revocation order", async () => {
+    const assigned = await post("ru/entries", { certificateNumbers: ["jh-ru-1", "JH-RU-2"] });
+    const { entries } = await assigned.json();
+    expect(entries).toEqual({ "JH-RU-1": 0, "JH-RU-2": 1 });
+
+    const revoked = await post("ru/revoke", { certificateNumbers: ["JH-RU-2", "JH-RU-9"], reason: "Issued in error" });
+    expect(await revoked.json()).toMatchObject({ revoked: ["JH-RU-2"], unassigned: ["JH-RU-9"] });
+
+    const list = await (await fetch(`${server.url}/api/status-lists/ru`)).json();
+    const bits = await decodeStatusList(list.encodedList);
+    expect(getStatusBit(bits, entries["JH-RU-2"])).toBe(true);
+    expect(getStatusBit(bits, entries["JH-RU-1"])).toBe(false);
+
+    const lookup = await (await fetch(`${server.url}/api/status-lists/ru/entries/jh-ru-2`)).json();
+    expect(lookup.statusListIndex).toBe(1);
+  });
+
+  it("keeps an index once assigned", async () => {
+    await post("bit/entries", { certificateNumbers: ["X-1"] });
+    const again = await (await post("bit/entries", { certificateNumbers: ["X-2", "X-1"] })).json();
+    expect(again.entries).toEqual({ "X-2": 1, "X-1": 0 });
+  });
+
+  it("serves an empty list for an unknown issuer without creating one", async () => {
+    const list = await (await fetch(`${server.url}/api/status-lists/nobody`)).json();
+    expect(getStatusBit(await decodeStatusList(list.encodedList), 0)).toBe(false);
+    const revoked = await (await post("nobody/revoke", { certificateNumbers: ["A"], reason: "x" })).json();
+    expect(revoked.unassigned).toEqual(["A"]);
+  });
+});
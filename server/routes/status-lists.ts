@@ -0,0 +1,139 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  STATUS_LIST_SIZE,
+  encodeStatusList,
+  getStatusBit,
+  setStatusBit,
+  type BulkRevocationResponse,
+  type RevocationDetail,
+  type StatusAssignmentResponse,
+  type StatusIndexResponse,
+  type StatusList,
+} from "../../shared/statusList";
+
+type IssuerStatus = {
+  bits: Uint8Array<ArrayBuffer>;
+  // Certificate number -> status index, allocated once at issuance
+  assignments: Record<string, number>;
+  details: Record<string, RevocationDetail>;
+  updatedAt: string;
+};
+
+// Kept in memory, one list per issuer
+const lists = new Map<string, IssuerStatus>();
+
+function emptyStatus(): IssuerStatus {
+  return {
+    bits: new Uint8Array(STATUS_LIST_SIZE / 8),
+    assignments: {},
+    details: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function assignIndex(status: IssuerStatus, certificateNumber: string): number {
+  const existing = status.assignments[certificateNumber];
+  if (existing !== undefined) return existing;
+  const next = Object.keys(status.assignments).length;
+  if (next >= STATUS_LIST_SIZE) throw new Error("Status list is full");
+  status.assignments[certificateNumber] = next;
+  return next;
+}
+
+export const getStatusList: RequestHandler = async (req, res) => {
+  const issuer = String(req.params.issuer);
+  // Issuers with nothing assigned yet get an empty list, without storing one
+  const status = lists.get(issuer) ?? emptyStatus();
+  const list: StatusList = {
+    id: `/api/status-lists/${encodeURIComponent(issuer)}`,
+    issuer,
+    statusPurpose: "revocation",
+    encodedList: await encodeStatusList(status.bits),
+    validFrom: status.updatedAt,
+    details: status.details,
+  };
+  res.setHeader("Cache-Control", "public, max-age=60");
+  res.status(200).json(list);
+};
+
+export const getStatusIndex: RequestHandler = (req, res) => {
+  const issuer = String(req.params.issuer);
+  const certificateNumber = String(req.params.certificateNumber).toUpperCase();
+  const response: StatusIndexResponse = {
+    issuer,
+    certificateNumber,
+    statusListIndex: lists.get(issuer)?.assignments[certificateNumber] ?? null,
+  };
+  res.status(200).json(response);
+};
+
+const statusAssignmentSchema = z.object({
+  certificateNumbers: z.array(z.string().trim().min(1)).min(1).max(10000),
+});
+
+// Called at issuance; the returned indexes go into the signed credentials.
+// Numbers that already have an index keep it.
+export const assignStatusIndexes: RequestHandler = (req, res) => {
+  const parsed = statusAssignmentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid status assignment request", issues: parsed.error.issues });
+    return;
+  }
+
+  const issuer = String(req.params.issuer);
+  const status = lists.get(issuer) ?? emptyStatus();
+  const response: StatusAssignmentResponse = { issuer, entries: {} };
+  try {
+    for (const raw of parsed.data.certificateNumbers) {
+      const certificateNumber = raw.toUpperCase();
+      response.entries[certificateNumber] = assignIndex(status, certificateNumber);
+    }
+  } catch (e) {
+    res.status(507).json({ error: e instanceof Error ? e.message : String(e) });
+    return;
+  }
+
+  lists.set(issuer, status);
+  res.status(200).json(response);
+};
+
+const bulkRevocationSchema = z.object({
+  certificateNumbers: z.array(z.string().trim().min(1)).min(1).max(10000),
+  reason: z.string().trim().min(1),
+  revokedAt: z.string().datetime().optional(),
+});
+
+export const revokeCertificates: RequestHandler = (req, res) => {
+  const parsed = bulkRevocationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid revocation request", issues: parsed.error.issues });
+    return;
+  }
+
+  const issuer = String(req.params.issuer);
+  const status = lists.get(issuer);
+  const revokedAt = parsed.data.revokedAt || new Date().toISOString();
+  const response: BulkRevocationResponse = { issuer, revoked: [], alreadyRevoked: [], unassigned: [] };
+
+  // Only the index handed out at issuance is revoked; verifiers read that
+  // same index from the credential or look it up by certificate number
+  for (const raw of parsed.data.certificateNumbers) {
+    const certificateNumber = raw.toUpperCase();
+    const index = status?.assignments[certificateNumber];
+    if (index === undefined) {
+      response.unassigned.push(certificateNumber);
+      continue;
+    }
+    if (getStatusBit(status.bits, index)) {
+      response.alreadyRevoked.push(certificateNumber);
+      continue;
+    }
+    setStatusBit(status.bits, index);
+    status.details[index] = { reason: parsed.data.reason, revokedAt };
+    response.revoked.push(certificateNumber);
+  }
+
+  if (response.revoked.length > 0) status.updatedAt = new Date().toISOString();
+  res.status(200).json(response);
+};
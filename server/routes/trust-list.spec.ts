@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_TRUST_LIST } from "../../shared/trustList";
+import { startTestServer, testToken } from "../testing";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+function putList(headers: Record<string, string> = {}) {
+  return fetch(`${server.url}/api/trust-list`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(DEFAULT_TRUST_LIST),
+  });
+}
+
+describe("PUT /api/trust-list", () => {
+  it("rejects requests without a token", async () => {
+    expect((await putList()).status).toBe(401);
+  });
+
+  it("rejects tokens signed with another key", async () => {
+    const token = testToken({ id: "u1", role: "admin" }, "other-secret");
+    expect((await putList({ Authorization: `Bearer ${token}` })).status).toBe(401);
+  });
+
+  it("rejects signed-in users who aren't admins", async () => {
+    const token = testToken({ id: "u1", role: "user" });
+    expect((await putList({ Authorization: `Bearer ${token}` })).status).toBe(403);
+  });
+
+  it("accepts an admin's edit", async () => {
+    const token = testToken({ id: "a1", role: "admin" });
+    const response = await putList({ Authorization: `Bearer ${token}` });
+    expect(response.status).toBe(200);
+    expect((await response.json()).version).toBe(DEFAULT_TRUST_LIST.version + 1);
+  });
+});
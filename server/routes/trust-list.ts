@@ -0,0 +1,39 @@
+import { RequestHandler } from "express";
+import {
+  DEFAULT_TRUST_LIST,
+  trustListSchema,
+  type TrustList,
+} from "../../shared/trustList";
+
+// Kept in memory; restarts fall back to the default list
+let trustList: TrustList = DEFAULT_TRUST_LIST;
+
+export const getTrustList: RequestHandler = (req, res) => {
+  const etag = `"trust-list-${trustList.version}"`;
+  res.setHeader("ETag", etag);
+  res.setHeader("Cache-Control", "public, max-age=300");
+  if (req.headers["if-none-match"] === etag) {
+    res.status(304).end();
+    return;
+  }
+  res.status(200).json(trustList);
+};
+
+export const putTrustList: RequestHandler = (req, res) => {
+  const parsed = trustListSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid trust list", issues: parsed.error.issues });
+    return;
+  }
+  // Reject stale edits so two admins don't silently overwrite each other
+  if (parsed.data.version !== trustList.version) {
+    res.status(409).json({ error: "Trust list was changed by someone else", current: trustList });
+    return;
+  }
+  trustList = {
+    ...(parsed.data as TrustList),
+    version: trustList.version + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  res.status(200).json(trustList);
+};
@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_TRUST_POLICY } from "../../shared/trustPolicy";
+import { startTestServer, testToken } from "../testing";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+function putPolicy(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${server.url}/api/trust-policy`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("PUT /api/trust-policy", () => {
+  it("rejects anyone but a signed-in admin", async () => {
+    expect((await putPolicy(DEFAULT_TRUST_POLICY)).status).toBe(401);
+    const token = testToken({ id: "u1", role: "user" });
+    expect((await putPolicy(DEFAULT_TRUST_POLICY, { Authorization: `Bearer ${token}` })).status).toBe(403);
+  });
+
+  it("records the admin from the token, not from the body", async () => {
+    const token = testToken({ id: "a1", email: "admin@example.edu", role: "admin" });
+    const response = await putPolicy(
+      { ...DEFAULT_TRUST_POLICY, updatedBy: "someone-else@example.edu" },
+      { Authorization: `Bearer ${token}` },
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).updatedBy).toBe("admin@example.edu");
+  });
+});
@@ -0,0 +1,50 @@
+import { RequestHandler } from "express";
+import {
+  DEFAULT_TRUST_POLICY,
+  trustPolicySchema,
+  type TrustPolicy,
+} from "../../shared/trustPolicy";
+import { requestUser } from "../auth";
+
+// Kept in memory, newest last; restarts fall back to the default policy
+const versions: TrustPolicy[] = [DEFAULT_TRUST_POLICY];
+const current = () => versions[versions.length - 1];
+
+export const getTrustPolicy: RequestHandler = (req, res) => {
+  const policy = current();
+  const etag = `"trust-policy-${policy.version}"`;
+  res.setHeader("ETag", etag);
+  res.setHeader("Cache-Control", "public, max-age=300");
+  if (req.headers["if-none-match"] === etag) {
+    res.status(304).end();
+    return;
+  }
+  res.status(200).json(policy);
+};
+
+// Every saved version, newest first, as the audit trail
+export const getTrustPolicyVersions: RequestHandler = (_req, res) => {
+  res.status(200).json([...versions].reverse());
+};
+
+export const putTrustPolicy: RequestHandler = (req, res) => {
+  const parsed = trustPolicySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid verification policy", issues: parsed.error.issues });
+    return;
+  }
+  // Reject stale edits so two admins don't silently overwrite each other
+  if (parsed.data.version !== current().version) {
+    res.status(409).json({ error: "Verification policy was changed by someone else", current: current() });
+    return;
+  }
+  const policy: TrustPolicy = {
+    ...(parsed.data as TrustPolicy),
+    version: current().version + 1,
+    updatedAt: new Date().toISOString(),
+    // From the verified token, never from the request body
+    updatedBy: requestUser(res).email ?? requestUser(res).id,
+  };
+  versions.push(policy);
+  res.status(200).json(policy);
+};
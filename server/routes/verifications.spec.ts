@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { canonicalJson } from "../../shared/encoding";
+import { startTestServer, testToken } from "../testing";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+const signedIn = { Authorization: `Bearer ${testToken({ id: "u1", email: "registrar@example.edu", role: "user" })}` };
+
+const report = {
+  version: 2,
+  generatedAt: "2026-10-18T09:00:00.000Z",
+  status: "suspect",
+  issues: [],
+  file: { name: "degree.pdf", sha256: "ab".repeat(32) },
+};
+
+const sealed = (r: object = report) => ({
+  report: r,
+  digest: {
+    algorithm: "SHA-256",
+    canonicalization: "RFC 8785",
+    value: createHash("sha256").update(canonicalJson(r)).digest("hex"),
+  },
+});
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+function send(path: string, method: string, body: unknown, headers: Record<string, string> = signedIn) {
+  return fetch(`${server.url}/api/verifications/${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("permalink routes", () => {
+  it("only stores reports from signed-in users", async () => {
+    expect((await send("anon-1", "PUT", sealed(), {})).status).toBe(401);
+    expect((await fetch(`${server.url}/api/verifications/anon-1`)).status).toBe(404);
+  });
+
+  it("serves the server's own copy, with the submitter it recorded", async () => {
+    const put = await send("link-1", "PUT", { ...sealed(), storedBy: "someone@else.edu" });
+    expect(put.status).toBe(201);
+
+    const stored = await (await fetch(`${server.url}/api/verifications/link-1`)).json();
+    expect(stored).toMatchObject({ id: "link-1", report, storedBy: "registrar@example.edu" });
+    expect(stored.seal.value).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("rejects digests that don't match and changes to a stored report", async () => {
+    const mismatched = { ...sealed(), report: { ...report, status: "valid" } };
+    expect((await send("link-2", "PUT", mismatched)).status).toBe(400);
+
+    expect((await send("link-3", "PUT", sealed())).status).toBe(201);
+    expect((await send("link-3", "PUT", sealed())).status).toBe(200);
+    expect((await send("link-3", "PUT", sealed({ ...report, status: "valid" }))).status).toBe(409);
+  });
+});
+
+describe("report seals", () => {
+  it("seals stored reports and confirms only unedited ones", async () => {
+    const stored = await (await send("seal-1", "PUT", sealed())).json();
+    expect(stored.seal.algorithm).toBe("HMAC-SHA256");
+
+    const check = async (body: unknown, id = "seal-1") => (await (await send(`${id}/check`, "POST", body)).json()).valid;
+    expect(await check(stored)).toBe(true);
+    expect(await check(stored, "seal-2")).toBe(false);
+
+    // An edited report with a freshly recomputed digest keeps the old seal
+    const forged = { ...sealed({ ...report, status: "valid" }), seal: stored.seal };
+    expect(await check(forged)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { RequestHandler } from "express";
+import { canonicalJson } from "../../shared/encoding";
+import {
+  VERIFICATION_ID_PATTERN,
+  sealCheckSchema,
+  storedReportSchema,
+  type ReportSeal,
+  type SealCheckResponse,
+  type StoredVerification,
+} from "../../shared/verifications";
+import { requestUser } from "../auth";
+
+// Kept in memory; the oldest reports are dropped past the cap
+const MAX_STORED = 5000;
+const verifications = new Map<string, StoredVerification>();
+
+function reportDigest(report: unknown): string {
+  return createHash("sha256").update(canonicalJson(report)).digest("hex");
+}
+
+// REPORT_SEAL_KEY never leaves the server, so only it can make or check a
+// seal; without the key nothing is stored.
+function sealReport(id: string, digest: string, key = process.env.REPORT_SEAL_KEY): ReportSeal | null {
+  if (!key) return null;
+  return {
+    algorithm: "HMAC-SHA256",
+    value: createHmac("sha256", key).update(`${id}\n${digest}`).digest("hex"),
+  };
+}
+
+export const getVerification: RequestHandler = (req, res) => {
+  const stored = verifications.get(String(req.params.id));
+  if (!stored) {
+    res.status(404).json({ error: "Verification not found" });
+    return;
+  }
+  res.status(200).json(stored);
+};
+
+export const putVerification: RequestHandler = (req, res) => {
+  const id = String(req.params.id);
+  if (!VERIFICATION_ID_PATTERN.test(id)) {
+    res.status(400).json({ error: "Invalid verification id" });
+    return;
+  }
+  const parsed = storedReportSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid verification report", issues: parsed.error.issues });
+    return;
+  }
+  const { report, digest } = parsed.data;
+  if (reportDigest(report) !== digest.value) {
+    res.status(400).json({ error: "Report digest does not match its content" });
+    return;
+  }
+
+  // Permalinks are immutable; re-sending the same report is fine
+  const existing = verifications.get(id);
+  if (existing) {
+    if (existing.digest.value === digest.value) res.status(200).json(existing);
+    else res.status(409).json({ error: "A different report is already stored under this id" });
+    return;
+  }
+
+  const seal = sealReport(id, digest.value);
+  if (!seal) {
+    console.warn("⚠️ REPORT_SEAL_KEY is not set; not storing verification reports");
+    res.status(503).json({ error: "Report sealing is not configured" });
+    return;
+  }
+  const stored: StoredVerification = {
+    id,
+    storedAt: new Date().toISOString(),
+    report,
+    digest: digest as StoredVerification["digest"],
+    seal,
+    storedBy: requestUser(res).email ?? requestUser(res).id,
+  };
+  verifications.set(id, stored);
+  if (verifications.size > MAX_STORED) {
+    verifications.delete(verifications.keys().next().value!);
+  }
+  res.status(201).json(stored);
+};
+
+// Lets anyone holding a report (e.g. a downloaded JSON copy) confirm this
+// server sealed exactly that content under that ID
+export const checkVerificationSeal: RequestHandler = (req, res) => {
+  const parsed = sealCheckSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid verification report", issues: parsed.error.issues });
+    return;
+  }
+  const { report, digest, seal } = parsed.data;
+  const expected = sealReport(String(req.params.id), digest.value);
+  if (!expected) {
+    res.status(503).json({ error: "Report sealing is not configured" });
+    return;
+  }
+  const response: SealCheckResponse = {
+    valid:
+      reportDigest(report) === digest.value &&
+      timingSafeEqual(Buffer.from(expected.value), Buffer.from(seal.value)),
+  };
+  res.status(200).json(response);
+};
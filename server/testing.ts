@@ -0,0 +1,28 @@
+import { createHmac } from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createServer } from "./index";
+import type { RequestUser } from "./auth";
+
+export const TEST_JWT_SECRET = "test-secret";
+
+// A token shaped like the backend's, signed with TEST_JWT_SECRET
+export function testToken({ id, email, role }: RequestUser, secret = TEST_JWT_SECRET): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({ sub: id, email, role })}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+}
+
+// The app on a random local port, for route tests
+export async function startTestServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  process.env.AUTH_JWT_SECRET = TEST_JWT_SECRET;
+  process.env.REPORT_SEAL_KEY = "test-seal-key";
+  const server: Server = await new Promise((resolve) => {
+    const s = createServer().listen(0, "127.0.0.1", () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -39,7 +39,7 @@ export interface OCRResponse {
 
 export interface VerificationResponse {
   id: string;
-  status: 'valid' | 'invalid' | 'suspect';
+  status: 'valid' | 'invalid' | 'suspect' | 'revoked';
   confidence: number;
   matched_record?: {
     certificate_number: string;
@@ -48,6 +48,7 @@ export interface VerificationResponse {
     course: string;
     year: number;
   };
+  // Free text; the client maps these to structured issues (see ./issues)
   issues: string[];
   verification_time: string;
 }
@@ -101,6 +102,11 @@ export interface ModelStatusResponse {
   }>;
 }
 
+// Per-call options for long-running requests
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
 /**
  * API Client Functions
  */
@@ -148,31 +154,34 @@ export class APIClient {
   }
 
   // File Upload
-  async uploadCertificate(file: File): Promise<UploadResponse> {
+  async uploadCertificate(file: File, options: RequestOptions = {}): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('file', file);
 
     return this.request<UploadResponse>('/api/v1/upload/certificate', {
       method: 'POST',
       body: formData,
+      signal: options.signal,
     });
   }
 
   // OCR Text Extraction
-  async extractText(file: File): Promise<OCRResponse> {
+  async extractText(file: File, options: RequestOptions = {}): Promise<OCRResponse> {
     const formData = new FormData();
     formData.append('file', file);
 
     return this.request<OCRResponse>('/api/v1/ocr/extract-text', {
       method: 'POST',
       body: formData,
+      signal: options.signal,
     });
   }
 
   // Certificate Verification
-  async verifyCertificate(certificateId: string): Promise<VerificationResponse> {
+  async verifyCertificate(certificateId: string, options: RequestOptions = {}): Promise<VerificationResponse> {
     return this.request<VerificationResponse>(`/api/v1/verify/certificate/${certificateId}`, {
       method: 'POST',
+      signal: options.signal,
     });
   }
 
@@ -205,6 +214,11 @@ export class APIClient {
     }
   }
 
+  // For calls to our own server, whose write routes check the same token
+  authHeaders(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
   // Clear auth token
   clearToken(): void {
     this.token = null;
@@ -217,7 +231,8 @@ export class APIClient {
   async detectFakeCertificate(
     file: File, 
     certificateText?: string, 
-    certificateId?: string
+    certificateId?: string,
+    options: RequestOptions = {}
   ): Promise<MLDetectionResponse> {
     const formData = new FormData();
     formData.append('file', file);
@@ -231,6 +246,7 @@ export class APIClient {
     return this.request<MLDetectionResponse>('/api/v1/ml/detect-fake', {
       method: 'POST',
       body: formData,
+      signal: options.signal,
     });
   }
 
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { luhnValid, matchCertificateNumber, mod97Valid } from './certificateNumber';
+import { DEFAULT_TRUST_LIST, type TrustList } from './trustList';
+
+const list: TrustList = {
+  ...DEFAULT_TRUST_LIST,
+  institutions: [
+    ...DEFAULT_TRUST_LIST.institutions,
+    {
+      id: 'bit-mesra',
+      name: 'Birla Institute of Technology',
+      keys: [],
+      certificateNumberFormats: [{ pattern: 'BIT/\\d{10}', checksum: 'luhn' }],
+    },
+    {
+      id: 'xlri',
+      name: 'XLRI Jamshedpur',
+      keys: [],
+      certificateNumberFormats: [{ pattern: 'XL-\\d{6}-\\d{2}', checksum: 'mod97' }],
+    },
+  ],
+};
+
+describe('checksums', () => {
+  it('validates Luhn check digits', () => {
+    expect(luhnValid('79927398713')).toBe(true);
+    expect(luhnValid('79927398710')).toBe(false);
+  });
+
+  it('validates ISO 7064 mod 97-10 check digits, letters included', () => {
+    expect(mod97Valid('JH-RU-2021-004567-59')).toBe(true);
+    expect(mod97Valid('JH-RU-2021-004567-58')).toBe(false);
+  });
+});
+
+describe('matchCertificateNumber', () => {
+  it('returns the institution whose format matches', () => {
+    const match = matchCertificateNumber('scan_jh-ru-2021-004567.png', list);
+    expect(match?.certificateNumber).toBe('JH-RU-2021-004567');
+    expect(match?.institution.id).toBe('ranchi');
+    expect(match?.checksumValid).toBe(true);
+  });
+
+  it('flags numbers that fit the format but fail the checksum', () => {
+    expect(matchCertificateNumber('BIT/7992739871', list)?.checksumValid).toBe(false);
+    expect(matchCertificateNumber('BIT/7992739871', list)?.institution.id).toBe('bit-mesra');
+    expect(matchCertificateNumber('Certificate BIT/1234567897', list)?.checksumValid).toBe(true);
+  });
+
+  it('returns null when no registered format matches', () => {
+    expect(matchCertificateNumber('MH-PU-2020-000001', list)).toBeNull();
+    expect(matchCertificateNumber(undefined, list)).toBeNull();
+  });
+});
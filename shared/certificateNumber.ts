@@ -0,0 +1,97 @@
+/**
+ * Certificate-number formats registered per institution. Each format is a
+ * regex plus an optional check-digit rule, so numbers that look right but
+ * were made up can be rejected without a registry lookup.
+ */
+import type { TrustedInstitution, TrustList } from './trustList';
+
+export type ChecksumRule = 'none' | 'luhn' | 'mod97';
+
+export interface CertificateNumberFormat {
+  // Regex source, matched case-insensitively anywhere in the input
+  pattern: string;
+  checksum: ChecksumRule;
+  description?: string;
+  example?: string;
+}
+
+export interface CertificateNumberMatch {
+  certificateNumber: string;
+  institution: TrustedInstitution;
+  format: CertificateNumberFormat;
+  checksumValid: boolean;
+}
+
+export const CHECKSUM_RULES: ChecksumRule[] = ['none', 'luhn', 'mod97'];
+
+// Luhn (mod 10) over the digits of the number, check digit last
+export function luhnValid(input: string): boolean {
+  const digits = input.replace(/\D/g, '');
+  if (digits.length < 2) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 7064 MOD 97-10 (as used by IBAN): letters count as 10-35 and the
+// whole number, check digits included, must leave a remainder of 1
+export function mod97Valid(input: string): boolean {
+  const chars = input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  if (chars.length < 3) return false;
+  let remainder = 0;
+  for (const c of chars) {
+    const value = c >= 'A' ? String(c.charCodeAt(0) - 55) : c;
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+export function checksumValid(certificateNumber: string, rule: ChecksumRule): boolean {
+  if (rule === 'luhn') return luhnValid(certificateNumber);
+  if (rule === 'mod97') return mod97Valid(certificateNumber);
+  return true;
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// First registered format found in `input`. A checksum-valid match wins over
+// one that only fits the pattern, since formats of different institutions
+// can overlap.
+export function matchCertificateNumber(
+  input: string | null | undefined,
+  list: TrustList,
+): CertificateNumberMatch | null {
+  if (!input) return null;
+  let fallback: CertificateNumberMatch | null = null;
+  for (const institution of list.institutions) {
+    for (const format of institution.certificateNumberFormats || []) {
+      if (!isValidPattern(format.pattern)) continue;
+      const m = input.match(new RegExp(format.pattern, 'i'));
+      if (!m) continue;
+      const certificateNumber = m[0].toUpperCase();
+      const match = {
+        certificateNumber,
+        institution,
+        format,
+        checksumValid: checksumValid(certificateNumber, format.checksum),
+      };
+      if (match.checksumValid) return match;
+      fallback ??= match;
+    }
+  }
+  return fallback;
+}
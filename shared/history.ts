@@ -0,0 +1,39 @@
+/**
+ * Per-user verification history. Browsers keep full entries (result, file,
+ * thumbnail) in IndexedDB; the server only holds these summaries so a
+ * signed-in user sees the same list on every device. Nothing derived from
+ * the document's pixels is part of a summary.
+ */
+import { z } from 'zod';
+import { issueSchema, type Issue } from './issues';
+import { VERIFICATION_ID_PATTERN } from './verifications';
+
+export const VERIFICATION_STATUSES = ['valid', 'suspect', 'invalid', 'revoked'] as const;
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+export interface HistorySummary {
+  // Same ID as the /verify/:id permalink
+  id: string;
+  verifiedAt: string;
+  fileName: string;
+  size: number;
+  mime: string;
+  hashHex: string;
+  status: VerificationStatus;
+  issues: Issue[];
+  institution?: string;
+  certificateNumber?: string;
+}
+
+export const historySummarySchema = z.object({
+  id: z.string().regex(VERIFICATION_ID_PATTERN),
+  verifiedAt: z.string().datetime(),
+  fileName: z.string().max(1024),
+  size: z.number().int().nonnegative(),
+  mime: z.string().max(255),
+  hashHex: z.string().max(128),
+  status: z.enum(VERIFICATION_STATUSES),
+  issues: z.array(issueSchema).max(200),
+  institution: z.string().max(512).optional(),
+  certificateNumber: z.string().max(128).optional(),
+});
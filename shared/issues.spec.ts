@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { compareSeverity, issueFromText, issueSchema, isProblem, toIssue, type IssueSeverity } from './issues';
+
+describe('issueFromText', () => {
+  it('reads the old emoji markers as severities', () => {
+    expect(issueFromText('✅ AI verified certificate as AUTHENTIC', 'backend-verify')).toEqual({
+      code: 'backend-verify.message',
+      severity: 'pass',
+      source: 'backend-verify',
+      message: 'AI verified certificate as AUTHENTIC',
+    });
+    expect(issueFromText('⚠️ Possible tampering', 'legacy')).toMatchObject({
+      severity: 'warning',
+      message: 'Possible tampering',
+    });
+    expect(issueFromText('Registry record not found', 'backend-verify').severity).toBe('warning');
+  });
+
+  it('passes structured issues through', () => {
+    const issue = { code: 'ml.fake', severity: 'error' as const, source: 'ml', message: 'Fake' };
+    expect(toIssue(issue)).toBe(issue);
+    expect(issueSchema.safeParse(issue).success).toBe(true);
+  });
+});
+
+describe('severity', () => {
+  it('orders errors first and counts only errors and warnings as problems', () => {
+    const severities: IssueSeverity[] = ['pass', 'error', 'info', 'warning'];
+    expect(severities.sort(compareSeverity)).toEqual([
+      'error',
+      'warning',
+      'info',
+      'pass',
+    ]);
+    expect(isProblem(toIssue('⚠️ x'))).toBe(true);
+    expect(isProblem(toIssue('✅ x'))).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Structured verification issues. Every check reports what it found as an
+ * Issue with a stable code, so findings can be filtered, translated and
+ * scored; `message` is the English rendering of `code` with `params`.
+ */
+import { z } from 'zod';
+
+// Most severe first. "pass" records positive evidence (a verified
+// signature, an authentic ML verdict) alongside the problems.
+export const ISSUE_SEVERITIES = ['error', 'warning', 'info', 'pass'] as const;
+export type IssueSeverity = (typeof ISSUE_SEVERITIES)[number];
+
+export type IssueParams = Record<string, string | number | boolean>;
+
+// Where in the result (or the document) an issue's evidence lives
+export interface IssueEvidence {
+  kind: 'page' | 'region' | 'field' | 'signature' | 'record' | 'metadata';
+  // Field name, signature index, certificate number or metadata key
+  ref?: string;
+  page?: number;
+  // Normalised 0–1 coordinates on the page image
+  box?: { x: number; y: number; width: number; height: number };
+}
+
+export interface Issue {
+  // Dotted and stable, e.g. "ml.fake" or "registry.hash-mismatch"
+  code: string;
+  severity: IssueSeverity;
+  // ID of the pipeline step that raised it
+  source: string;
+  message: string;
+  params?: IssueParams;
+  evidence?: IssueEvidence[];
+}
+
+export const issueSchema = z.object({
+  code: z.string().max(128),
+  severity: z.enum(ISSUE_SEVERITIES),
+  source: z.string().max(128),
+  message: z.string().max(2000),
+  params: z.record(z.union([z.string().max(2000), z.number(), z.boolean()])).optional(),
+  evidence: z
+    .array(
+      z.object({
+        kind: z.enum(['page', 'region', 'field', 'signature', 'record', 'metadata']),
+        ref: z.string().max(512).optional(),
+        page: z.number().int().positive().optional(),
+        box: z
+          .object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+          .optional(),
+      }),
+    )
+    .max(50)
+    .optional(),
+});
+
+// Free-text messages (backend responses, results stored before issues were
+// structured) marked the way the old UI did: "✅" passed, "⚠️" warned.
+export function issueFromText(text: string, source: string): Issue {
+  const message = text.replace(/^\s*(✅|⚠️|⚠)\s*/u, '');
+  const severity: IssueSeverity = text.trimStart().startsWith('✅') ? 'pass' : 'warning';
+  return { code: `${source}.message`, severity, source, message };
+}
+
+export function toIssue(issue: Issue | string, source = 'legacy'): Issue {
+  return typeof issue === 'string' ? issueFromText(issue, source) : issue;
+}
+
+export function compareSeverity(a: IssueSeverity, b: IssueSeverity): number {
+  return ISSUE_SEVERITIES.indexOf(a) - ISSUE_SEVERITIES.indexOf(b);
+}
+
+// Issues that count against a document; "info" and "pass" don't
+export function isProblem(issue: Issue): boolean {
+  return issue.severity === 'error' || issue.severity === 'warning';
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import {
+  STATUS_LIST_SIZE,
+  decodeStatusList,
+  encodeStatusList,
+  getStatusBit,
+  setStatusBit,
+} from "./statusList";
+
+describe("status list bits", () => {
+  it("uses the most significant bit first", () => {
+    const bits = new Uint8Array(2);
+    setStatusBit(bits, 0);
+    setStatusBit(bits, 9);
+    expect(Array.from(bits)).toEqual([0x80, 0x40]);
+    expect(getStatusBit(bits, 9)).toBe(true);
+    setStatusBit(bits, 9, false);
+    expect(getStatusBit(bits, 9)).toBe(false);
+  });
+
+  it("rejects out-of-range indices", () => {
+    expect(() => getStatusBit(new Uint8Array(1), 8)).toThrow(RangeError);
+  });
+});
+
+describe("status list encoding", () => {
+  it("round-trips a compressed bitstring", async () => {
+    const bits = new Uint8Array(STATUS_LIST_SIZE / 8);
+    setStatusBit(bits, 42);
+    setStatusBit(bits, STATUS_LIST_SIZE - 1);
+    const encoded = await encodeStatusList(bits);
+    // A mostly-empty list compresses to a few hundred bytes
+    expect(encoded.length).toBeLessThan(1000);
+    const decoded = await decodeStatusList(encoded);
+    expect(getStatusBit(decoded, 42)).toBe(true);
+    expect(getStatusBit(decoded, 43)).toBe(false);
+    expect(getStatusBit(decoded, STATUS_LIST_SIZE - 1)).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Revocation status lists, modelled on W3C Bitstring Status List: one
+ * gzip-compressed, base64url-encoded bitstring per issuer where bit N set
+ * means the certificate at status index N is revoked.
+ */
+import { base64UrlDecode, base64UrlEncode } from './encoding';
+
+// 131,072 entries per list, the W3C minimum for herd privacy
+export const STATUS_LIST_SIZE = 131072;
+
+export interface RevocationDetail {
+  reason: string;
+  revokedAt: string;
+}
+
+export interface StatusList {
+  id: string;
+  issuer: string;
+  statusPurpose: 'revocation';
+  encodedList: string;
+  validFrom: string;
+  // Reason and date per revoked index, keyed by index
+  details: Record<string, RevocationDetail>;
+}
+
+export interface StatusIndexResponse {
+  issuer: string;
+  certificateNumber: string;
+  statusListIndex: number | null;
+}
+
+export interface StatusAssignmentRequest {
+  certificateNumbers: string[];
+}
+
+// Status index per certificate number, to embed in the issued credential
+export interface StatusAssignmentResponse {
+  issuer: string;
+  entries: Record<string, number>;
+}
+
+export interface BulkRevocationRequest {
+  certificateNumbers: string[];
+  reason: string;
+  revokedAt?: string;
+}
+
+export interface BulkRevocationResponse {
+  issuer: string;
+  revoked: string[];
+  alreadyRevoked: string[];
+  // Never given a status index, so there is nothing to revoke
+  unassigned: string[];
+}
+
+async function pipeThrough(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+export async function encodeStatusList(bits: Uint8Array<ArrayBuffer>): Promise<string> {
+  return base64UrlEncode(await pipeThrough(bits, new CompressionStream('gzip')));
+}
+
+export async function decodeStatusList(encoded: string): Promise<Uint8Array<ArrayBuffer>> {
+  return pipeThrough(base64UrlDecode(encoded), new DecompressionStream('gzip'));
+}
+
+// Bit 0 is the most significant bit of the first byte
+export function getStatusBit(bits: Uint8Array, index: number): boolean {
+  if (index < 0 || index >= bits.length * 8) throw new RangeError(`Status index ${index} out of range`);
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+export function setStatusBit(bits: Uint8Array, index: number, value = true) {
+  if (index < 0 || index >= bits.length * 8) throw new RangeError(`Status index ${index} out of range`);
+  if (value) bits[index >> 3] |= 0x80 >> (index & 7);
+  else bits[index >> 3] &= ~(0x80 >> (index & 7));
+}
@@ -0,0 +1,143 @@
+/**
+ * Issuer trust list: which institutions we trust and the keys they sign with.
+ * Shaped like a JWKS grouped by institution, with validity windows so keys
+ * can be rotated and revoked without breaking older certificates.
+ */
+import { z } from 'zod';
+import { isValidPattern, type CertificateNumberFormat } from './certificateNumber';
+
+export type TrustedKeyStatus = 'active' | 'retired' | 'revoked';
+
+export interface TrustedKey {
+  kid: string;
+  alg?: string;
+  jwk: JsonWebKey;
+  notBefore: string;
+  notAfter?: string;
+  status: TrustedKeyStatus;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+export interface TrustedInstitution {
+  id: string;
+  name: string;
+  // Also accepted as an issuer identifier (e.g. a DID or https URL)
+  aliases?: string[];
+  keys: TrustedKey[];
+  // PEM certificates anchoring the institution's PDF signing chain
+  x5c?: string[];
+  // How this institution numbers its certificates
+  certificateNumberFormats?: CertificateNumberFormat[];
+}
+
+export interface TrustList {
+  version: number;
+  updatedAt: string;
+  institutions: TrustedInstitution[];
+}
+
+export type TrustedKeyLookup =
+  | { ok: true; institution: TrustedInstitution; key: TrustedKey }
+  | { ok: false; reason: 'unknown-key' | 'revoked-key' | 'key-not-valid'; message: string };
+
+const jwkSchema = z
+  .object({ kty: z.string(), crv: z.string().optional(), x: z.string().optional(), y: z.string().optional() })
+  .passthrough()
+  .refine((jwk) => !('d' in jwk), { message: 'Trust list keys must be public (no "d")' });
+
+export const trustListSchema = z.object({
+  version: z.number().int().nonnegative(),
+  updatedAt: z.string(),
+  institutions: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      aliases: z.array(z.string()).optional(),
+      x5c: z.array(z.string()).optional(),
+      certificateNumberFormats: z
+        .array(
+          z.object({
+            pattern: z.string().refine(isValidPattern, { message: 'Invalid regular expression' }),
+            checksum: z.enum(['none', 'luhn', 'mod97']),
+            description: z.string().optional(),
+            example: z.string().optional(),
+          }),
+        )
+        .optional(),
+      keys: z.array(
+        z.object({
+          kid: z.string().min(1),
+          alg: z.string().optional(),
+          jwk: jwkSchema,
+          notBefore: z.string(),
+          notAfter: z.string().optional(),
+          status: z.enum(['active', 'retired', 'revoked']),
+          revokedAt: z.string().optional(),
+          revocationReason: z.string().optional(),
+        }),
+      ),
+    }),
+  ),
+});
+
+export const DEFAULT_TRUST_LIST: TrustList = {
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  institutions: [
+    {
+      id: 'nilamber-pitamber',
+      name: 'Nilamber-Pitamber University',
+      keys: [],
+      certificateNumberFormats: [
+        { pattern: 'JH-NU-\\d{4}-\\d{6,}', checksum: 'none', example: 'JH-NU-2019-000123' },
+      ],
+    },
+    {
+      id: 'ranchi',
+      name: 'Ranchi University',
+      keys: [],
+      certificateNumberFormats: [
+        { pattern: 'JH-RU-\\d{4}-\\d{6,}', checksum: 'none', example: 'JH-RU-2021-004567' },
+      ],
+    },
+  ],
+};
+
+// Matches an issuer by id, alias or (case-insensitively) display name
+export function findInstitution(list: TrustList, issuer: string): TrustedInstitution | undefined {
+  const lower = issuer.toLowerCase();
+  return list.institutions.find(
+    (i) => i.id === issuer || i.aliases?.includes(issuer) || i.name.toLowerCase() === lower,
+  );
+}
+
+// `at` is when the signature was made (e.g. a JWT's iat); retired keys stay
+// usable for anything signed inside their window. Revoked keys never are:
+// `at` is whatever the signer claims, so a stolen key could backdate it.
+export function findTrustedKey(list: TrustList, kid: string, at: Date = new Date()): TrustedKeyLookup {
+  for (const institution of list.institutions) {
+    const key = institution.keys.find((k) => k.kid === kid);
+    if (!key) continue;
+    if (key.status === 'revoked') {
+      return {
+        ok: false,
+        reason: 'revoked-key',
+        message: `Key "${kid}" of ${institution.name} was revoked${key.revocationReason ? ` (${key.revocationReason})` : ''}`,
+      };
+    }
+    if (new Date(key.notBefore) > at || (key.notAfter && new Date(key.notAfter) < at)) {
+      return {
+        ok: false,
+        reason: 'key-not-valid',
+        message: `Key "${kid}" of ${institution.name} was not valid at ${at.toISOString()}`,
+      };
+    }
+    return { ok: true, institution, key };
+  }
+  return { ok: false, reason: 'unknown-key', message: `No trusted issuer key "${kid}"` };
+}
+
+export function trustAnchorPems(list: TrustList): string[] {
+  return list.institutions.flatMap((i) => i.x5c || []);
+}
@@ -0,0 +1,126 @@
+/**
+ * Verification policy: how much each piece of evidence moves a document's
+ * trust score, where the valid/suspect/invalid cut-offs sit, and which
+ * failures decide the verdict on their own. Admins edit it on the server,
+ * and every saved change becomes a new version.
+ */
+import { z } from 'zod';
+
+// Evidence the score is built from, in display order
+export const TRUST_SIGNALS = [
+  'registry',
+  'hash',
+  'signature',
+  'qr',
+  'credential',
+  'ml',
+  'forensics',
+  'metadata',
+  'fields',
+] as const;
+export type TrustSignal = (typeof TRUST_SIGNALS)[number];
+
+export const TRUST_SIGNAL_LABELS: Record<TrustSignal, string> = {
+  registry: 'Registry match',
+  hash: 'File hash',
+  signature: 'PDF signature',
+  qr: 'Signed QR code',
+  credential: 'Verifiable credential',
+  ml: 'AI detection',
+  forensics: 'Tamper forensics',
+  metadata: 'Document metadata',
+  fields: 'Document fields',
+};
+
+// Failures that make a document invalid whatever its score
+export const FATAL_RULES = [
+  'pdf-signature-broken',
+  'signed-qr-forged',
+  'credential-forged',
+  'ml-fake',
+] as const;
+export type FatalRule = (typeof FATAL_RULES)[number];
+
+export const FATAL_RULE_LABELS: Record<FatalRule, string> = {
+  'pdf-signature-broken': 'PDF signature broken',
+  'signed-qr-forged': 'Forged QR signature',
+  'credential-forged': 'Forged credential proof',
+  'ml-fake': 'AI confident the document is fake',
+};
+
+// What was uploaded; each type can require its own checks
+export const DOCUMENT_TYPES = ['pdf', 'image', 'credential'] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+export interface TrustPolicy {
+  version: number;
+  updatedAt: string;
+  // Set by the server from the signed-in admin
+  updatedBy?: string;
+  // Why this version was saved
+  note?: string;
+  // Score every document starts from, 0-100
+  baseScore: number;
+  // Points a signal adds at full strength; negative evidence removes as many
+  weights: Record<TrustSignal, number>;
+  // Lowest score for each verdict; anything under `suspect` is invalid
+  thresholds: { valid: number; suspect: number };
+  fatal: FatalRule[];
+  // Signals a document of each type can't be valid without
+  requiredChecks: Record<DocumentType, TrustSignal[]>;
+  // An ML "fake" verdict above this confidence triggers the ml-fake rule
+  mlFakeConfidence: number;
+  // Forensic region score at which a page counts as possibly edited
+  forensicsSuspicion: number;
+}
+
+export const DEFAULT_TRUST_POLICY: TrustPolicy = {
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  baseScore: 50,
+  weights: {
+    registry: 25,
+    hash: 25,
+    signature: 20,
+    qr: 30,
+    credential: 30,
+    ml: 20,
+    forensics: 15,
+    metadata: 10,
+    fields: 10,
+  },
+  thresholds: { valid: 70, suspect: 40 },
+  fatal: ['pdf-signature-broken', 'signed-qr-forged', 'credential-forged', 'ml-fake'],
+  requiredChecks: { pdf: [], image: [], credential: ['credential'] },
+  mlFakeConfidence: 0.8,
+  forensicsSuspicion: 0.6,
+};
+
+const score = z.number().min(0).max(100);
+const signals = z.array(z.enum(TRUST_SIGNALS));
+
+export const trustPolicySchema = z.object({
+  version: z.number().int().nonnegative(),
+  updatedAt: z.string(),
+  updatedBy: z.string().max(256).optional(),
+  note: z.string().max(1000).optional(),
+  baseScore: score,
+  weights: z.object({
+    registry: score,
+    hash: score,
+    signature: score,
+    qr: score,
+    credential: score,
+    ml: score,
+    forensics: score,
+    metadata: score,
+    fields: score,
+  }),
+  thresholds: z
+    .object({ valid: score, suspect: score })
+    .refine((t) => t.valid >= t.suspect, 'The valid threshold must not be below the suspect threshold'),
+  fatal: z.array(z.enum(FATAL_RULES)),
+  requiredChecks: z.object({ pdf: signals, image: signals, credential: signals }),
+  mlFakeConfidence: z.number().min(0).max(1),
+  forensicsSuspicion: z.number().min(0).max(1),
+});
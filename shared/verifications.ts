@@ -0,0 +1,54 @@
+/**
+ * Stored verification reports behind the /verify/:id permalinks. The server
+ * only sees the sealed report (never the certificate file), checks its
+ * digest before keeping it and seals the copy it keeps. The digest alone
+ * can be recomputed by anyone; the seal can only be checked by the server.
+ */
+import { z } from 'zod';
+import { issueSchema } from './issues';
+
+// Backend upload IDs, or random UUIDs when the result was produced offline
+export const VERIFICATION_ID_PATTERN = /^[A-Za-z0-9_-]{6,128}$/;
+
+export const storedReportSchema = z.object({
+  report: z
+    .object({
+      version: z.literal(2),
+      generatedAt: z.string().datetime(),
+      status: z.enum(['valid', 'suspect', 'invalid', 'revoked']),
+      issues: z.array(issueSchema),
+      file: z.object({ name: z.string(), sha256: z.string() }).passthrough(),
+    })
+    .passthrough(),
+  digest: z.object({
+    algorithm: z.literal('SHA-256'),
+    canonicalization: z.literal('RFC 8785'),
+    value: z.string().regex(/^[0-9a-f]{64}$/),
+  }),
+});
+
+// HMAC over the permalink ID and the report digest, keyed by the server
+export const reportSealSchema = z.object({
+  algorithm: z.literal('HMAC-SHA256'),
+  value: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export type ReportSeal = z.infer<typeof reportSealSchema>;
+
+export const sealCheckSchema = storedReportSchema.extend({ seal: reportSealSchema });
+
+export interface SealCheckResponse {
+  valid: boolean;
+}
+
+export interface StoredVerification<R = unknown> {
+  id: string;
+  storedAt: string;
+  report: R;
+  digest: { algorithm: 'SHA-256'; canonicalization: 'RFC 8785'; value: string };
+  // Absent on copies only a browser has kept
+  seal?: ReportSeal;
+  // Signed-in user who submitted it, set by the server. The checks ran in
+  // their browser; the server vouches for who stored it, not the verdict.
+  storedBy?: string;
+}
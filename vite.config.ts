@@ -1,6 +1,8 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
+import { createRequire } from "module";
 import { createServer } from "./server";
 
 // https://vitejs.dev/config/
@@ -16,7 +18,7 @@ export default defineConfig(({ mode }) => ({
   build: {
     outDir: "dist/spa",
   },
-  plugins: [react(), expressPlugin()],
+  plugins: [react(), expressPlugin(), ocrAssetsPlugin()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./client"),
@@ -37,3 +39,47 @@ function expressPlugin(): Plugin {
     },
   };
 }
+
+const require = createRequire(import.meta.url);
+
+// Tesseract worker, WASM cores and language data for offline OCR, served
+// from /ocr (see client/lib/offlineOcr.ts) instead of a CDN
+function ocrAssets(): Record<string, string> {
+  const core = path.dirname(require.resolve("tesseract.js-core/package.json"));
+  const lstmCores = ["", "simd-", "relaxedsimd-"].map(
+    (variant) => `tesseract-core-${variant}lstm.wasm.js`,
+  );
+  return {
+    "ocr/worker.min.js": require.resolve("tesseract.js/dist/worker.min.js"),
+    ...Object.fromEntries(lstmCores.map((f) => [`ocr/core/${f}`, path.join(core, f)])),
+    ...Object.fromEntries(
+      ["eng", "hin"].map((lang) => [
+        `ocr/lang/${lang}.traineddata.gz`,
+        require.resolve(`@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`),
+      ]),
+    ),
+  };
+}
+
+function ocrAssetsPlugin(): Plugin {
+  return {
+    name: "ocr-assets",
+    configureServer(server) {
+      const assets = ocrAssets();
+      server.middlewares.use((req, res, next) => {
+        const file = assets[(req.url || "").split("?")[0].slice(1)];
+        if (!file) return next();
+        res.setHeader(
+          "Content-Type",
+          file.endsWith(".js") ? "text/javascript" : "application/octet-stream",
+        );
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, file] of Object.entries(ocrAssets())) {
+        this.emitFile({ type: "asset", fileName, source: fs.readFileSync(file) });
+      }
+    },
+  };
+}